@@ -1,15 +1,389 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import Experience from './components/Experience';
 import Overlay from './components/Overlay';
-import { TreeState } from './types';
+import Guestbook from './components/Guestbook';
+import SharePanel from './components/SharePanel';
+import AudioPanel from './components/AudioPanel';
+import CapturePanel from './components/CapturePanel';
+import TimelinePanel from './components/TimelinePanel';
+import CameraPanel from './components/CameraPanel';
+import QualityPanel from './components/QualityPanel';
+import ProfilePanel from './components/ProfilePanel';
+import LightsPanel from './components/LightsPanel';
+import SnowPanel from './components/SnowPanel';
+import ForcePanel from './components/ForcePanel';
+import DecorationPanel from './components/DecorationPanel';
+import { DecorationEditing } from './components/DecorationEditor';
+import ThemePanel from './components/ThemePanel';
+import TransitionPanel from './components/TransitionPanel';
+import LanguagePanel from './components/LanguagePanel';
+import { TreeState, CameraMode, DecorationLayout, ForceFieldConfig, FormationId, GuestbookEntry, LightPatternId, LocaleId, QualityTier, SnowConfig, Timeline, TransitionSettings, TreeConfig, TreeProfileConfig, ViewState } from './types';
+import { DEFAULT_CONFIG_URL, DEFAULT_TREE_CONFIG, loadTreeConfig } from './utils/config';
+import { Formation, hasFormation, listFormations } from './utils/formations';
+import { registerShapeFormations } from './utils/shapeSampling';
+import {
+  GUESTBOOK_GROUP_ID,
+  createGuestbookEntry,
+  loadGuestbook,
+  mergeGuestbook,
+  saveGuestbook
+} from './utils/guestbook';
+import {
+  LayoutHistory,
+  createLayoutHistory,
+  decorationPalette,
+  editLayout,
+  loadDecorations,
+  redoLayout,
+  saveDecorations,
+  undoLayout
+} from './utils/decorations';
+import { createAudioAnalyser } from './utils/audio';
+import { CaptureController } from './utils/capture';
+import { TimelinePlayer, createTimelinePlayer, loadTimeline, parseTimeline } from './utils/timeline';
+import { DEFAULT_SHOT_ID } from './utils/cameraShots';
+import { QualityMode, detectInitialTier, loadQualityMode, saveQualityMode } from './utils/quality';
+import { decodeViewState, readViewStateFromLocation, writeViewStateToLocation } from './utils/urlState';
+import { detectLocale, loadLocale, resolveText, saveLocale } from './utils/i18n';
+import { applyBrandFonts } from './utils/brand';
+import { EmbedChannel, EmbedCommand, EmbedCommandError, createEmbedChannel, isEmbedMode } from './utils/embed';
+
+// Partner iframes open the bare scene with ?embed and drive it over postMessage (utils/embed.ts)
+const embedded = isEmbedMode();
+
+// Designers can point at a variant document with ?config=variants/rose.json. Not when
+// embedded: the host page writes the iframe's URL, and the config holds its own allowlist.
+const getConfigUrl = () =>
+  (!embedded && new URLSearchParams(window.location.search).get('config')) || DEFAULT_CONFIG_URL;
+
+// Unattended displays start a show straight away with ?timeline=timelines/lobby-show.json
+const getTimelineUrl = () => new URLSearchParams(window.location.search).get('timeline');
+
+const BUNDLED_SHOWS = [{ label: 'Lobby show', url: './timelines/lobby-show.json' }];
+
+// Hash the page was opened with. Shape formations register asynchronously, so a link
+// pointing at one is resolved again once they exist.
+const initialHash = window.location.hash;
 
 function App() {
-  const [treeState, setTreeState] = useState<TreeState>(TreeState.SCATTERED);
+  const [view, setView] = useState<ViewState>(readViewStateFromLocation);
+  const [config, setConfig] = useState<TreeConfig>(DEFAULT_TREE_CONFIG);
+  const [configError, setConfigError] = useState<string | null>(null);
+  const [profile, setProfile] = useState<TreeProfileConfig>(DEFAULT_TREE_CONFIG.profile);
+  const [lightPattern, setLightPattern] = useState<LightPatternId>(DEFAULT_TREE_CONFIG.lightStrings.pattern);
+  const [snow, setSnow] = useState<SnowConfig>(DEFAULT_TREE_CONFIG.snow);
+  const [transition, setTransition] = useState<TransitionSettings>(DEFAULT_TREE_CONFIG.transition);
+  const [forceField, setForceField] = useState<ForceFieldConfig>(DEFAULT_TREE_CONFIG.forceField);
+  const [formations, setFormations] = useState<Formation[]>(listFormations);
+  const [guestbook, setGuestbook] = useState<GuestbookEntry[]>(loadGuestbook);
+  const [selectedEntry, setSelectedEntry] = useState<GuestbookEntry | null>(null);
+  const [decorations, setDecorations] = useState<LayoutHistory>(() => createLayoutHistory(loadDecorations()));
+  const [decorating, setDecorating] = useState(false);
+  const [brush, setBrush] = useState(() => decorationPalette(DEFAULT_TREE_CONFIG)[0]);
+  const [selectedDecoration, setSelectedDecoration] = useState<string | null>(null);
+  const [analyser] = useState(createAudioAnalyser);
+  const [beatPulses, setBeatPulses] = useState(true);
+  const capture = useRef<CaptureController | null>(null);
+  const embed = useRef<EmbedChannel | null>(null);
+  const [timeline, setTimeline] = useState<TimelinePlayer | null>(null);
+  const [timelineError, setTimelineError] = useState<string | null>(null);
+  const [cameraMode, setCameraMode] = useState<CameraMode>('orbit');
+  const [shot, setShot] = useState(DEFAULT_SHOT_ID);
+  const [qualityMode, setQualityMode] = useState<QualityMode>(loadQualityMode);
+  const [autoTier, setAutoTier] = useState<QualityTier>(detectInitialTier);
+  const fps = useRef(0);
+  // The visitor's pick, else the browser's language (a brand's own default replaces the latter)
+  const [locale, setLocaleState] = useState<LocaleId>(() => loadLocale() ?? detectLocale());
+  const qualityTier = qualityMode === 'auto' ? autoTier : qualityMode;
+
+  const { formation } = view;
+  const updateView = (patch: Partial<ViewState>) => setView((current) => ({ ...current, ...patch }));
+  const setFormation = (next: FormationId) => updateView({ formation: next });
+  const setLocale = (next: LocaleId) => {
+    saveLocale(next);
+    setLocaleState(next);
+  };
+
+  useEffect(() => {
+    saveGuestbook(guestbook);
+  }, [guestbook]);
+
+  // Drags save once, on the drop
+  useEffect(() => {
+    if (!decorations.dragging) saveDecorations(decorations.present);
+  }, [decorations]);
+
+  useEffect(() => {
+    saveQualityMode(qualityMode);
+  }, [qualityMode]);
+
+  useEffect(() => {
+    analyser.beatSensitivity = config.audio.beatSensitivity;
+  }, [analyser, config]);
+
+  useEffect(() => () => analyser.dispose(), [analyser]);
+
+  useEffect(() => {
+    applyBrandFonts(config.brand);
+  }, [config]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    if (config.brand.title) document.title = resolveText(config.brand.title, locale, document.title);
+  }, [config, locale]);
+
+  const editDecorations = (layout: DecorationLayout, transient = false) =>
+    setDecorations((history) => editLayout(history, layout, transient));
+
+  const decorationEditor = useMemo<DecorationEditing | null>(
+    () => (decorating ? { brush, selectedId: selectedDecoration, onSelect: setSelectedDecoration, onEdit: editDecorations } : null),
+    [decorating, brush, selectedDecoration]
+  );
+
+  // Ornaments are hung on the assembled tree
+  const setDecoratingMode = (next: boolean) => {
+    if (next) setFormation(TreeState.TREE_SHAPE);
+    else setSelectedDecoration(null);
+    setDecorating(next);
+  };
+
+  const startTimeline = (loaded: Timeline) => {
+    const player = createTimelinePlayer(loaded);
+    player.play();
+    setTimeline(player);
+    setTimelineError(null);
+  };
+
+  const loadTimelineUrl = (url: string) => {
+    loadTimeline(url)
+      .then(startTimeline)
+      .catch((err: Error) => {
+        console.error(err);
+        setTimelineError(err.message);
+      });
+  };
+
+  // Keep the address bar shareable, and follow links pasted into an open tab
+  useEffect(() => {
+    writeViewStateToLocation(view);
+  }, [view]);
+
+  useEffect(() => {
+    const handleHashChange = () => setView((current) => decodeViewState(window.location.hash, current));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const url = getConfigUrl();
+    loadTreeConfig(url)
+      .then(async (loaded) => {
+        if (cancelled) return;
+        setConfig(loaded);
+        setProfile(loaded.profile);
+        setLightPattern(loaded.lightStrings.pattern);
+        setSnow(loaded.snow);
+        setTransition(loaded.transition);
+        setForceField(loaded.forceField);
+        setBrush(decorationPalette(loaded)[0]);
+        if (loaded.brand.locale && !loadLocale()) setLocaleState(loaded.brand.locale);
+        // Text/logo formations need their fonts loaded and rasterised before they can be picked
+        await registerShapeFormations(loaded.shapes);
+        if (cancelled) return;
+        setFormations(listFormations());
+        setView((current) => ({ ...current, formation: decodeViewState(initialHash, current).formation }));
+      })
+      .catch((err: Error) => {
+        // Keep rendering the built-in scene, but make the problem visible
+        console.error(err);
+        if (!cancelled) setConfigError(err.message);
+      })
+      .then(() => {
+        // After the shapes are registered, so the timeline's formation track can name them
+        const timelineUrl = getTimelineUrl();
+        if (!cancelled && timelineUrl) loadTimelineUrl(timelineUrl);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Embed mode: the host page's commands, and status events back to it. The channel lives
+  // as long as the allowlist; commands reach this render's handler through the ref.
+  const handleEmbedCommand = (command: EmbedCommand) => {
+    switch (command.type) {
+      case 'toggle':
+        setView((current) => ({
+          ...current,
+          formation: current.formation === TreeState.TREE_SHAPE ? TreeState.SCATTERED : TreeState.TREE_SHAPE
+        }));
+        break;
+      case 'setFormation':
+        if (!hasFormation(command.formation)) {
+          throw new EmbedCommandError(`Unknown formation "${command.formation}"`, command.type);
+        }
+        updateView({ formation: command.formation });
+        break;
+      case 'setTheme':
+        updateView({ palette: command.theme });
+        break;
+      case 'setGreeting':
+        updateView({ greeting: command.greeting });
+        break;
+      case 'playTimeline':
+        if (command.timeline !== undefined) {
+          try {
+            startTimeline(parseTimeline(command.timeline));
+          } catch (err) {
+            throw new EmbedCommandError((err as Error).message, command.type);
+          }
+        } else if (command.url) {
+          loadTimeline(command.url)
+            .then(startTimeline)
+            .catch((err: Error) => embed.current?.post({ type: 'error', message: err.message, command: command.type }));
+        }
+        break;
+      case 'stopTimeline':
+        setTimeline(null);
+        break;
+    }
+  };
+  const embedCommand = useRef(handleEmbedCommand);
+  embedCommand.current = handleEmbedCommand;
+
+  useEffect(() => {
+    if (!embedded) return;
+    const channel = createEmbedChannel(config.embed.allowedOrigins, (command) => embedCommand.current(command));
+    embed.current = channel;
+    channel.post({ type: 'ready', formation, theme: view.palette });
+    return () => {
+      channel.dispose();
+      embed.current = null;
+    };
+  }, [config.embed.allowedOrigins]);
+
+  useEffect(() => {
+    embed.current?.post({ type: 'stateChanged', formation });
+  }, [formation]);
 
   return (
     <div className="w-full h-full relative bg-black">
-      <Experience treeState={treeState} />
-      <Overlay treeState={treeState} setTreeState={setTreeState} />
+      <Experience 
+        formation={formation} 
+        config={config} 
+        seed={view.seed}
+        camera={view.camera}
+        onCameraChange={(camera) => updateView({ camera })}
+        guestbook={guestbook}
+        onOrnamentSelect={(groupId, index) => {
+          embed.current?.post({ type: 'ornamentClicked', groupId, index });
+          setSelectedEntry(groupId === GUESTBOOK_GROUP_ID ? guestbook[index] ?? null : null);
+        }}
+        onOrnamentDeselect={() => setSelectedEntry(null)}
+        audio={analyser}
+        beatPulses={beatPulses}
+        capture={capture}
+        timeline={timeline}
+        onFormationChange={setFormation}
+        onPaletteChange={(palette) => updateView({ palette })}
+        cameraMode={cameraMode}
+        shot={shot}
+        onShotChange={(next) => {
+          // A show cutting between shots is directing the camera
+          setShot(next);
+          setCameraMode('director');
+        }}
+        qualityTier={qualityTier}
+        autoQuality={qualityMode === 'auto'}
+        onQualityTierChange={setAutoTier}
+        fps={fps}
+        profile={profile}
+        lightPattern={lightPattern}
+        snow={snow}
+        theme={view.palette}
+        transition={transition}
+        forceField={forceField}
+        onTransitionEnd={(settled) => embed.current?.post({ type: 'transitionComplete', formation: settled })}
+        decorations={decorations.present}
+        decorationEditor={decorationEditor}
+      />
+      {embedded ? (
+        // No chrome inside a partner's page; only the greeting it sets
+        view.greeting && (
+          <p className="absolute top-8 left-0 w-full px-8 text-center text-amber-100 font-serif text-lg italic drop-shadow-[0_0_8px_rgb(var(--ui-glow)/0.4)] break-words pointer-events-none z-10">
+            {view.greeting}
+          </p>
+        )
+      ) : (
+        <>
+          <Overlay 
+            formation={formation} 
+            setFormation={setFormation} 
+            formations={formations} 
+            configError={configError} 
+            greeting={view.greeting}
+            locale={locale}
+            brand={config.brand}
+          />
+          <div className="absolute top-8 left-8 z-20 flex flex-col items-start gap-3">
+            <SharePanel 
+              view={view}
+              onGreetingChange={(greeting) => updateView({ greeting })}
+              onReshuffle={() => updateView({ seed: Math.floor(Math.random() * 0xffffffff) })}
+              locale={locale}
+            />
+            <TimelinePanel 
+              player={timeline}
+              onLoad={startTimeline}
+              onEject={() => setTimeline(null)}
+              bundled={BUNDLED_SHOWS}
+              onLoadUrl={loadTimelineUrl}
+              error={timelineError}
+              locale={locale}
+            />
+            <ThemePanel theme={view.palette} setTheme={(palette) => updateView({ palette })} />
+            <TransitionPanel transition={transition} setTransition={setTransition} locale={locale} />
+            <LanguagePanel locale={locale} setLocale={setLocale} />
+            <CameraPanel mode={cameraMode} setMode={setCameraMode} shot={shot} setShot={setShot} locale={locale} />
+            <ProfilePanel profile={profile} setProfile={setProfile} />
+            <LightsPanel pattern={lightPattern} setPattern={setLightPattern} />
+            <SnowPanel snow={snow} setSnow={setSnow} />
+            <ForcePanel forceField={forceField} setForceField={setForceField} />
+            <DecorationPanel
+              editing={decorating}
+              setEditing={setDecoratingMode}
+              layout={decorations.present}
+              palette={decorationPalette(config)}
+              brush={brush}
+              setBrush={setBrush}
+              selectedId={decorations.present.items.some((item) => item.id === selectedDecoration) ? selectedDecoration : null}
+              canUndo={decorations.past.length > 0}
+              canRedo={decorations.future.length > 0}
+              onUndo={() => setDecorations(undoLayout)}
+              onRedo={() => setDecorations(redoLayout)}
+              onReplace={editDecorations}
+              locale={locale}
+            />
+            <QualityPanel mode={qualityMode} setMode={setQualityMode} tier={qualityTier} fps={fps} locale={locale} />
+          </div>
+          <Guestbook 
+            entries={guestbook}
+            onAdd={(name, message) => setGuestbook((entries) => [...entries, createGuestbookEntry(name, message, entries)])}
+            onImport={(entries) => setGuestbook((current) => mergeGuestbook(current, entries))}
+            selectedEntry={selectedEntry}
+            locale={locale}
+          />
+          <AudioPanel 
+            analyser={analyser}
+            audio={config.audio}
+            beatPulses={beatPulses}
+            setBeatPulses={setBeatPulses}
+            locale={locale}
+          />
+          <CapturePanel capture={capture} locale={locale} />
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioConfig, LocaleId } from '../types';
+import { AudioAnalyser } from '../utils/audio';
+import { MessageKey, translate } from '../utils/i18n';
+
+interface AudioPanelProps {
+  analyser: AudioAnalyser;
+  audio: AudioConfig;
+  beatPulses: boolean;
+  setBeatPulses: (enabled: boolean) => void;
+  locale: LocaleId;
+}
+
+const AudioPanel: React.FC<AudioPanelProps> = ({ analyser, audio, beatPulses, setBeatPulses, locale }) => {
+  const t = (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values);
+  const [trackName, setTrackName] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const start = async (name: string, play: () => Promise<void>) => {
+    try {
+      await play();
+      setTrackName(name);
+      setPlaying(true);
+      setError(null);
+    } catch (err) {
+      setPlaying(false);
+      setError(t('couldNotPlay', { name, error: (err as Error).message }));
+    }
+  };
+
+  const playFile = (file: File) => {
+    if (!file.type.startsWith('audio/')) {
+      setError(t('notAudioFile', { name: file.name }));
+      return;
+    }
+    start(file.name, () => analyser.playFile(file));
+  };
+
+  // Audio files can be dropped anywhere on the page
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      setDragging(true);
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      // Only when leaving the window, not when crossing between elements
+      if (!e.relatedTarget) setDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      const file = e.dataTransfer?.files[0];
+      setDragging(false);
+      if (!file) return;
+      e.preventDefault();
+      playFile(file);
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [analyser]);
+
+  const togglePlayback = async () => {
+    if (playing) {
+      analyser.pause();
+      setPlaying(false);
+    } else {
+      try {
+        await analyser.resume();
+        setError(null);
+      } catch (err) {
+        // e.g. the browser's autoplay policy refusing to start
+        setError(t('couldNotResume', { name: trackName ?? '', error: (err as Error).message }));
+      }
+      setPlaying(analyser.isPlaying());
+    }
+  };
+
+  return (
+    <>
+      {dragging && (
+        <div className="absolute inset-4 z-30 rounded-3xl border-2 border-dashed border-amber-400/70 bg-black/40 flex items-center justify-center pointer-events-none">
+          <p className="text-amber-100 font-serif text-2xl tracking-widest uppercase">{t('dropMusic')}</p>
+        </div>
+      )}
+
+      <div className="absolute bottom-8 right-8 z-20 w-64 p-4 rounded-2xl border border-amber-500/30 bg-black/50 backdrop-blur-md text-amber-100 pointer-events-auto">
+        <p className="text-xs tracking-widest uppercase text-amber-100/60">{t('music')}</p>
+        <p className="mt-1 text-sm font-serif truncate">{trackName ?? t('dropAudioFile')}</p>
+
+        <div className="mt-3 flex flex-wrap gap-2 text-xs tracking-widest uppercase">
+          {trackName && (
+            <button onClick={togglePlayback} className="px-3 py-1 rounded-full border border-amber-500/50 hover:border-amber-400">
+              {playing ? t('pause') : t('play')}
+            </button>
+          )}
+          <button onClick={() => fileRef.current?.click()} className="px-3 py-1 rounded-full border border-amber-500/30 hover:border-amber-400">
+            {t('chooseFile')}
+          </button>
+          {audio.track && (
+            <button
+              onClick={() => start(audio.trackLabel, () => analyser.playUrl(audio.track!))}
+              className="px-3 py-1 rounded-full border border-amber-500/30 hover:border-amber-400"
+            >
+              {audio.trackLabel}
+            </button>
+          )}
+          <input
+            ref={fileRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) playFile(file);
+            }}
+          />
+        </div>
+
+        <label className="mt-3 flex items-center gap-2 text-xs tracking-widest uppercase text-amber-100/70 cursor-pointer">
+          <input type="checkbox" checked={beatPulses} onChange={(e) => setBeatPulses(e.target.checked)} className="accent-amber-400" />
+          {t('scatterOnBeats')}
+        </label>
+
+        {error && <p className="mt-2 text-red-400/80 text-xs font-mono">{error}</p>}
+      </div>
+    </>
+  );
+};
+
+export default AudioPanel;
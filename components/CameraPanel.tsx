@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { CameraMode, LocaleId } from '../types';
+import { listShots } from '../utils/cameraShots';
+import { MessageKey, shotLabel, translate } from '../utils/i18n';
+
+interface CameraPanelProps {
+  mode: CameraMode;
+  setMode: (mode: CameraMode) => void;
+  shot: string;
+  setShot: (shot: string) => void;
+  locale: LocaleId;
+}
+
+const CameraPanel: React.FC<CameraPanelProps> = ({ mode, setMode, shot, setShot, locale }) => {
+  const t = (key: MessageKey) => translate(locale, key);
+  const [open, setOpen] = useState(false);
+
+  const pill = (active: boolean) => `
+    px-3 py-1 rounded-full border text-xs font-serif tracking-widest uppercase transition-all duration-300
+    ${active
+      ? 'border-amber-400 text-amber-100 bg-emerald-900/60 shadow-[0_0_12px_rgb(var(--ui-glow)/0.3)]'
+      : 'border-amber-500/30 text-amber-100/60 hover:border-amber-400/70 hover:text-amber-100'}
+  `;
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        {t('camera')}
+      </button>
+
+      {open && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 flex flex-col gap-3">
+          <div className="flex gap-2">
+            <button onClick={() => setMode('orbit')} className={pill(mode === 'orbit')}>{t('freeOrbit')}</button>
+            <button onClick={() => setMode('director')} className={pill(mode === 'director')}>{t('director')}</button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {listShots().map((s) => (
+              <button key={s.id} onClick={() => setShot(s.id)} className={pill(s.id === shot)}>
+                {shotLabel(locale, s.id, s.label)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-amber-100/40">
+            {mode === 'director' ? t('directorHint') : t('orbitHint')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraPanel;
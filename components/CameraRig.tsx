@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
+import * as THREE from 'three';
+import { CameraMode, CameraView, Vec3 } from '../types';
+import { createShotSampler, getShot } from '../utils/cameraShots';
+import { easeInOutCubic } from '../utils/morph';
+import { TimelineOutput } from '../utils/timeline';
+
+interface CameraRigProps {
+  // Restored orbit placement (e.g. from a shared link); null keeps the shot's framing
+  camera?: CameraView | null;
+  // Fired when the user finishes orbiting/zooming
+  onCameraChange?: (view: CameraView) => void;
+  mode: CameraMode;
+  // Named shot (utils/cameraShots.ts). The director flies it; free orbit starts from it and uses its limits.
+  shot: string;
+  autoRotate: boolean;
+  timeline: React.MutableRefObject<TimelineOutput>;
+  // Set while something else owns the pointer drag (e.g. moving a decoration)
+  orbitLock?: React.MutableRefObject<boolean>;
+}
+
+type OrbitControlsImpl = React.ComponentRef<typeof OrbitControls>;
+
+const HERO_FRAMING: Vec3 = [0, 2, 25];
+
+const tempPosition = new THREE.Vector3();
+const tempTarget = new THREE.Vector3();
+
+// Camera + orbit controls + shot director. Lives inside the Canvas so the refs exist when a view is restored.
+const CameraRig: React.FC<CameraRigProps> = ({ camera, onCameraChange, mode, shot, autoRotate, timeline, orbitLock }) => {
+  const cameraRef = useRef<THREE.PerspectiveCamera>(null);
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const sampler = useMemo(() => createShotSampler(getShot(shot)), [shot]);
+  const { controls: limits } = sampler.shot;
+
+  // Shot playback; every shot or mode change blends in from wherever the camera is
+  const director = useRef({
+    time: 0,
+    blend: 1, // 0..1 progress of the blend-in
+    fromPosition: new THREE.Vector3(),
+    fromTarget: new THREE.Vector3(),
+    fromFov: 45
+  });
+
+  const mounted = useRef(false);
+
+  useEffect(() => {
+    if (!cameraRef.current || !controlsRef.current) return;
+    const state = director.current;
+    state.time = 0;
+    // The page opens on the hero framing already; only the director has somewhere to go
+    state.blend = mounted.current || mode === 'director' ? 0 : 1;
+    mounted.current = true;
+    state.fromPosition.copy(cameraRef.current.position);
+    state.fromTarget.copy(controlsRef.current.target);
+    state.fromFov = cameraRef.current.fov;
+  }, [sampler, mode]);
+
+  // Restore a requested view (e.g. from a shared link)
+  useEffect(() => {
+    if (!camera || !cameraRef.current || !controlsRef.current) return;
+    director.current.blend = 1; // Don't blend away from it
+    cameraRef.current.position.set(...camera.position);
+    controlsRef.current.target.set(...camera.target);
+    controlsRef.current.update();
+  }, [camera]);
+
+  useFrame((_, delta) => {
+    const cam = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!cam || !controls) return;
+
+    // A playing show flies the camera; once paused, the user can orbit from wherever it stopped
+    const { frame, moved } = timeline.current;
+    if (moved && frame?.camera) {
+      cam.position.set(...frame.camera.position);
+      controls.target.set(...frame.camera.target);
+      controls.update();
+      return;
+    }
+
+    const state = director.current;
+    const blending = state.blend < 1;
+    // Free orbit only hands control to the user once the shot's opening framing is reached
+    controls.enabled = mode === 'orbit' && !blending && !orbitLock?.current;
+    if (mode === 'orbit' && !blending) return;
+
+    // Orbit mode frames the shot's resting pose (end of the first pass); the director flies it
+    if (mode === 'director') state.time += delta;
+    sampler.sample(mode === 'director' ? state.time : sampler.shot.duration, tempPosition, tempTarget);
+    if (blending) {
+      const { blend } = sampler.shot;
+      state.blend = blend > 0 ? Math.min(1, state.blend + delta / blend) : 1;
+      const k = easeInOutCubic(state.blend);
+      tempPosition.lerpVectors(state.fromPosition, tempPosition, k);
+      tempTarget.lerpVectors(state.fromTarget, tempTarget, k);
+      cam.fov = THREE.MathUtils.lerp(state.fromFov, sampler.shot.fov, k);
+      cam.updateProjectionMatrix();
+    }
+
+    // Bypass the controls' limits while directing: the path decides
+    cam.position.copy(tempPosition);
+    controls.target.copy(tempTarget);
+    cam.lookAt(tempTarget);
+  });
+
+  const handleControlsEnd = () => {
+    if (!cameraRef.current || !controlsRef.current || !onCameraChange) return;
+    onCameraChange({
+      position: cameraRef.current.position.toArray() as Vec3,
+      target: controlsRef.current.target.toArray() as Vec3
+    });
+  };
+
+  return (
+    <>
+      {/* Start at the hero framing; shots take over imperatively from there */}
+      <PerspectiveCamera ref={cameraRef} makeDefault position={HERO_FRAMING} fov={45} />
+      <OrbitControls 
+        ref={controlsRef}
+        onEnd={handleControlsEnd}
+        enablePan={limits.enablePan} 
+        minPolarAngle={limits.minPolarAngle} 
+        maxPolarAngle={limits.maxPolarAngle}
+        maxDistance={limits.maxDistance}
+        minDistance={limits.minDistance}
+        autoRotate={autoRotate}
+        autoRotateSpeed={0.5}
+      />
+    </>
+  );
+};
+
+export default CameraRig;
@@ -0,0 +1,140 @@
+import React, { useEffect } from 'react';
+import { RootState, useThree } from '@react-three/fiber';
+import {
+  CaptureController,
+  canvasToPng,
+  clampStillSize,
+  getRecordingMimeType,
+  nextAnimationFrame
+} from '../utils/capture';
+
+interface CaptureBridgeProps {
+  // Receives the controller while the Canvas is mounted (null afterwards)
+  controllerRef: React.MutableRefObject<CaptureController | null>;
+}
+
+// Back to real time. In 'never' mode r3f parks clock.oldTime at the elapsed seconds,
+// so re-seat it or the first real frame would see a huge delta.
+const resumeRealtime = (state: RootState) => {
+  state.clock.oldTime = performance.now();
+  state.setFrameloop('always');
+};
+
+// Renders nothing; implements the capture controller against the Canvas internals
+const CaptureBridge: React.FC<CaptureBridgeProps> = ({ controllerRef }) => {
+  const get = useThree((state) => state.get);
+
+  useEffect(() => {
+    // Fixed timestep: a timer paced at the target fps steps the clock by exactly 1/fps
+    let fixedFps: number | null = null;
+    let fixedTime = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    let recorder: MediaRecorder | null = null;
+    let chunks: Blob[] = [];
+    let stream: MediaStream | null = null;
+    // In fixed mode frames are pushed into the video by hand, one per step
+    let manualTrack: CanvasCaptureMediaStreamTrack | null = null;
+
+    const step = () => {
+      if (fixedFps === null) return;
+      fixedTime += 1 / fixedFps;
+      get().advance(fixedTime);
+      manualTrack?.requestFrame();
+      timer = setTimeout(step, 1000 / fixedFps);
+    };
+
+    const setFixedTimestep = (fps: number | null) => {
+      clearTimeout(timer);
+      const wasFixed = fixedFps !== null;
+      fixedFps = fps;
+      if (fps !== null) {
+        fixedTime = get().clock.elapsedTime;
+        get().setFrameloop('never');
+        timer = setTimeout(step, 1000 / fps);
+      } else if (wasFixed) {
+        resumeRealtime(get());
+      }
+    };
+
+    const controller: CaptureController = {
+      startRecording({ fps, bitrate }) {
+        if (recorder) throw new Error('Already recording');
+        const mimeType = getRecordingMimeType();
+        if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+        const canvas = get().gl.domElement;
+        const fixed = fixedFps !== null;
+        // captureStream(0) only emits frames on requestFrame(), i.e. once per fixed step
+        stream = canvas.captureStream(fixed ? 0 : fps);
+        manualTrack = fixed ? (stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack) : null;
+        if (fixed) setFixedTimestep(fps);
+
+        chunks = [];
+        recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitrate });
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.start(1000);
+      },
+      stopRecording() {
+        const active = recorder;
+        if (!active) return Promise.reject(new Error('Not recording'));
+        return new Promise((resolve) => {
+          active.onstop = () => {
+            stream?.getTracks().forEach((track) => track.stop());
+            stream = null;
+            manualTrack = null;
+            recorder = null;
+            resolve(new Blob(chunks, { type: active.mimeType }));
+          };
+          active.stop();
+        });
+      },
+      isRecording: () => recorder !== null,
+      async captureStill(options) {
+        const state = get();
+        const previous = { size: { ...state.size }, dpr: state.viewport.dpr, frameloop: state.frameloop };
+        const { width, height } = clampStillSize(options, state.gl.capabilities.maxTextureSize);
+
+        // Render offscreen-sized: resize the drawing buffer (and with it the composer and
+        // its bloom targets) to the still's size, render one frame without moving the
+        // clock, read it back, then restore the viewport.
+        clearTimeout(timer);
+        state.setFrameloop('never');
+        state.setDpr(1);
+        state.setSize(width, height, previous.size.top, previous.size.left);
+        try {
+          // Let the resize settle (the EffectComposer re-sizes its targets on the next render)
+          await nextAnimationFrame();
+          get().advance(get().clock.elapsedTime);
+          return await canvasToPng(get().gl.domElement);
+        } finally {
+          const current = get();
+          current.setDpr(previous.dpr);
+          current.setSize(previous.size.width, previous.size.height, previous.size.top, previous.size.left);
+          if (fixedFps !== null) {
+            timer = setTimeout(step, 1000 / fixedFps);
+          } else if (previous.frameloop === 'always') {
+            resumeRealtime(current);
+          } else {
+            current.setFrameloop(previous.frameloop);
+          }
+        }
+      },
+      setFixedTimestep
+    };
+
+    controllerRef.current = controller;
+    return () => {
+      clearTimeout(timer);
+      recorder?.stop();
+      stream?.getTracks().forEach((track) => track.stop());
+      controllerRef.current = null;
+    };
+  }, [get, controllerRef]);
+
+  return null;
+};
+
+export default CaptureBridge;
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { LocaleId } from '../types';
+import { CaptureController, captureFilename, downloadBlob, getRecordingMimeType } from '../utils/capture';
+import { MessageKey, translate } from '../utils/i18n';
+
+interface CapturePanelProps {
+  capture: React.MutableRefObject<CaptureController | null>;
+  locale: LocaleId;
+}
+
+const FPS_OPTIONS = [24, 30, 60];
+const BITRATE_OPTIONS = [4, 8, 16, 32]; // Mbps
+const STILL_SCALES = [2, 3, 4]; // Multiples of the viewport size
+
+const selectClass = 'bg-black/60 border border-amber-500/30 rounded px-1 py-0.5 text-amber-100 focus:outline-none';
+
+const CapturePanel: React.FC<CapturePanelProps> = ({ capture, locale }) => {
+  const t = (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values);
+  const [open, setOpen] = useState(false);
+  const [fps, setFps] = useState(30);
+  const [bitrate, setBitrate] = useState(8);
+  const [fixedStep, setFixedStep] = useState(false);
+  const [stillScale, setStillScale] = useState(2);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canRecord = getRecordingMimeType() !== null;
+
+  // Fixed timestep also applies to the live view, so the clip can be previewed exactly as recorded
+  useEffect(() => {
+    capture.current?.setFixedTimestep(fixedStep ? fps : null);
+  }, [capture, fixedStep, fps]);
+
+  useEffect(() => {
+    if (recordingSince === null) return;
+    const interval = setInterval(() => setElapsed((Date.now() - recordingSince) / 1000), 250);
+    return () => clearInterval(interval);
+  }, [recordingSince]);
+
+  const run = async (action: (controller: CaptureController) => Promise<void> | void) => {
+    const controller = capture.current;
+    if (!controller) return;
+    try {
+      setError(null);
+      await action(controller);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const toggleRecording = () =>
+    run(async (controller) => {
+      if (controller.isRecording()) {
+        setRecordingSince(null);
+        downloadBlob(await controller.stopRecording(), captureFilename('webm'));
+      } else {
+        controller.startRecording({ fps, bitrate: bitrate * 1_000_000 });
+        setElapsed(0);
+        setRecordingSince(Date.now());
+      }
+    });
+
+  const takeStill = () =>
+    run(async (controller) => {
+      setBusy(true);
+      try {
+        const width = Math.round(window.innerWidth * stillScale);
+        const height = Math.round(window.innerHeight * stillScale);
+        downloadBlob(await controller.captureStill({ width, height }), captureFilename('png'));
+      } finally {
+        setBusy(false);
+      }
+    });
+
+  const recording = recordingSince !== null;
+
+  return (
+    <div className="absolute bottom-8 left-8 z-20 flex flex-col items-start pointer-events-auto">
+      {open && (
+        <div className="mb-3 w-72 p-4 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <span className="text-amber-100/60">{t('video')}</span>
+            <span className="flex gap-2">
+              <select value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={recording} className={selectClass}>
+                {FPS_OPTIONS.map((option) => <option key={option} value={option}>{option} fps</option>)}
+              </select>
+              <select value={bitrate} onChange={(e) => setBitrate(Number(e.target.value))} disabled={recording} className={selectClass}>
+                {BITRATE_OPTIONS.map((option) => <option key={option} value={option}>{option} Mbps</option>)}
+              </select>
+            </span>
+          </div>
+          <label className="flex items-center gap-2 text-amber-100/70 cursor-pointer">
+            <input type="checkbox" checked={fixedStep} onChange={(e) => setFixedStep(e.target.checked)} disabled={recording} className="accent-amber-400" />
+            {t('fixedTimestep')}
+          </label>
+          <button
+            onClick={toggleRecording}
+            disabled={!canRecord}
+            className={`py-2 rounded-full border font-serif tracking-widest transition-all duration-300 disabled:opacity-40 ${recording ? 'border-red-400 text-red-200 animate-pulse' : 'border-amber-500/50 hover:border-amber-400'}`}
+          >
+            {recording ? t('stopRecording', { seconds: elapsed.toFixed(0) }) : canRecord ? t('recordWebm') : t('recordingUnsupported')}
+          </button>
+
+          <div className="h-px bg-amber-500/20" />
+
+          <div className="flex items-center justify-between">
+            <span className="text-amber-100/60">{t('still')}</span>
+            <select value={stillScale} onChange={(e) => setStillScale(Number(e.target.value))} className={selectClass}>
+              {STILL_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale}× ({Math.round(window.innerWidth * scale)}×{Math.round(window.innerHeight * scale)})
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={takeStill}
+            disabled={busy || recording}
+            className="py-2 rounded-full border border-amber-500/50 font-serif tracking-widest hover:border-amber-400 transition-all duration-300 disabled:opacity-40"
+          >
+            {busy ? t('rendering') : t('savePng')}
+          </button>
+
+          {error && <p className="normal-case tracking-normal text-red-400/80 font-mono">{error}</p>}
+        </div>
+      )}
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        {recording ? `● ${t('capture')}` : t('capture')}
+      </button>
+    </div>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,127 @@
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import Experience from './Experience';
+import Overlay from './Overlay';
+import { FormationId, TreeConfig, TreeState } from '../types';
+import { DEFAULT_TREE_CONFIG } from '../utils/config';
+import { Formation, listFormations } from '../utils/formations';
+import { registerShapeFormations } from '../utils/shapeSampling';
+import { DEFAULT_THEME } from '../utils/themes';
+import { CaptureController, StillOptions } from '../utils/capture';
+import { applyBrandFonts } from '../utils/brand';
+import { detectLocale } from '../utils/i18n';
+import { DEFAULT_SEED } from '../utils/random';
+
+// Imperative controls handed out through the component's ref
+export interface ChristmasTreeHandle {
+  assemble: () => void;
+  scatter: () => void;
+  // Named theme (utils/themes.ts); crossfades like the prop does
+  setTheme: (theme: string) => void;
+  // PNG of the current frame, bloom included; defaults to the element's size in device pixels
+  capture: (options?: StillOptions) => Promise<Blob>;
+}
+
+export interface ChristmasTreeProps {
+  ref?: React.Ref<ChristmasTreeHandle>;
+  // Scene document (utils/config.ts); the bundled look when omitted
+  config?: TreeConfig;
+  // Formation, theme and seed to show. The ref and the overlay move the first two from
+  // there; changing a prop takes over again.
+  formation?: FormationId;
+  theme?: string;
+  seed?: number;
+  // Title, greeting and formation toggle over the scene (styled with Tailwind)
+  showOverlay?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+  onTransitionStart?: (formation: FormationId) => void;
+  onAssembled?: () => void;
+  onScattered?: () => void;
+}
+
+// The scene as a self-contained component for other React apps. It fills its parent.
+const ChristmasTree: React.FC<ChristmasTreeProps> = ({
+  ref,
+  config = DEFAULT_TREE_CONFIG,
+  formation: formationProp = TreeState.TREE_SHAPE,
+  theme: themeProp = DEFAULT_THEME,
+  seed = DEFAULT_SEED,
+  showOverlay = false,
+  className,
+  style,
+  onTransitionStart,
+  onAssembled,
+  onScattered
+}) => {
+  const [formation, setFormation] = useState<FormationId>(formationProp);
+  const [theme, setTheme] = useState(themeProp);
+  const [formations, setFormations] = useState<Formation[]>(listFormations);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const capture = useRef<CaptureController | null>(null);
+
+  useEffect(() => setFormation(formationProp), [formationProp]);
+  useEffect(() => setTheme(themeProp), [themeProp]);
+
+  useEffect(() => {
+    applyBrandFonts(config.brand);
+    // Text/logo formations need their fonts loaded and rasterised before they can be picked
+    let cancelled = false;
+    registerShapeFormations(config.shapes)
+      .then(() => {
+        if (!cancelled) setFormations(listFormations());
+      })
+      .catch((err: Error) => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [config]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      assemble: () => setFormation(TreeState.TREE_SHAPE),
+      scatter: () => setFormation(TreeState.SCATTERED),
+      setTheme,
+      capture: (options) => {
+        const container = containerRef.current;
+        if (!capture.current || !container) return Promise.reject(new Error('The tree is not mounted'));
+        const size = options ?? {
+          width: Math.round(container.clientWidth * window.devicePixelRatio),
+          height: Math.round(container.clientHeight * window.devicePixelRatio)
+        };
+        return capture.current.captureStill(size);
+      }
+    }),
+    []
+  );
+
+  const handleTransitionEnd = (settled: FormationId) => {
+    if (settled === TreeState.TREE_SHAPE) onAssembled?.();
+    else if (settled === TreeState.SCATTERED) onScattered?.();
+  };
+
+  return (
+    <div ref={containerRef} className={className} style={{ position: 'relative', width: '100%', height: '100%', ...style }}>
+      <Experience
+        formation={formation}
+        config={config}
+        seed={seed}
+        theme={theme}
+        capture={capture}
+        onTransitionStart={onTransitionStart}
+        onTransitionEnd={handleTransitionEnd}
+      />
+      {showOverlay && (
+        <Overlay
+          formation={formation}
+          setFormation={setFormation}
+          formations={formations}
+          locale={config.brand.locale ?? detectLocale()}
+          brand={config.brand}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ChristmasTree;
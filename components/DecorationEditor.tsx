@@ -0,0 +1,155 @@
+import React, { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { DecorationLayout, Vec3 } from '../types';
+import { DecorationBrush, createDecoration } from '../utils/decorations';
+import { CLASSIC_PROFILE, TreeProfile, fitToProfile, profileSurfaceHit, profileSurfacePoint } from '../utils/treeProfile';
+
+// What the app hands the scene while edit mode is on
+export interface DecorationEditing {
+  // What a click on bare tree hangs
+  brush: DecorationBrush;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  // `transient` while an ornament is being dragged; the drop ends the undo step
+  onEdit: (layout: DecorationLayout, transient: boolean) => void;
+}
+
+interface DecorationEditorProps extends DecorationEditing {
+  layout: DecorationLayout;
+  profile: TreeProfile;
+  // Holds the orbit controls still while an ornament is dragged
+  orbitLock: React.MutableRefObject<boolean>;
+}
+
+const PICK_RADIUS = 0.6; // How close to a hung ornament a press must land to grab it
+const CLICK_SLOP = 6; // Pixels a press may travel and still count as a click
+
+const raycaster = new THREE.Raycaster();
+const pointer = new THREE.Vector2();
+const toLocal = new THREE.Matrix4();
+
+// Sits in the tree group and turns presses on the canvas into edits: a click on bare
+// tree hangs the brush there, a press on an ornament selects it and drags it across the
+// surface. Everything snaps to the silhouette and is stored against the classic cone.
+const DecorationEditor: React.FC<DecorationEditorProps> = ({ layout, profile, brush, selectedId, onSelect, onEdit, orbitLock }) => {
+  const anchorRef = useRef<THREE.Group>(null);
+  const { camera, gl } = useThree();
+  // The DOM listeners outlive renders; read the latest props through here
+  const latest = useRef({ layout, profile, brush, onSelect, onEdit });
+  latest.current = { layout, profile, brush, onSelect, onEdit };
+
+  useEffect(() => {
+    const element = gl.domElement;
+    let press: { pointerId: number; x: number; y: number } | null = null;
+    let drag: { pointerId: number; id: string; moved: DecorationLayout | null } | null = null;
+
+    // Classic-cone spot under the pointer, and where that shows on the current silhouette
+    const surfaceAt = (e: PointerEvent): { stored: Vec3; shown: Vec3 } | null => {
+      const anchor = anchorRef.current;
+      if (!anchor) return null;
+      const rect = element.getBoundingClientRect();
+      pointer.set(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(pointer, camera);
+      toLocal.copy(anchor.matrixWorld).invert();
+      raycaster.ray.applyMatrix4(toLocal);
+      const hit = profileSurfaceHit(latest.current.profile, raycaster.ray.origin, raycaster.ray.direction.normalize());
+      if (!hit) return null;
+      return {
+        stored: profileSurfacePoint(CLASSIC_PROFILE, hit.heightRatio, hit.angle),
+        shown: profileSurfacePoint(latest.current.profile, hit.heightRatio, hit.angle)
+      };
+    };
+
+    const nearestItem = (point: Vec3): string | null => {
+      let best: string | null = null;
+      let bestDistance = PICK_RADIUS;
+      for (const item of latest.current.layout.items) {
+        const [x, y, z] = fitToProfile(item.position, latest.current.profile);
+        const distance = Math.hypot(x - point[0], y - point[1], z - point[2]);
+        if (distance < bestDistance) {
+          best = item.id;
+          bestDistance = distance;
+        }
+      }
+      return best;
+    };
+
+    const moveItem = (id: string, position: Vec3) => ({
+      ...latest.current.layout,
+      items: latest.current.layout.items.map((item) => (item.id === id ? { ...item, position } : item))
+    });
+
+    const handleDown = (e: PointerEvent) => {
+      if (e.button !== 0 || drag) return;
+      const spot = surfaceAt(e);
+      const grabbed = spot && nearestItem(spot.shown);
+      if (grabbed) {
+        latest.current.onSelect(grabbed);
+        drag = { pointerId: e.pointerId, id: grabbed, moved: null };
+        orbitLock.current = true;
+        return;
+      }
+      press = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      if (!drag || e.pointerId !== drag.pointerId) return;
+      const spot = surfaceAt(e);
+      if (!spot) return;
+      drag.moved = moveItem(drag.id, spot.stored);
+      latest.current.onEdit(drag.moved, true);
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      if (drag && e.pointerId === drag.pointerId) {
+        // Closing edit: the drop is the undo step's final state
+        if (drag.moved) latest.current.onEdit(drag.moved, false);
+        drag = null;
+        orbitLock.current = false;
+        return;
+      }
+      if (!press || e.pointerId !== press.pointerId) return;
+      const clicked = Math.hypot(e.clientX - press.x, e.clientY - press.y) <= CLICK_SLOP;
+      press = null;
+      if (!clicked) return;
+      const spot = surfaceAt(e);
+      if (!spot) {
+        latest.current.onSelect(null);
+        return;
+      }
+      const item = createDecoration(latest.current.brush, spot.stored);
+      latest.current.onEdit({ ...latest.current.layout, items: [...latest.current.layout.items, item] }, false);
+      latest.current.onSelect(item.id);
+    };
+
+    element.addEventListener('pointerdown', handleDown);
+    element.addEventListener('pointermove', handleMove);
+    element.addEventListener('pointerup', handleUp);
+    element.addEventListener('pointercancel', handleUp);
+    return () => {
+      element.removeEventListener('pointerdown', handleDown);
+      element.removeEventListener('pointermove', handleMove);
+      element.removeEventListener('pointerup', handleUp);
+      element.removeEventListener('pointercancel', handleUp);
+      orbitLock.current = false;
+    };
+  }, [gl, camera, orbitLock]);
+
+  const selected = layout.items.find((item) => item.id === selectedId);
+  const marker = selected ? fitToProfile(selected.position, profile) : null;
+
+  return (
+    <group ref={anchorRef}>
+      {/* Wire cage around the selected ornament */}
+      {marker && selected && (
+        <mesh position={marker} scale={selected.scale * 1.8}>
+          <sphereGeometry args={[1, 16, 12]} />
+          <meshBasicMaterial color="#FFFFFF" wireframe transparent opacity={0.5} depthTest={false} toneMapped={false} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+export default DecorationEditor;
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DecorationLayout, LocaleId } from '../types';
+import { DecorationBrush, ORNAMENT_TYPES, parseDecorations, serializeDecorations } from '../utils/decorations';
+import { MessageKey, ornamentTypeLabel, translate } from '../utils/i18n';
+
+interface DecorationPanelProps {
+  editing: boolean;
+  setEditing: (editing: boolean) => void;
+  layout: DecorationLayout;
+  // Preset brushes, one per ornament type (decorationPalette)
+  palette: DecorationBrush[];
+  brush: DecorationBrush;
+  setBrush: (brush: DecorationBrush) => void;
+  selectedId: string | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Replaces the whole layout as one undo step (delete, clear, import)
+  onReplace: (layout: DecorationLayout) => void;
+  locale: LocaleId;
+}
+
+const sameBrush = (a: DecorationBrush, b: DecorationBrush) =>
+  a.type === b.type && a.color.toLowerCase() === b.color.toLowerCase() && a.scale === b.scale;
+
+const DecorationPanel: React.FC<DecorationPanelProps> = ({
+  editing,
+  setEditing,
+  layout,
+  palette,
+  brush,
+  setBrush,
+  selectedId,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onReplace,
+  locale
+}) => {
+  const t = (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values);
+  const [custom, setCustom] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const deleteSelected = () => {
+    if (!selectedId) return;
+    onReplace({ ...layout, items: layout.items.filter((item) => item.id !== selectedId) });
+  };
+
+  // Keyboard: Delete removes the selection, Ctrl/Cmd+Z undoes, with Shift (or Ctrl+Y) redoes
+  const keys = useRef({ deleteSelected, onUndo, onRedo });
+  keys.current = { deleteSelected, onUndo, onRedo };
+  useEffect(() => {
+    if (!editing) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea')) return;
+      const command = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+      if (e.key === 'Delete' || e.key === 'Backspace') keys.current.deleteSelected();
+      else if (command && key === 'z') (e.shiftKey ? keys.current.onRedo : keys.current.onUndo)();
+      else if (command && key === 'y') keys.current.onRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [editing]);
+
+  const handleExport = () => {
+    const blob = new Blob([serializeDecorations(layout)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `decorations-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      onReplace(parseDecorations(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const pill = (selected: boolean) => `
+    px-3 py-1 rounded-full border text-xs font-serif tracking-widest uppercase transition-all duration-300 flex items-center gap-2
+    ${selected
+      ? 'border-amber-400 text-amber-100 bg-emerald-900/60 shadow-[0_0_12px_rgb(var(--ui-glow)/0.3)]'
+      : 'border-amber-500/30 text-amber-100/60 hover:border-amber-400/70 hover:text-amber-100'}
+  `;
+  const swatch = (color: string) => <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />;
+  const action = 'hover:text-amber-100 disabled:opacity-40';
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setEditing(!editing)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        {editing ? t('doneDecorating') : t('decorate', { count: layout.items.length })}
+      </button>
+
+      {editing && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2">
+            {palette.map((preset) => (
+              <button
+                key={preset.type}
+                onClick={() => {
+                  setCustom(false);
+                  setBrush(preset);
+                }}
+                className={pill(!custom && sameBrush(preset, brush))}
+              >
+                {swatch(preset.color)}
+                {ornamentTypeLabel(locale, preset.type)}
+              </button>
+            ))}
+            <button onClick={() => setCustom(true)} className={pill(custom)}>
+              {custom && swatch(brush.color)}
+              {t('custom')}
+            </button>
+          </div>
+
+          {custom && (
+            <div className="flex flex-col gap-3 text-amber-100/70">
+              <div className="flex flex-wrap gap-2">
+                {ORNAMENT_TYPES.map((type) => (
+                  <button key={type} onClick={() => setBrush({ ...brush, type })} className={pill(type === brush.type)}>
+                    {ornamentTypeLabel(locale, type)}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center justify-between gap-3">
+                <span className="w-20">{t('colour')}</span>
+                <input
+                  type="color"
+                  value={brush.color}
+                  onChange={(e) => setBrush({ ...brush, color: e.target.value })}
+                  className="flex-1 h-6 bg-transparent"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-3">
+                <span className="w-20">{t('size')}</span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={brush.scale}
+                  onChange={(e) => setBrush({ ...brush, scale: Number(e.target.value) })}
+                  className="flex-1 accent-amber-400"
+                />
+                <span className="font-mono normal-case tracking-normal w-8 text-right">{brush.scale}</span>
+              </label>
+            </div>
+          )}
+
+          <div className="flex justify-between text-amber-100/70">
+            <button onClick={onUndo} disabled={!canUndo} className={action}>{t('undo')}</button>
+            <button onClick={onRedo} disabled={!canRedo} className={action}>{t('redo')}</button>
+            <button onClick={deleteSelected} disabled={!selectedId} className={action}>{t('delete')}</button>
+            <button onClick={() => onReplace({ ...layout, items: [] })} disabled={!layout.items.length} className={action}>
+              {t('clear')}
+            </button>
+          </div>
+
+          <div className="flex justify-between text-amber-100/70">
+            <button onClick={handleExport} disabled={!layout.items.length} className={action}>{t('export')}</button>
+            <button onClick={() => fileRef.current?.click()} className={action}>{t('import')}</button>
+            <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+
+          <p className="normal-case tracking-normal text-amber-100/40">
+            {t('decorateHint')}
+          </p>
+          {error && <p className="normal-case tracking-normal text-red-400/80 font-mono">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DecorationPanel;
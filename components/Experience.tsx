@@ -1,38 +1,340 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useEffect, useMemo, useRef, useLayoutEffect, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { Environment, OrbitControls, PerspectiveCamera, Stars } from '@react-three/drei';
+import { Environment, Stars } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import * as THREE from 'three';
 import Foliage from './Foliage';
 import Ornaments from './Ornaments';
 import Ribbons from './Ribbons';
+import LightStrings from './LightStrings';
+import Snow from './Snow';
+import Ground from './Ground';
+import GiftPile from './GiftPile';
+import TreeSkirt from './TreeSkirt';
 import StarTopper from './StarTopper';
-import { TreeState } from '../types';
+import CaptureBridge from './CaptureBridge';
+import TimelineDriver from './TimelineDriver';
+import ThemeDriver from './ThemeDriver';
+import ForceFieldDriver from './ForceFieldDriver';
+import DecorationEditor, { DecorationEditing } from './DecorationEditor';
+import CameraRig from './CameraRig';
+import QualityMonitor from './QualityMonitor';
+import {
+  AudioLevels,
+  CameraMode,
+  CameraView,
+  DecorationLayout,
+  ForceFieldConfig,
+  FormationId,
+  GuestbookEntry,
+  LightPatternId,
+  LightsConfig,
+  MorphState,
+  OrnamentGroupConfig,
+  OrnamentInstanceInfo,
+  PostProcessingConfig,
+  QualitySettings,
+  QualityTier,
+  SnowConfig,
+  TransitionSettings,
+  TreeConfig,
+  TreeProfileConfig,
+  TreeState,
+  Vec3
+} from '../types';
+import { getFormation } from '../utils/formations';
+import { GUESTBOOK_GROUP_ID } from '../utils/guestbook';
+import { DEFAULT_SEED } from '../utils/random';
+import { AudioAnalyser, createAudioLevels } from '../utils/audio';
+import { CaptureController } from '../utils/capture';
+import { TimelineOutput, TimelinePlayer } from '../utils/timeline';
+import { DEFAULT_SHOT_ID } from '../utils/cameraShots';
+import { ForceField, createForceField } from '../utils/forceField';
+import { DecorationGroup, decorationGroups } from '../utils/decorations';
+import { QUALITY_SETTINGS } from '../utils/quality';
+import { DEFAULT_THEME, ThemeMixer, createThemeMixer, getTheme, resolveThemeColors, themeSlot } from '../utils/themes';
+import { TreeProfile, createTreeProfile, fitToProfile } from '../utils/treeProfile';
 
 interface ExperienceProps {
-  treeState: TreeState;
+  // Target formation (tree, scatter, sphere, ...); see utils/formations.ts
+  formation: FormationId;
+  config: TreeConfig;
+  // Layout seed: the same seed always produces the same tree
+  seed?: number;
+  // Orbit camera placement; null/undefined keeps the default framing
+  camera?: CameraView | null;
+  // Fired when the user finishes orbiting/zooming
+  onCameraChange?: (view: CameraView) => void;
+  // Free orbit or director mode, and the named shot either one frames (utils/cameraShots.ts)
+  cameraMode?: CameraMode;
+  shot?: string;
+  // Visitor ornaments hung at their own spots on the tree
+  guestbook?: GuestbookEntry[];
+  // Fired when an ornament instance is clicked (it then flies towards the camera)
+  onOrnamentSelect?: (groupId: string, index: number, info: OrnamentInstanceInfo) => void;
+  // Fired when the picked ornament is released (clicked again, or a click on empty space)
+  onOrnamentDeselect?: () => void;
+  // Music source for the audio-reactive mode; the scene reads its levels every frame
+  audio?: AudioAnalyser | null;
+  // Whether detected beats throw the scene outwards in short scatter pulses
+  beatPulses?: boolean;
+  // Filled with the recording / still capture controller while the canvas is mounted
+  capture?: React.MutableRefObject<CaptureController | null>;
+  // Scripted show driving formation, camera, lights, bloom, palette and spin
+  timeline?: TimelinePlayer | null;
+  // Fired when the running timeline switches formation / palette
+  onFormationChange?: (formation: FormationId) => void;
+  onPaletteChange?: (palette: string) => void;
+  onShotChange?: (shot: string) => void;
+  // Fired when a formation change starts morphing, and when the scene has settled into it
+  onTransitionStart?: (formation: FormationId) => void;
+  onTransitionEnd?: (formation: FormationId) => void;
+  // Rendering budget (utils/quality.ts): particle counts, dpr, ribbon detail, post effects
+  qualityTier?: QualityTier;
+  // Let the FPS monitor step the tier (reported through onQualityTierChange)
+  autoQuality?: boolean;
+  onQualityTierChange?: (tier: QualityTier) => void;
+  // Receives the smoothed frame rate
+  fps?: React.MutableRefObject<number>;
+  // Tree silhouette (utils/treeProfile.ts); defaults to the config's
+  profile?: TreeProfileConfig;
+  // Light string animation (utils/lightPatterns.ts); defaults to the config's
+  lightPattern?: LightPatternId;
+  // Snowfall settings; defaults to the config's
+  snow?: SnowConfig;
+  // Named theme (utils/themes.ts); switching crossfades every material, light and UI accent
+  theme?: string;
+  // How the next formation change plays out; defaults to the config's
+  transition?: TransitionSettings;
+  // Pointer / touch force on the foliage and ornaments; defaults to the config's
+  forceField?: ForceFieldConfig;
+  // Hand-hung ornaments; shown instead of the configured groups while they have items
+  decorations?: DecorationLayout;
+  // Edit mode for `decorations`: clicks hang, drag and select ornaments on the tree
+  decorationEditor?: DecorationEditing | null;
 }
 
-const SceneContent: React.FC<ExperienceProps> = ({ treeState }) => {
-  const animationProgress = useRef(0);
-  const targetProgress = treeState === TreeState.TREE_SHAPE ? 1 : 0;
+interface SceneContentProps extends Omit<ExperienceProps, 'seed' | 'guestbook' | 'camera' | 'onCameraChange' | 'onOrnamentDeselect' | 'capture' | 'timeline' | 'cameraMode' | 'shot' | 'onShotChange' | 'qualityTier' | 'autoQuality' | 'onQualityTierChange' | 'fps' | 'profile' | 'snow' | 'theme' | 'transition' | 'forceField'> {
+  orbitLock: React.MutableRefObject<boolean>;
+  seed: number;
+  theme: ThemeMixer;
+  transition: TransitionSettings;
+  force: ForceField;
+  snow: SnowConfig;
+  profile: TreeProfile;
+  quality: QualitySettings;
+  timeline: React.MutableRefObject<TimelineOutput>;
+  guestbook: GuestbookEntry[];
+  selected: OrnamentInstanceInfo | null;
+  setSelected: (info: OrnamentInstanceInfo | null) => void;
+}
+
+const PULSE_DECAY = 5; // Per second
+const DEFAULT_SPIN = 0.1; // Radians per second while the tree holds a shape
+
+// A configured ornament group, or one built from hand-hung decorations (with its spots)
+type OrnamentGroupSpec = OrnamentGroupConfig & Partial<Pick<DecorationGroup, 'placements'>>;
+
+interface SceneLightsProps {
+  lights: LightsConfig;
+  timeline: React.MutableRefObject<TimelineOutput>;
+  // Spotlight shadow resolution from the quality tier; 0 = no shadows
+  shadowMapSize: number;
+  theme: ThemeMixer;
+}
+
+// The shadow camera only needs to span the tree and the floor around it
+const SHADOW_REACH = 20;
+
+// Configured lights; a timeline can fade them (its values multiply the configured intensities)
+const SceneLights: React.FC<SceneLightsProps> = ({ lights, timeline, shadowMapSize, theme }) => {
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const spotRef = useRef<THREE.SpotLight>(null);
+  const pointRefs = useRef<(THREE.PointLight | null)[]>([]);
+
+  useFrame(() => {
+    const frame = timeline.current.frame;
+    if (ambientRef.current) {
+      ambientRef.current.intensity = lights.ambient.intensity * (frame?.ambient ?? 1);
+      theme.copy(themeSlot.ambient, ambientRef.current.color);
+    }
+    if (spotRef.current) {
+      spotRef.current.intensity = lights.spot.intensity * (frame?.spot ?? 1);
+      theme.copy(themeSlot.spot, spotRef.current.color);
+    }
+    lights.points.forEach((light, i) => {
+      const point = pointRefs.current[i];
+      if (!point) return;
+      point.intensity = light.intensity * (frame?.points ?? 1);
+      theme.copy(themeSlot.point(i), point.color);
+    });
+  });
+
+  const spotDistance = Math.hypot(...lights.spot.position);
+
+  return (
+    <>
+      <ambientLight ref={ambientRef} intensity={lights.ambient.intensity} color={lights.ambient.color} />
+      <spotLight 
+        // The shadow map is allocated once; a new size needs a new light
+        key={shadowMapSize}
+        ref={spotRef}
+        position={lights.spot.position} 
+        angle={lights.spot.angle} 
+        penumbra={lights.spot.penumbra} 
+        intensity={lights.spot.intensity} 
+        color={lights.spot.color} 
+        castShadow={shadowMapSize > 0}
+        shadow-mapSize={[shadowMapSize, shadowMapSize]}
+        shadow-radius={lights.spot.shadowRadius}
+        shadow-bias={lights.spot.shadowBias}
+        shadow-normalBias={0.02}
+        shadow-camera-near={Math.max(0.5, spotDistance - SHADOW_REACH)}
+        shadow-camera-far={spotDistance + SHADOW_REACH}
+      />
+      {lights.points.map((light, i) => (
+        <pointLight 
+          key={i} 
+          ref={(el) => { pointRefs.current[i] = el; }} 
+          position={light.position} 
+          intensity={light.intensity} 
+          color={light.color} 
+        />
+      ))}
+    </>
+  );
+};
+
+interface PostEffectsProps {
+  postProcessing: PostProcessingConfig;
+  quality: QualitySettings;
+  timeline: React.MutableRefObject<TimelineOutput>;
+}
+
+type BloomImpl = React.ComponentRef<typeof Bloom>;
+
+const PostEffects: React.FC<PostEffectsProps> = ({ postProcessing, quality, timeline }) => {
+  const bloomRef = useRef<BloomImpl>(null);
+
+  // Bloom strength can be animated by a timeline
+  useFrame(() => {
+    if (bloomRef.current) {
+      bloomRef.current.intensity = timeline.current.frame?.bloom ?? postProcessing.bloom.intensity;
+    }
+  });
+
+  return (
+    <EffectComposer>
+      {postProcessing.bloom.enabled && quality.bloom ? (
+        <Bloom 
+          // mipmapBlur is fixed at construction; a tier change rebuilds the effect
+          key={quality.mipmapBlur ? 'mipmap' : 'plain'}
+          ref={bloomRef}
+          luminanceThreshold={postProcessing.bloom.luminanceThreshold} 
+          mipmapBlur={quality.mipmapBlur}
+          intensity={postProcessing.bloom.intensity} 
+          radius={postProcessing.bloom.radius} 
+        />
+      ) : <></>}
+      {postProcessing.vignette.enabled && quality.vignette ? (
+        <Vignette eskil={false} offset={postProcessing.vignette.offset} darkness={postProcessing.vignette.darkness} />
+      ) : <></>}
+    </EffectComposer>
+  );
+};
+
+const SceneContent: React.FC<SceneContentProps> = ({ 
+  formation, 
+  config, 
+  seed, 
+  guestbook, 
+  selected, 
+  setSelected, 
+  onOrnamentSelect,
+  audio,
+  beatPulses = false,
+  timeline,
+  quality,
+  profile,
+  lightPattern,
+  snow,
+  theme,
+  transition,
+  force,
+  decorations,
+  decorationEditor,
+  orbitLock,
+  onTransitionStart,
+  onTransitionEnd
+}) => {
+  // Start fully settled in the initial formation
+  const morph = useRef<MorphState>({
+    target: formation,
+    progress: 1,
+    order: getFormation(formation).order,
+    pulse: 0,
+    transition
+  });
+  const levels = useRef<AudioLevels>(createAudioLevels());
   const groupRef = useRef<THREE.Group>(null);
+  // Snow dusting on the tree, 0..1; the snowfall grows it, the foliage and ornaments show it
+  const snowCover = useRef(0);
+  const structured = getFormation(formation).order >= 0.5;
+  // Guest spots are stored against the classic cone; hang them on the current silhouette
+  const guestPlacements = useMemo(
+    () => guestbook.map((entry) => fitToProfile(entry.position, profile)),
+    [guestbook, profile]
+  );
+  // A hand-made layout replaces the procedural groups; an empty one only while it is edited
+  const decorationGroupList = useMemo(
+    () => (decorations && (decorations.items.length > 0 || decorationEditor) ? decorationGroups(decorations, config, profile) : null),
+    [decorations, decorationEditor, config, profile]
+  );
+  const ornamentGroups: OrnamentGroupSpec[] = decorationGroupList ?? config.ornaments;
+
+  useLayoutEffect(() => {
+    // Components notice the new target and restart from their current in-between layout,
+    // playing whichever transition is selected at the moment of the toggle
+    if (morph.current.target !== formation) {
+      morph.current.target = formation;
+      morph.current.progress = 0;
+      morph.current.transition = transition;
+      onTransitionStart?.(formation);
+    }
+  }, [formation]);
+
+  const handleSelect = (info: OrnamentInstanceInfo) => {
+    // Clicking the picked ornament again puts it back
+    if (selected && selected.groupId === info.groupId && selected.index === info.index) {
+      setSelected(null);
+      return;
+    }
+    setSelected(info);
+    onOrnamentSelect?.(info.groupId, info.index, info);
+  };
 
   useFrame((state, delta) => {
-    // Smoothly interpolate current progress towards target
-    // Using a simple dampening logic: value += (target - value) * speed
+    // Progress runs linearly over the transition's duration; each element eases, staggers
+    // and flies on its own clock derived from it (utils/transitions.ts)
     const speed = 2.0 * delta; 
-    const diff = targetProgress - animationProgress.current;
-    
-    if (Math.abs(diff) > 0.001) {
-        animationProgress.current += diff * speed;
-    } else {
-        animationProgress.current = targetProgress;
+    const current = morph.current;
+    const settling = current.progress < 1;
+    current.progress = Math.min(1, current.progress + delta / current.transition.duration);
+    if (settling && current.progress === 1) onTransitionEnd?.(current.target);
+    current.order += (getFormation(current.target).order - current.order) * speed;
+
+    // Music analysis; a beat kicks off a scatter pulse that settles back by itself
+    const beat = audio ? audio.sample(levels.current, delta) : false;
+    current.pulse *= Math.exp(-delta * PULSE_DECAY);
+    if (beat && beatPulses) {
+        current.pulse = Math.max(current.pulse, config.audio.pulseStrength);
     }
 
-    // Slowly rotate the entire tree group for presentation
-    if (groupRef.current && treeState === TreeState.TREE_SHAPE) {
-        groupRef.current.rotation.y += delta * 0.1;
+    // Slowly rotate the entire group for presentation once it holds a shape (a show sets its own pace)
+    // Held still while decorating, so the spot under the pointer stays put
+    const spin = decorationEditor ? 0 : timeline.current.frame?.rotationSpeed ?? (structured ? DEFAULT_SPIN : 0);
+    if (groupRef.current) {
+        groupRef.current.rotation.y += delta * spin;
     }
   });
 
@@ -40,98 +342,241 @@ const SceneContent: React.FC<ExperienceProps> = ({ treeState }) => {
     <>
       <group ref={groupRef}>
         {/* The Foliage: Thousands of glowing particles */}
-        <Foliage count={6000} treeState={treeState} animationProgress={animationProgress} />
-        
-        {/* Luxury Ribbons System - Wrapping the tree */}
-        <Ribbons animationProgress={animationProgress} />
-
-        {/* Red Metallic Balls */}
-        <Ornaments 
-          count={150} 
-          type="SPHERE" 
-          color="#C41E3A" 
-          metalness={0.9} 
-          roughness={0.1} 
-          scaleBase={0.35} 
-          animationProgress={animationProgress} 
+        <Foliage 
+          count={Math.round(config.foliage.count * quality.particleScale)} 
+          seed={seed} 
+          morph={morph} 
+          audio={levels} 
+          profile={profile} 
+          snowCover={snowCover} 
+          snowColor={snow.color} 
+          theme={theme} 
+          force={force}
         />
         
-        {/* Gold Balls */}
-        <Ornaments 
-          count={150} 
-          type="SPHERE" 
-          color="#FFD700" 
-          metalness={1.0} 
-          roughness={0.15} 
-          scaleBase={0.25} 
-          animationProgress={animationProgress} 
-        />
+        {/* Luxury Ribbons System - Wrapping the tree */}
+        <Ribbons ribbons={config.ribbons} segmentScale={quality.ribbonSegmentScale} seed={seed} morph={morph} profile={profile} theme={theme} />
 
-        {/* Gift Boxes (Emerald/Gold) */}
-        <Ornaments 
-          count={40} 
-          type="BOX" 
-          color="#046307" 
-          metalness={0.4} 
-          roughness={0.4} 
-          scaleBase={0.45} 
-          animationProgress={animationProgress} 
-        />
+        {/* Light strings draped along the spirals, animated by the active pattern */}
+        <LightStrings lightStrings={config.lightStrings} pattern={lightPattern} seed={seed} morph={morph} profile={profile} audio={levels} theme={theme} />
 
-        {/* Glowing Lights (Diamonds) */}
-        <Ornaments 
-          count={200} 
-          type="DIAMOND" 
-          color="#FFFDD0" 
-          metalness={0.1} 
-          roughness={0.1} 
-          scaleBase={0.15} 
-          animationProgress={animationProgress} 
-          emissive="#FFD700"
-          emissiveIntensity={4}
-        />
+        {/* Ornament groups: balls, gift boxes... as configured */}
+        {ornamentGroups.map((group) => (
+          <Ornaments 
+            key={group.id}
+            count={group.count} 
+            placements={group.placements}
+            type={group.type} 
+            color={group.color} 
+            metalness={group.metalness} 
+            roughness={group.roughness} 
+            scaleBase={group.scaleBase} 
+            groupId={group.id}
+            seed={seed}
+            morph={morph}
+            profile={profile}
+            audio={levels}
+            emissive={group.emissive}
+            emissiveIntensity={group.emissiveIntensity}
+            snowCover={snowCover}
+            snowColor={snow.color}
+            theme={theme}
+            force={force}
+            selectedIndex={!decorationEditor && selected?.groupId === group.id ? selected.index : null}
+            onSelect={decorationEditor ? undefined : handleSelect}
+          />
+        ))}
+
+        {/* Only the assembled tree takes edits */}
+        {decorationEditor && decorations && formation === TreeState.TREE_SHAPE && (
+          <DecorationEditor {...decorationEditor} layout={decorations} profile={profile} orbitLock={orbitLock} />
+        )}
+
+        {/* Guestbook: one ornament per visitor message */}
+        {guestPlacements.length > 0 && (
+          <Ornaments 
+            count={guestPlacements.length} 
+            placements={guestPlacements}
+            type={config.guestbook.type} 
+            color={config.guestbook.color} 
+            metalness={config.guestbook.metalness} 
+            roughness={config.guestbook.roughness} 
+            scaleBase={config.guestbook.scaleBase} 
+            groupId={GUESTBOOK_GROUP_ID}
+            seed={seed}
+            morph={morph}
+            profile={profile}
+            emissive={config.guestbook.emissive}
+            emissiveIntensity={config.guestbook.emissiveIntensity}
+            snowCover={snowCover}
+            snowColor={snow.color}
+            theme={theme}
+            force={force}
+            selectedIndex={selected?.groupId === GUESTBOOK_GROUP_ID ? selected.index : null}
+            onSelect={handleSelect}
+          />
+        )}
         
         {/* Star Topper */}
-        <StarTopper animationProgress={animationProgress} />
+        <StarTopper topper={config.topper} seed={seed} morph={morph} audio={levels} profile={profile} theme={theme} />
+
+        {/* Presents under the tree; they fly off with everything else */}
+        {config.ground.enabled && (
+          <>
+            {config.ground.skirt.enabled && (
+              <TreeSkirt 
+                radius={config.ground.skirt.radius} 
+                color={config.ground.skirt.color} 
+                trimColor={config.ground.skirt.trimColor} 
+                morph={morph} 
+                theme={theme} 
+              />
+            )}
+            <GiftPile 
+              count={config.ground.gifts.count} 
+              colors={config.ground.gifts.colors} 
+              ribbonColors={config.ground.gifts.ribbonColors} 
+              radius={config.ground.skirt.radius + 1} 
+              seed={seed} 
+              morph={morph} 
+              profile={profile} 
+              theme={theme} 
+            />
+          </>
+        )}
       </group>
+
+      {config.ground.enabled && (
+        <Ground ground={config.ground} reflections={quality.reflections} snowColor={snow.color} />
+      )}
+
+      {/* Snowfall, in world space so the wind doesn't turn with the tree */}
+      <Snow snow={snow} scale={quality.snowScale} seed={seed} morph={morph} cover={snowCover} />
     </>
   );
 };
 
-const Experience: React.FC<ExperienceProps> = ({ treeState }) => {
+const Experience: React.FC<ExperienceProps> = ({ 
+  formation, 
+  config, 
+  seed = DEFAULT_SEED, 
+  camera,
+  onCameraChange,
+  guestbook = [], 
+  onOrnamentSelect, 
+  onOrnamentDeselect,
+  audio,
+  beatPulses,
+  capture,
+  timeline = null,
+  onFormationChange,
+  onPaletteChange,
+  cameraMode = 'orbit',
+  shot = DEFAULT_SHOT_ID,
+  onShotChange,
+  onTransitionStart,
+  onTransitionEnd,
+  qualityTier = 'high',
+  autoQuality = false,
+  onQualityTierChange,
+  fps,
+  profile: profileConfig,
+  lightPattern,
+  snow,
+  theme = DEFAULT_THEME,
+  transition,
+  forceField,
+  decorations,
+  decorationEditor
+}) => {
+  const { lights, postProcessing } = config;
+  const activeProfile = profileConfig ?? config.profile;
+  const profile = useMemo(() => createTreeProfile(activeProfile), [activeProfile]);
+  const quality = QUALITY_SETTINGS[qualityTier];
+  const timelineOutput = useRef<TimelineOutput>({ frame: null, moved: false });
+  // Every themed material reads its colour from here each frame
+  const themeMixer = useRef<ThemeMixer>(createThemeMixer());
+  const themeColors = useMemo(() => resolveThemeColors(config, getTheme(theme)), [config, theme]);
+  // Every pointer over the canvas, as forces the foliage and ornaments read each frame
+  const force = useRef<ForceField>(createForceField());
+  const orbitLock = useRef(false);
+  const [selected, setSelectedState] = useState<OrnamentInstanceInfo | null>(null);
+
+  const setSelected = (info: OrnamentInstanceInfo | null) => {
+    if (!info && selected) onOrnamentDeselect?.();
+    setSelectedState(info);
+  };
+  const loose = getFormation(formation).order < 0.5;
+
   return (
     <Canvas 
-      dpr={[1, 2]} 
+      dpr={quality.dpr} 
+      // PCF, so the spotlight's shadow radius softens the edges
+      shadows={quality.shadowMapSize > 0 ? 'percentage' : false}
       gl={{ antialias: false, toneMapping: THREE.ReinhardToneMapping, toneMappingExposure: 1.5 }}
+      onPointerMissed={() => setSelected(null)}
     >
-      <PerspectiveCamera makeDefault position={[0, 2, 25]} fov={45} />
-      <OrbitControls 
-        enablePan={false} 
-        minPolarAngle={Math.PI / 4} 
-        maxPolarAngle={Math.PI / 1.8}
-        maxDistance={40}
-        minDistance={10}
-        autoRotate={treeState === TreeState.SCATTERED}
-        autoRotateSpeed={0.5}
+      {capture && <CaptureBridge controllerRef={capture} />}
+      {onQualityTierChange && fps && (
+        <QualityMonitor tier={qualityTier} auto={autoQuality} onTierChange={onQualityTierChange} fps={fps} />
+      )}
+      <TimelineDriver 
+        timeline={timeline} 
+        output={timelineOutput} 
+        onFormationChange={onFormationChange} 
+        onPaletteChange={onPaletteChange} 
+        onShotChange={onShotChange}
+      />
+      <ThemeDriver mixer={themeMixer.current} colors={themeColors} />
+      {/* Off while decorating: ornaments shouldn't shy away from the pointer hanging them */}
+      <ForceFieldDriver 
+        field={force.current} 
+        settings={decorationEditor ? { ...(forceField ?? config.forceField), mode: 'off' } : forceField ?? config.forceField} 
+      />
+      <CameraRig 
+        camera={camera} 
+        onCameraChange={onCameraChange} 
+        mode={cameraMode} 
+        shot={shot} 
+        autoRotate={loose && cameraMode === 'orbit'} 
+        timeline={timelineOutput} 
+        orbitLock={orbitLock}
       />
       
       {/* Lighting */}
-      <ambientLight intensity={0.2} color="#001100" />
-      <spotLight position={[10, 20, 10]} angle={0.3} penumbra={1} intensity={20} color="#fffaed" castShadow />
-      <pointLight position={[-10, 5, -10]} intensity={10} color="#C41E3A" />
-      <pointLight position={[10, -5, 10]} intensity={10} color="#FFD700" />
+      <SceneLights lights={lights} timeline={timelineOutput} shadowMapSize={quality.shadowMapSize} theme={themeMixer.current} />
       
       {/* Background Ambience */}
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+      <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
       <Environment preset="city" />
 
-      <SceneContent treeState={treeState} />
+      <SceneContent 
+        formation={formation} 
+        config={config} 
+        seed={seed} 
+        guestbook={guestbook} 
+        selected={selected} 
+        setSelected={setSelected} 
+        onOrnamentSelect={onOrnamentSelect} 
+        audio={audio}
+        beatPulses={beatPulses}
+        timeline={timelineOutput}
+        quality={quality}
+        profile={profile}
+        lightPattern={lightPattern}
+        snow={snow ?? config.snow}
+        theme={themeMixer.current}
+        transition={transition ?? config.transition}
+        force={force.current}
+        decorations={decorations}
+        decorationEditor={decorationEditor}
+        orbitLock={orbitLock}
+        onTransitionStart={onTransitionStart}
+        onTransitionEnd={onTransitionEnd}
+      />
 
       {/* Post Processing for Cinematic Bloom */}
-      <EffectComposer disableNormalPass>
-        <Bloom luminanceThreshold={1.2} mipmapBlur intensity={1.5} radius={0.6} />
-        <Vignette eskil={false} offset={0.1} darkness={1.1} />
-      </EffectComposer>
+      <PostEffects postProcessing={postProcessing} quality={quality} timeline={timelineOutput} />
     </Canvas>
   );
 };
@@ -1,29 +1,68 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { getScatterPosition, getTreePosition } from '../utils/math';
+import { AudioLevels, MorphState } from '../types';
+import { FORCE_VERTEX, ForceField, TRAIL_VERTEX, createForceUniforms, createTrailUniforms, writeForceUniforms, writeTrailUniforms } from '../utils/forceField';
+import { sampleFormation } from '../utils/formations';
+import { createLayoutCache, createMorphBuffers, retargetMorph } from '../utils/morph';
+import { createNamedRandom } from '../utils/random';
+import { ThemeMixer, themeSlot } from '../utils/themes';
+import { TRANSITION_VERTEX, createTransitionUniforms, setTransitionUniforms } from '../utils/transitions';
+import { TreeProfile } from '../utils/treeProfile';
 
 interface FoliageProps {
   count: number;
-  treeState: TreeState;
-  animationProgress: React.MutableRefObject<number>;
+  seed: number;
+  morph: React.MutableRefObject<MorphState>;
+  // Music levels (audio-reactive mode); all zero when nothing plays
+  audio: React.MutableRefObject<AudioLevels>;
+  // Tree silhouette the tree formation fills
+  profile: TreeProfile;
+  // 0..1 snow dusting (components/Snow.tsx) and its colour
+  snowCover?: React.MutableRefObject<number>;
+  snowColor?: string;
+  // Active theme's colours; without it the needles keep the classic greens
+  theme?: ThemeMixer;
+  // Pointer forces; particles near a pointer's line of sight give way and shimmer in its wake
+  force?: ForceField;
 }
 
+// One set per instance: the material keeps these objects, so two trees must not share them
+const createUniforms = () => ({
+  uTime: { value: 0 },
+  uProgress: { value: 0 },
+  uOrder: { value: 0 },
+  uPulse: { value: 0 },
+  uSizeBoost: { value: 0 }, // Extra point size, 1 = double
+  uSparkleThreshold: { value: 0.6 }, // Noise level above which a particle turns gold
+  uFloatBoost: { value: 0 }, // Extra float amplitude, 1 = double
+  uColorHigh: { value: new THREE.Color('#2e8b57') }, // Sea Green
+  uColorLow: { value: new THREE.Color('#013220') },  // Dark Green
+  uColorGold: { value: new THREE.Color('#FFD700') }, // Gold
+  uSnowCover: { value: 0 },
+  uSnowColor: { value: new THREE.Color('#EEF4FA') },
+  ...createTransitionUniforms(),
+  ...createForceUniforms(),
+  ...createTrailUniforms()
+});
+
 // Custom Shader for high-performance interpolation on GPU
 const FoliageShaderMaterial = {
-  uniforms: {
-    uTime: { value: 0 },
-    uProgress: { value: 0 },
-    uColorHigh: { value: new THREE.Color('#2e8b57') }, // Sea Green
-    uColorLow: { value: new THREE.Color('#013220') },  // Dark Green
-    uColorGold: { value: new THREE.Color('#FFD700') }, // Gold
-  },
   vertexShader: `
+    ${TRANSITION_VERTEX}
+    ${FORCE_VERTEX}
+    ${TRAIL_VERTEX}
     uniform float uTime;
     uniform float uProgress;
-    attribute vec3 aScatterPos;
-    attribute vec3 aTreePos;
+    uniform float uOrder;
+    uniform float uPulse;
+    uniform float uSizeBoost;
+    uniform float uSparkleThreshold;
+    uniform float uFloatBoost;
+    uniform float uSnowCover;
+    uniform vec3 uSnowColor;
+    attribute vec3 aFromPos;
+    attribute vec3 aTargetPos;
     attribute float aRandom;
     
     varying float vAlpha;
@@ -82,31 +121,43 @@ const FoliageShaderMaterial = {
     }
 
     void main() {
-      // Interpolate position
-      vec3 pos = mix(aScatterPos, aTreePos, uProgress);
+      // Travel along the selected transition, each particle on its own staggered clock
+      vec3 pos = transitionMove(aFromPos, aTargetPos, aRandom, uProgress);
       
-      // Add floating noise when scattered (uProgress is 0)
-      // When uProgress is 1 (Tree), noise is minimized but adds subtle breathing
-      float floatIntensity = mix(2.0, 0.1, uProgress);
+      // Add floating noise when loose (uOrder is 0)
+      // When uOrder is 1 (a crisp shape), noise is minimized but adds subtle breathing
+      float floatIntensity = mix(2.0, 0.1, uOrder) * (1.0 + uFloatBoost);
       float noiseVal = snoise(pos * 0.5 + uTime * 0.5);
       
       pos += vec3(0.0, noiseVal * floatIntensity * 0.5, 0.0);
+
+      // Beat pulse: burst outwards from the centre, further for some particles than others
+      pos += normalize(pos + vec3(0.0, 0.001, 0.0)) * uPulse * (0.5 + aRandom) * 1.5;
+
+      // Pointer forces, and a flickering glow where a pointer just passed
+      pos += forceOffset(pos);
+      float shimmer = trailGlow(pos) * (0.6 + 0.4 * sin(uTime * 25.0 + aRandom * 60.0));
       
       vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
       
-      // Dynamic size: larger when scattered to fill space, smaller and sharper when in tree
-      float size = mix(15.0, 8.0, uProgress);
+      // Dynamic size: larger when scattered to fill space, smaller and sharper in a shape
+      float size = mix(15.0, 8.0, uOrder) * (1.0 + uSizeBoost) * (1.0 + shimmer * 0.8);
       gl_PointSize = size * (10.0 / -mvPosition.z);
       gl_Position = projectionMatrix * mvPosition;
       
       // Color interpolation
       vColor = mix(uColorLow, uColorHigh, aRandom);
       // Add gold sparkle based on noise
-      if (noiseVal > 0.6) {
+      if (noiseVal > uSparkleThreshold) {
           vColor = mix(vColor, uColorGold, 0.8);
       }
+
+      // Snow dusting: a growing share of the needles turns white (dimmed, as the points add up)
+      float dusted = step(1.0 - uSnowCover * 0.7, fract(aRandom * 13.7));
+      vColor = mix(vColor, uSnowColor * 0.55, dusted);
+      vColor = mix(vColor, uColorGold * 1.5, shimmer);
       
-      vAlpha = mix(0.6, 0.9, uProgress); // More solid when tree
+      vAlpha = min(mix(0.6, 0.9, uOrder) + shimmer * 0.3, 1.0); // More solid when in a shape
     }
   `,
   fragmentShader: `
@@ -128,71 +179,81 @@ const FoliageShaderMaterial = {
   `
 };
 
-const Foliage: React.FC<FoliageProps> = ({ count, animationProgress }) => {
+const Foliage: React.FC<FoliageProps> = ({ count, seed, morph, audio, profile, snowCover, snowColor = '#EEF4FA', theme, force }) => {
+  const pointsRef = useRef<THREE.Points>(null);
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
+  const material = useMemo(() => ({ ...FoliageShaderMaterial, uniforms: createUniforms() }), []);
+  const { uniforms } = material;
   
-  const { positionsScatter, positionsTree, randoms } = useMemo(() => {
-    const pScatter = new Float32Array(count * 3);
-    const pTree = new Float32Array(count * 3);
+  const { buffers, geometry, getLayout } = useMemo(() => {
+    const getLayout = createLayoutCache((id) => sampleFormation(id, 'foliage', count, seed, 'foliage', profile));
     const rands = new Float32Array(count);
+    const random = createNamedRandom(seed, 'foliage');
     
     for (let i = 0; i < count; i++) {
-      const scatter = getScatterPosition(15);
-      const tree = getTreePosition(12, 5, 6, i, count);
-      
-      pScatter.set(scatter, i * 3);
-      pTree.set(tree, i * 3);
-      rands[i] = Math.random();
+      rands[i] = random();
     }
     
-    return {
-      positionsScatter: pScatter,
-      positionsTree: pTree,
-      randoms: rands
-    };
-  }, [count]);
+    const { target } = morph.current;
+    const buffers = createMorphBuffers(target, getLayout(target), rands);
+    // A fresh geometry per layout: a resized attribute can't be re-uploaded in place
+    const geo = new THREE.BufferGeometry();
+    // Required for Threejs internals even if we override in shader
+    geo.setAttribute('position', new THREE.BufferAttribute(buffers.to, 3));
+    geo.setAttribute('aFromPos', new THREE.BufferAttribute(buffers.from, 3));
+    geo.setAttribute('aTargetPos', new THREE.BufferAttribute(buffers.to, 3));
+    geo.setAttribute('aRandom', new THREE.BufferAttribute(rands, 1));
+    return { buffers, geometry: geo, getLayout };
+  }, [count, seed, morph, profile]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
 
   useFrame((state) => {
+    const { target, progress, order, pulse, transition } = morph.current;
+
+    // New formation picked: continue from the current in-between layout
+    if (target !== buffers.target) {
+      retargetMorph(buffers, target, getLayout(target), transition);
+      geometry.attributes.aFromPos.needsUpdate = true;
+      geometry.attributes.aTargetPos.needsUpdate = true;
+    }
+    buffers.progress = progress;
+
     if (shaderRef.current) {
       shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
-      shaderRef.current.uniforms.uProgress.value = animationProgress.current;
+      shaderRef.current.uniforms.uProgress.value = progress;
+      setTransitionUniforms(uniforms, buffers.transition);
+      shaderRef.current.uniforms.uOrder.value = order;
+      shaderRef.current.uniforms.uPulse.value = pulse;
+      // Music: bass swells the points, mids stir the float, treble sets off more gold sparkles
+      const { bass, mid, treble } = audio.current;
+      shaderRef.current.uniforms.uSizeBoost.value = bass * 0.8;
+      shaderRef.current.uniforms.uFloatBoost.value = mid * 1.5;
+      shaderRef.current.uniforms.uSparkleThreshold.value = 0.6 - treble * 0.45;
+      shaderRef.current.uniforms.uSnowCover.value = snowCover?.current ?? 0;
+      shaderRef.current.uniforms.uSnowColor.value.set(snowColor);
+      if (theme) {
+        const { uColorLow, uColorHigh, uColorGold } = shaderRef.current.uniforms;
+        theme.copy(themeSlot.foliageLow, uColorLow.value);
+        theme.copy(themeSlot.foliageHigh, uColorHigh.value);
+        theme.copy(themeSlot.foliageSparkle, uColorGold.value);
+      }
+      if (force && pointsRef.current) {
+        writeForceUniforms(force, uniforms, pointsRef.current);
+        writeTrailUniforms(force, uniforms, pointsRef.current);
+      }
       // Add a slight rotation to the whole system for grandeur
       // We can do this via group rotation or in shader. 
     }
   });
 
   return (
-    <points>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position" // Required for Threejs internals even if we override in shader
-          count={count}
-          array={positionsTree} // Just to provide bounding box roughly
-          itemSize={3}
-        />
-        <bufferAttribute
-          attach="attributes-aScatterPos"
-          count={count}
-          array={positionsScatter}
-          itemSize={3}
-        />
-        <bufferAttribute
-          attach="attributes-aTreePos"
-          count={count}
-          array={positionsTree}
-          itemSize={3}
-        />
-        <bufferAttribute
-          attach="attributes-aRandom"
-          count={count}
-          array={randoms}
-          itemSize={1}
-        />
-      </bufferGeometry>
+    // Formations differ wildly in extent, so skip culling against a stale bounding box
+    <points ref={pointsRef} geometry={geometry} frustumCulled={false}>
       <shaderMaterial
         ref={shaderRef}
         attach="material"
-        args={[FoliageShaderMaterial]}
+        args={[material]}
         transparent
         depthWrite={false}
         blending={THREE.AdditiveBlending}
@@ -0,0 +1,49 @@
+import React, { useEffect } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { ForceFieldConfig } from '../types';
+import { ForceField } from '../utils/forceField';
+
+interface ForceFieldDriverProps {
+  field: ForceField;
+  settings: ForceFieldConfig;
+}
+
+// Renders nothing; feeds every pointer over the canvas into the force field and steps it
+// on the render clock. A mouse pushes while it hovers, a finger or pen while it touches.
+const ForceFieldDriver: React.FC<ForceFieldDriverProps> = ({ field, settings }) => {
+  const element = useThree((state) => state.gl.domElement);
+
+  useEffect(() => {
+    const update = (e: PointerEvent) => {
+      const rect = element.getBoundingClientRect();
+      const x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+      const y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
+      field.move(e.pointerId, x, y, e.pointerType === 'mouse' || e.buttons > 0);
+    };
+    const release = (e: PointerEvent) => {
+      // A mouse lifting its button is still hovering
+      if (e.type === 'pointerup' && e.pointerType === 'mouse') return;
+      field.release(e.pointerId);
+    };
+    element.addEventListener('pointerdown', update);
+    element.addEventListener('pointermove', update);
+    element.addEventListener('pointerup', release);
+    element.addEventListener('pointercancel', release);
+    element.addEventListener('pointerleave', release);
+    return () => {
+      element.removeEventListener('pointerdown', update);
+      element.removeEventListener('pointermove', update);
+      element.removeEventListener('pointerup', release);
+      element.removeEventListener('pointercancel', release);
+      element.removeEventListener('pointerleave', release);
+    };
+  }, [element, field]);
+
+  useFrame((state, delta) => {
+    field.step(state.camera, delta, settings);
+  }, -1);
+
+  return null;
+};
+
+export default ForceFieldDriver;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ForceFieldConfig, ForceFieldMode } from '../types';
+import { FORCE_FIELD_MODES } from '../utils/forceField';
+
+interface ForcePanelProps {
+  forceField: ForceFieldConfig;
+  setForceField: (forceField: ForceFieldConfig) => void;
+}
+
+const MODE_LABELS: Record<ForceFieldMode, string> = {
+  off: 'Off',
+  repel: 'Repel',
+  attract: 'Attract'
+};
+
+interface SliderSpec {
+  key: 'radius' | 'strength';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'radius', label: 'Radius', min: 0.5, max: 6, step: 0.1 },
+  { key: 'strength', label: 'Strength', min: 0, max: 2, step: 0.05 }
+];
+
+const ForcePanel: React.FC<ForcePanelProps> = ({ forceField, setForceField }) => {
+  const [open, setOpen] = useState(false);
+
+  const pill = (selected: boolean) => `
+    px-3 py-1 rounded-full border text-xs font-serif tracking-widest uppercase transition-all duration-300
+    ${selected
+      ? 'border-amber-400 text-amber-100 bg-emerald-900/60 shadow-[0_0_12px_rgb(var(--ui-glow)/0.3)]'
+      : 'border-amber-500/30 text-amber-100/60 hover:border-amber-400/70 hover:text-amber-100'}
+  `;
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        Touch
+      </button>
+
+      {open && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2">
+            {FORCE_FIELD_MODES.map((mode) => (
+              <button key={mode} onClick={() => setForceField({ ...forceField, mode })} className={pill(mode === forceField.mode)}>
+                {MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          {SLIDERS.map(({ key, label, min, max, step }) => (
+            <label key={key} className="flex items-center justify-between gap-3 text-amber-100/70">
+              <span className="w-20">{label}</span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={forceField[key]}
+                onChange={(e) => setForceField({ ...forceField, [key]: Number(e.target.value) })}
+                className="flex-1 accent-amber-400"
+              />
+              <span className="font-mono normal-case tracking-normal w-8 text-right">{forceField[key]}</span>
+            </label>
+          ))}
+          <p className="normal-case tracking-normal text-amber-100/40">
+            Move the mouse, or touch with one or more fingers, to push the needles and ornaments around.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForcePanel;
@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MorphState, TreeState } from '../types';
+import { sampleFormation } from '../utils/formations';
+import { arrangeGiftPile } from '../utils/giftPile';
+import { createLayoutCache, createMorphBuffers, retargetMorph, sampleMorph } from '../utils/morph';
+import { createNamedRandom } from '../utils/random';
+import { ThemeMixer, themeSlot } from '../utils/themes';
+import { TreeProfile } from '../utils/treeProfile';
+
+interface GiftPileProps {
+  count: number;
+  colors: string[]; // Wrapping paper
+  ribbonColors: string[]; // Ribbon bands and bows
+  // The pile stays inside this radius around the trunk
+  radius: number;
+  seed: number;
+  morph: React.MutableRefObject<MorphState>;
+  profile: TreeProfile;
+  // Active theme; recolours the paper and ribbon materials
+  theme?: ThemeMixer;
+}
+
+const BAND_WIDTH = 0.14; // Ribbon band width, as a share of the box's smaller side
+const BOW_SIZE = 0.55;
+
+const tempPoint = [0, 0, 0];
+
+// A dozen or so gifts, each a few meshes: cheap enough to move on the CPU like the star.
+// In the tree formation they stand in a pile under the tree; in any other formation they
+// fly off with the ornaments and tumble while the layout is loose.
+const GiftPile: React.FC<GiftPileProps> = ({ count, colors, ribbonColors, radius, seed, morph, profile, theme }) => {
+  const groupRefs = useRef<(THREE.Group | null)[]>([]);
+
+  const { gifts, motion, buffers, getLayout } = useMemo(() => {
+    const random = createNamedRandom(seed, 'gifts');
+    const gifts = arrangeGiftPile(count, radius, colors.length, ribbonColors.length, random);
+    const pile = Float32Array.from(gifts.flatMap((gift) => gift.position));
+    const getLayout = createLayoutCache((id) =>
+      id === TreeState.TREE_SHAPE ? pile : sampleFormation(id, 'ornaments', gifts.length, seed, 'gifts', profile)
+    );
+    const motion = gifts.map(() => ({ speed: 0.2 + random() * 0.5, phase: random() * Math.PI * 2, tilt: random() * Math.PI }));
+    const seeds = Float32Array.from(motion, ({ phase }) => phase / (Math.PI * 2));
+    return { gifts, motion, buffers: createMorphBuffers(morph.current.target, getLayout(morph.current.target), seeds), getLayout };
+  }, [count, radius, colors.length, ribbonColors.length, seed, morph, profile]);
+
+  const shapes = useMemo(
+    () => ({
+      box: new THREE.BoxGeometry(1, 1, 1),
+      loop: new THREE.TorusGeometry(0.5, 0.16, 8, 20),
+      knot: new THREE.SphereGeometry(0.22, 12, 8)
+    }),
+    []
+  );
+  useEffect(() => () => Object.values(shapes).forEach((shape) => shape.dispose()), [shapes]);
+
+  const paper = useMemo(
+    () => colors.map((color) => new THREE.MeshStandardMaterial({ color, roughness: 0.45, metalness: 0.15 })),
+    [colors]
+  );
+  const ribbon = useMemo(
+    () => ribbonColors.map((color) => new THREE.MeshStandardMaterial({ color, roughness: 0.3, metalness: 0.6 })),
+    [ribbonColors]
+  );
+  useEffect(() => () => paper.forEach((material) => material.dispose()), [paper]);
+  useEffect(() => () => ribbon.forEach((material) => material.dispose()), [ribbon]);
+
+  useFrame((state) => {
+    const { target, progress, order, pulse, transition } = morph.current;
+
+    if (target !== buffers.target) {
+      retargetMorph(buffers, target, getLayout(target), transition);
+    }
+    buffers.progress = progress;
+
+    const time = state.clock.elapsedTime;
+    const floatFactor = 1 - order;
+    gifts.forEach((gift, i) => {
+      const group = groupRefs.current[i];
+      if (!group) return;
+      const { speed, phase, tilt } = motion[i];
+      sampleMorph(buffers, i, tempPoint);
+      group.position.fromArray(tempPoint);
+      group.position.y += Math.sin(time * speed + phase) * floatFactor * 0.5;
+      // Beat pulse, as for the ornaments
+      const length = group.position.length() || 1;
+      group.position.multiplyScalar(1 + (pulse * (0.8 + speed)) / length);
+      // Tumble while loose, sit square in the pile
+      const tumble = floatFactor * (tilt + time * speed * 0.4);
+      group.rotation.set(tumble, gift.rotationY + tumble, tumble * 0.5);
+    });
+
+    if (theme) {
+      paper.forEach((material, i) => theme.copy(themeSlot.gift(i), material.color));
+      ribbon.forEach((material, i) => theme.copy(themeSlot.giftRibbon(i), material.color));
+    }
+  });
+
+  return (
+    <group>
+      {gifts.map((gift, i) => {
+        const [w, h, d] = gift.size;
+        const band = Math.min(w, d) * BAND_WIDTH;
+        const bow = Math.min(w, d) * BOW_SIZE;
+        const bandMaterial = ribbon[gift.ribbon];
+        return (
+          <group key={i} ref={(el) => { groupRefs.current[i] = el; }}>
+            <mesh geometry={shapes.box} material={paper[gift.color]} scale={[w, h, d]} castShadow receiveShadow />
+            {/* Ribbon bands cross over the lid and down the sides */}
+            <mesh geometry={shapes.box} material={bandMaterial} scale={[w + 0.02, h + 0.02, band]} castShadow />
+            <mesh geometry={shapes.box} material={bandMaterial} scale={[band, h + 0.02, d + 0.02]} castShadow />
+            {/* Bow: two loops and a knot on the lid */}
+            <group position={[0, h / 2 + bow * 0.2, 0]} scale={bow}>
+              <mesh geometry={shapes.loop} material={bandMaterial} position={[-0.35, 0.25, 0]} rotation={[0, 0.4, Math.PI / 4]} castShadow />
+              <mesh geometry={shapes.loop} material={bandMaterial} position={[0.35, 0.25, 0]} rotation={[0, -0.4, -Math.PI / 4]} castShadow />
+              <mesh geometry={shapes.knot} material={bandMaterial} castShadow />
+            </group>
+          </group>
+        );
+      })}
+    </group>
+  );
+};
+
+export default GiftPile;
@@ -0,0 +1,66 @@
+import React, { useEffect, useMemo } from 'react';
+import { MeshReflectorMaterial } from '@react-three/drei';
+import * as THREE from 'three';
+import { GroundConfig } from '../types';
+import { FLOOR_Y } from '../utils/giftPile';
+
+interface GroundProps {
+  ground: GroundConfig;
+  // Quality tier allows the extra mirror render pass
+  reflections: boolean;
+  // A snowy floor is the colour of the falling snow
+  snowColor: string;
+}
+
+// Fully opaque in the middle, fading out towards the rim so the floor dissolves into the night
+const createFadeTexture = () => {
+  const size = 256;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2);
+  gradient.addColorStop(0, '#ffffff');
+  gradient.addColorStop(0.45, '#ffffff');
+  gradient.addColorStop(1, '#000000');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+  return new THREE.CanvasTexture(canvas);
+};
+
+const Ground: React.FC<GroundProps> = ({ ground, reflections, snowColor }) => {
+  const fade = useMemo(createFadeTexture, []);
+  useEffect(() => () => fade.dispose(), [fade]);
+
+  const mirror = ground.floor === 'reflective' && reflections;
+
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, FLOOR_Y, 0]} receiveShadow>
+      <circleGeometry args={[ground.floorRadius, 96]} />
+      {mirror ? (
+        <MeshReflectorMaterial
+          color={ground.floorColor}
+          alphaMap={fade}
+          transparent
+          resolution={1024}
+          blur={[300, 80]}
+          mixBlur={1}
+          mixStrength={6}
+          mirror={0.6}
+          depthScale={1}
+          minDepthThreshold={0.4}
+          maxDepthThreshold={1.2}
+          roughness={0.6}
+          metalness={0.5}
+        />
+      ) : ground.floor === 'reflective' ? (
+        // Without the mirror pass a glossy floor still picks up the environment map
+        <meshStandardMaterial color={ground.floorColor} alphaMap={fade} transparent roughness={0.25} metalness={0.7} />
+      ) : (
+        <meshStandardMaterial color={snowColor} alphaMap={fade} transparent roughness={1} metalness={0} />
+      )}
+    </mesh>
+  );
+};
+
+export default Ground;
@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import { GuestbookEntry, LocaleId } from '../types';
+import { MAX_MESSAGE_LENGTH, MAX_NAME_LENGTH, parseGuestbook, serializeGuestbook } from '../utils/guestbook';
+import { MessageKey, translate } from '../utils/i18n';
+
+interface GuestbookProps {
+  entries: GuestbookEntry[];
+  onAdd: (name: string, message: string) => void;
+  onImport: (entries: GuestbookEntry[]) => void;
+  // Entry whose ornament is currently picked; shows its message card
+  selectedEntry: GuestbookEntry | null;
+  locale: LocaleId;
+}
+
+const Guestbook: React.FC<GuestbookProps> = ({ entries, onAdd, onImport, selectedEntry, locale }) => {
+  const t = (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const canSubmit = name.trim().length > 0 && message.trim().length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onAdd(name, message);
+    setMessage('');
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeGuestbook(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `guestbook-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      onImport(parseGuestbook(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <>
+      {/* Panel */}
+      <div className="absolute top-8 right-8 z-20 flex flex-col items-end pointer-events-auto">
+        <button
+          onClick={() => setOpen(!open)}
+          className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+        >
+          {t('guestbook', { count: entries.length })}
+        </button>
+
+        {open && (
+          <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100">
+            <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={MAX_NAME_LENGTH}
+                placeholder={t('yourName')}
+                className="bg-transparent border-b border-amber-500/40 py-1 text-sm placeholder-amber-100/40 focus:outline-none focus:border-amber-400"
+              />
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                maxLength={MAX_MESSAGE_LENGTH}
+                rows={3}
+                placeholder={t('yourWish')}
+                className="bg-transparent border border-amber-500/30 rounded-lg p-2 text-sm placeholder-amber-100/40 resize-none focus:outline-none focus:border-amber-400"
+              />
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className="py-2 rounded-full bg-gradient-to-r from-emerald-900/80 to-black/80 border border-amber-500/50 font-serif text-sm tracking-widest uppercase disabled:opacity-40 hover:border-amber-400 transition-all duration-300"
+              >
+                {t('hangOrnament')}
+              </button>
+            </form>
+
+            <div className="mt-4 flex justify-between text-xs tracking-widest uppercase text-amber-100/70">
+              <button onClick={handleExport} disabled={entries.length === 0} className="hover:text-amber-100 disabled:opacity-40">
+                {t('export')}
+              </button>
+              <button onClick={() => fileRef.current?.click()} className="hover:text-amber-100">
+                {t('import')}
+              </button>
+              <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+
+            {error && <p className="mt-3 text-red-400/80 text-xs font-mono">{error}</p>}
+          </div>
+        )}
+      </div>
+
+      {/* Message card for the picked guest ornament. Clicks pass through to the scene,
+          where clicking anywhere puts the ornament back and closes the card. */}
+      {selectedEntry && (
+        <div className="absolute left-1/2 top-2/3 -translate-x-1/2 -translate-y-1/2 z-20 pointer-events-none">
+          <div className="w-80 p-6 rounded-2xl border border-amber-400/60 bg-black/70 backdrop-blur-md text-center shadow-[0_0_40px_rgb(var(--ui-glow)/0.25)]">
+            <p className="text-amber-100 font-serif text-lg leading-relaxed whitespace-pre-wrap break-words">
+              {selectedEntry.message}
+            </p>
+            <div className="h-px w-16 bg-amber-400 mx-auto my-4 shadow-[0_0_8px_rgb(var(--ui-glow))]"></div>
+            <p className="text-amber-200 text-sm tracking-[0.2em] uppercase">{selectedEntry.name}</p>
+            <p className="mt-1 text-amber-100/40 text-xs">{new Date(selectedEntry.createdAt).toLocaleDateString(locale)}</p>
+            <p className="mt-5 text-xs tracking-widest uppercase text-emerald-500/50">{t('clickToClose')}</p>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default Guestbook;
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { LocaleId } from '../types';
+import { LOCALES, translate } from '../utils/i18n';
+
+interface LanguagePanelProps {
+  locale: LocaleId;
+  setLocale: (locale: LocaleId) => void;
+}
+
+const LanguagePanel: React.FC<LanguagePanelProps> = ({ locale, setLocale }) => {
+  const [open, setOpen] = useState(false);
+
+  const pill = (active: boolean) => `
+    px-3 py-1 rounded-full border text-xs font-serif tracking-widest uppercase transition-all duration-300
+    ${active
+      ? 'border-amber-400 text-amber-100 bg-emerald-900/60 shadow-[0_0_12px_rgb(var(--ui-glow)/0.3)]'
+      : 'border-amber-500/30 text-amber-100/60 hover:border-amber-400/70 hover:text-amber-100'}
+  `;
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        {translate(locale, 'language')}
+      </button>
+
+      {open && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2">
+            {LOCALES.map((option) => (
+              <button key={option.id} lang={option.id} onClick={() => setLocale(option.id)} className={pill(option.id === locale)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LanguagePanel;
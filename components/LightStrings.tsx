@@ -0,0 +1,266 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AudioLevels, LightPatternId, LightStringConfig, LightStringsConfig, MorphState, RibbonConfig } from '../types';
+import { sampleRibbonPath } from '../utils/formations';
+import { Bulb, getLightPattern } from '../utils/lightPatterns';
+import { createLayoutCache, createMorphBuffers, retargetMorph } from '../utils/morph';
+import { createNamedRandom } from '../utils/random';
+import { ThemeMixer, themeSlot } from '../utils/themes';
+import { TRANSITION_VERTEX, TransitionUniforms, createTransitionUniforms, setTransitionUniforms } from '../utils/transitions';
+import { TreeProfile, classicHeightRatio } from '../utils/treeProfile';
+
+interface LightStringProps {
+  string: LightStringConfig;
+  pattern: LightPatternId;
+  speed: number;
+  intensity: number;
+  seed: number;
+  morph: React.MutableRefObject<MorphState>;
+  profile: TreeProfile;
+  audio?: React.MutableRefObject<AudioLevels>;
+  theme?: ThemeMixer;
+}
+
+const WIRE_COLOR = '#0b2a12';
+
+// Bulbs (instanced) and the wire between them (a line) share one motion: both blend the
+// same two layouts, with the ribbons' floating noise so a loose string drifts as one piece.
+// Like a ribbon's points, bulbs are seeded by their place along the string so the wire
+// between them stays in one piece during the transition.
+const BULB_VERTEX = /* glsl */ `
+  ${TRANSITION_VERTEX}
+  uniform float uProgress;
+  uniform float uTime;
+  uniform float uFloat;
+  uniform float uPulse;
+  uniform float uPhase;
+  uniform float uLastIndex;
+  attribute vec3 aFromPos;
+  attribute vec3 aToPos;
+
+  vec3 bulbPosition(float i) {
+    vec3 pos = transitionMove(aFromPos, aToPos, i / uLastIndex, uProgress);
+    pos += uFloat * 1.5 * vec3(sin(uTime * 0.5 + i * 0.1 + uPhase), cos(uTime * 0.3 + i * 0.1), sin(uTime * 0.4 + i * 0.05));
+    float len = length(pos);
+    return pos * (1.0 + uPulse * 0.8 / (len > 0.0 ? len : 1.0));
+  }
+`;
+
+interface BulbUniforms extends TransitionUniforms {
+  uProgress: { value: number };
+  uTime: { value: number };
+  uFloat: { value: number };
+  uPulse: { value: number };
+  uPhase: { value: number };
+  uSize: { value: number };
+  uLastIndex: { value: number };
+}
+
+// Created once per string: the bulbs' compiled program keeps the objects it was built with
+const createUniforms = (): BulbUniforms => ({
+  uProgress: { value: 1 },
+  uTime: { value: 0 },
+  uFloat: { value: 0 },
+  uPulse: { value: 0 },
+  uPhase: { value: 0 },
+  uSize: { value: 1 },
+  uLastIndex: { value: 1 },
+  ...createTransitionUniforms()
+});
+
+// A light string walks the same spiral a ribbon with these settings would, one bulb per
+// path point. Its id gets a prefix so it never shares a random stream with a ribbon.
+const asRibbon = (string: LightStringConfig): RibbonConfig => ({
+  id: `lights:${string.id}`,
+  color: string.colors[0],
+  width: 0,
+  segments: string.bulbs - 1,
+  radius: string.radius,
+  turns: string.turns,
+  yStart: string.yStart,
+  yEnd: string.yEnd,
+  phase: string.phase,
+  scatterRadius: string.scatterRadius,
+  tileLength: 1
+});
+
+const LightString: React.FC<LightStringProps> = ({ string, pattern, speed, intensity, seed, morph, profile, audio, theme }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const count = string.bulbs;
+
+  const uniforms = useMemo(createUniforms, []);
+  const { buffers, getLayout, bulbs, lastIndex } = useMemo(() => {
+    const ribbon = asRibbon(string);
+    const getLayout = createLayoutCache((id) => sampleRibbonPath(id, ribbon, seed, profile));
+    const random = createNamedRandom(seed, ribbon.id);
+    const bulbs: Bulb[] = Array.from({ length: count }, (_, index) => {
+      const y = THREE.MathUtils.lerp(string.yStart, string.yEnd, index / (count - 1));
+      return { index, count, height: THREE.MathUtils.clamp(classicHeightRatio(y), 0, 1), random: random() };
+    });
+    const lastIndex = Math.max(1, count - 1);
+    const seeds = Float32Array.from({ length: count }, (_, i) => i / lastIndex);
+    return {
+      buffers: createMorphBuffers(morph.current.target, getLayout(morph.current.target), seeds),
+      getLayout,
+      bulbs,
+      lastIndex
+    };
+  }, [string, count, seed, morph, profile]);
+
+  // Linear colours, multiplied by the pattern's brightness each frame
+  const palette = useMemo(() => string.colors.map((hex) => new THREE.Color(hex)), [string.colors]);
+  const colors = useMemo(() => new Float32Array(count * 3), [count]);
+
+  const bulbGeometry = useMemo(() => {
+    // Slightly taller than wide, like a glass bulb
+    const geo = new THREE.SphereGeometry(1, 10, 8);
+    geo.scale(1, 1.35, 1);
+    return geo;
+  }, []);
+
+  const wireGeometry = useMemo(() => {
+    const geo = new THREE.BufferGeometry();
+    // Positions come from the shader; the attribute only sets the vertex count
+    geo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    geo.setAttribute('aIndex', new THREE.BufferAttribute(Float32Array.from({ length: count }, (_, i) => i), 1));
+    return geo;
+  }, [count]);
+
+  useEffect(() => () => bulbGeometry.dispose(), [bulbGeometry]);
+  useEffect(() => () => wireGeometry.dispose(), [wireGeometry]);
+
+  // Both meshes read the same morph buffers
+  useLayoutEffect(() => {
+    bulbGeometry.setAttribute('aFromPos', new THREE.InstancedBufferAttribute(buffers.from, 3));
+    bulbGeometry.setAttribute('aToPos', new THREE.InstancedBufferAttribute(buffers.to, 3));
+    wireGeometry.setAttribute('aFromPos', new THREE.BufferAttribute(buffers.from, 3));
+    wireGeometry.setAttribute('aToPos', new THREE.BufferAttribute(buffers.to, 3));
+  }, [bulbGeometry, wireGeometry, buffers]);
+
+  // Instance colours must exist before the first compile so the material picks them up
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    mesh.count = count;
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(colors, 3);
+  }, [colors, count]);
+
+  const bulbShader = useMemo(
+    () => (shader: THREE.WebGLProgramParametersWithUniforms) => {
+      Object.assign(shader.uniforms, uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `${BULB_VERTEX}\nuniform float uSize;\n#include <common>`)
+        .replace('#include <begin_vertex>', '#include <begin_vertex>\ntransformed = transformed * uSize + bulbPosition(float(gl_InstanceID));');
+    },
+    [uniforms]
+  );
+
+  // A plain THREE.Line: JSX <line> is taken by SVG
+  const wire = useMemo(() => {
+    const material = new THREE.LineBasicMaterial({ color: WIRE_COLOR });
+    material.onBeforeCompile = (shader) => {
+      Object.assign(shader.uniforms, uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `${BULB_VERTEX}\nattribute float aIndex;\n#include <common>`)
+        .replace('#include <begin_vertex>', 'vec3 transformed = bulbPosition(aIndex);');
+    };
+    const line = new THREE.Line(wireGeometry, material);
+    line.frustumCulled = false;
+    line.raycast = () => {};
+    return line;
+  }, [wireGeometry, uniforms]);
+  useEffect(() => () => (wire.material as THREE.Material).dispose(), [wire]);
+
+  const light = getLightPattern(pattern);
+
+  useFrame((state) => {
+    const mesh = meshRef.current;
+    if (!mesh?.instanceColor) return;
+    const { target, progress, order, pulse, transition } = morph.current;
+
+    if (target !== buffers.target) {
+      retargetMorph(buffers, target, getLayout(target), transition);
+      [bulbGeometry, wireGeometry].forEach((geo) => {
+        geo.attributes.aFromPos.needsUpdate = true;
+        geo.attributes.aToPos.needsUpdate = true;
+      });
+    }
+    buffers.progress = progress;
+
+    const time = state.clock.elapsedTime;
+    uniforms.uProgress.value = progress;
+    setTransitionUniforms(uniforms, buffers.transition);
+    uniforms.uTime.value = time;
+    uniforms.uFloat.value = 1.0 - order;
+    uniforms.uPulse.value = pulse;
+    uniforms.uPhase.value = string.phase * Math.PI * 2;
+    uniforms.uSize.value = string.bulbSize;
+    uniforms.uLastIndex.value = lastIndex;
+
+    // Music: the lights flare with treble and every beat
+    const boost = audio ? 1 + audio.current.treble * 1.5 + audio.current.beat : 1;
+    const patternTime = time * speed;
+    if (theme) palette.forEach((color, j) => theme.copy(themeSlot.bulb(string.id, j), color));
+    const n = palette.length;
+    for (let i = 0; i < count; i++) {
+      const bulb = bulbs[i];
+      const color = palette[((Math.floor(light.color(bulb, patternTime)) % n) + n) % n];
+      const level = light.brightness(bulb, patternTime) * intensity * boost;
+      colors[i * 3] = color.r * level;
+      colors[i * 3 + 1] = color.g * level;
+      colors[i * 3 + 2] = color.b * level;
+    }
+    mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <group>
+      <instancedMesh
+        ref={meshRef}
+        args={[bulbGeometry, undefined, count]}
+        frustumCulled={false}
+        // Instance matrices are identity; bulbs aren't pickable
+        raycast={() => {}}
+      >
+        {/* Unlit and not tone mapped, so a lit bulb goes well past the bloom threshold */}
+        <meshBasicMaterial onBeforeCompile={bulbShader} toneMapped={false} />
+      </instancedMesh>
+      <primitive object={wire} />
+    </group>
+  );
+};
+
+interface LightStringsProps {
+  lightStrings: LightStringsConfig;
+  // Active pattern; defaults to the configured one
+  pattern?: LightPatternId;
+  seed: number;
+  morph: React.MutableRefObject<MorphState>;
+  // Tree silhouette the strings wind around
+  profile: TreeProfile;
+  audio?: React.MutableRefObject<AudioLevels>;
+  // Active theme; recolours every bulb colour of every string
+  theme?: ThemeMixer;
+}
+
+const LightStrings: React.FC<LightStringsProps> = ({ lightStrings, pattern, seed, morph, profile, audio, theme }) => (
+  <group>
+    {lightStrings.strings.map((string) => (
+      <LightString
+        key={string.id}
+        string={string}
+        pattern={pattern ?? lightStrings.pattern}
+        speed={lightStrings.speed}
+        intensity={lightStrings.intensity}
+        seed={seed}
+        morph={morph}
+        profile={profile}
+        audio={audio}
+        theme={theme}
+      />
+    ))}
+  </group>
+);
+
+export default LightStrings;
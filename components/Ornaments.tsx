@@ -1,129 +1,448 @@
-import React, { useRef, useMemo, useLayoutEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useLayoutEffect, useState, useEffect } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { getScatterPosition, getTreePosition } from '../utils/math';
-import { PositionData } from '../types';
+import { FORCE_VERTEX, ForceField, ForceUniforms, applyForceOffset, createForceUniforms, writeForceUniforms } from '../utils/forceField';
+import { sampleFormation } from '../utils/formations';
+import { createLayoutCache, createMorphBuffers, retargetMorph, sampleMorph } from '../utils/morph';
+import { createNamedRandom } from '../utils/random';
+import { ThemeMixer, themeSlot } from '../utils/themes';
+import { TreeProfile } from '../utils/treeProfile';
+import { TRANSITION_VERTEX, TransitionUniforms, createTransitionUniforms, setTransitionUniforms } from '../utils/transitions';
+import { AudioLevels, MorphState, OrnamentInstanceInfo, OrnamentType, PositionData, TreeState, Vec3 } from '../types';
 
 interface OrnamentsProps {
   count: number;
-  type: 'SPHERE' | 'BOX' | 'DIAMOND';
+  type: OrnamentType;
   color: string;
   metalness: number;
   roughness: number;
   scaleBase: number;
-  animationProgress: React.MutableRefObject<number>;
+  // Stable group name; also keys the group's random stream so groups stay independent
+  groupId: string;
+  seed: number;
+  morph: React.MutableRefObject<MorphState>;
+  // Tree silhouette the tree formation fills
+  profile: TreeProfile;
+  // Music levels; DIAMOND groups (the glowing lights) flicker with them
+  audio?: React.MutableRefObject<AudioLevels>;
   emissive?: string;
   emissiveIntensity?: number;
+  // Explicit tree-formation positions (e.g. guestbook entries). When given, they set the
+  // instance count and replace the procedural tree layout; other formations still sample.
+  placements?: Vec3[];
+  // 0..1 snow dusting (components/Snow.tsx) settling on upward-facing surfaces, and its colour
+  snowCover?: React.MutableRefObject<number>;
+  snowColor?: string;
+  // Active theme; recolours the group through its ornament slot
+  theme?: ThemeMixer;
+  // Pointer forces; ornaments near a pointer's line of sight give way, then glide back
+  force?: ForceField;
+  // Index of the instance currently picked (it flies towards the camera), if any
+  selectedIndex?: number | null;
+  onSelect?: (info: OrnamentInstanceInfo) => void;
 }
 
 const tempObject = new THREE.Object3D();
-const tempVec3 = new THREE.Vector3();
+const tempCamera = new THREE.Vector3();
+const tempDirection = new THREE.Vector3();
+const tempMatrix = new THREE.Matrix4();
+const tempPoint = [0, 0, 0];
+
+const HOVER_SCALE = 1.4;
+const HOVER_EMISSIVE = 1.5; // Extra self-illumination (x base color) on hover
+const SELECT_DISTANCE = 6; // How far in front of the camera a picked ornament stops
+const SELECT_SCALE = 2.5;
+
+// Shared by the GPU motion and its CPU mirror (picking)
+interface OrnamentUniforms extends TransitionUniforms, ForceUniforms {
+  uTime: { value: number };
+  uProgress: { value: number }; // Linear morph progress; the transition eases it per instance
+  uFloat: { value: number }; // 1 when scattered, 0 in a crisp shape
+  uPulse: { value: number };
+  uSelectTarget: { value: THREE.Vector3 }; // Where picked ornaments fly, in mesh space
+  uSnowCover: { value: number };
+  uSnowColor: { value: THREE.Color };
+}
+
+const createUniforms = (): OrnamentUniforms => ({
+  uTime: { value: 0 },
+  uProgress: { value: 1 },
+  uFloat: { value: 0 },
+  uPulse: { value: 0 },
+  uSelectTarget: { value: new THREE.Vector3() },
+  uSnowCover: { value: 0 },
+  uSnowColor: { value: new THREE.Color() },
+  ...createTransitionUniforms(),
+  ...createForceUniforms()
+});
+
+// Ornament motion on the GPU, like the foliage: each instance carries both layouts, its
+// rest rotation, scale, float speed and phase, and the vertex shader blends between them.
+// The instance matrices stay identity, so nothing is re-uploaded per frame.
+const MOTION_VERTEX = /* glsl */ `
+  ${TRANSITION_VERTEX}
+  ${FORCE_VERTEX}
+  uniform float uTime;
+  uniform float uProgress;
+  uniform float uFloat;
+  uniform float uPulse;
+  uniform vec3 uSelectTarget;
+  attribute vec3 aFromPos;
+  attribute vec3 aToPos;
+  attribute vec3 aRotation;
+  attribute float aScale;
+  attribute float aSpeed;
+  attribute float aPhase;
+  attribute float aHighlight;
+  attribute float aSelect;
+  varying float vHighlight;
+
+  // Same convention as THREE.Euler's default 'XYZ' order
+  mat3 ornamentSpin() {
+    vec3 r = aRotation + vec3(1.0, 1.0, 0.0) * uTime * aSpeed * 0.2 * uFloat;
+    vec3 c = cos(r);
+    vec3 s = sin(r);
+    mat3 rx = mat3(1.0, 0.0, 0.0, 0.0, c.x, s.x, 0.0, -s.x, c.x);
+    mat3 ry = mat3(c.y, 0.0, -s.y, 0.0, 1.0, 0.0, s.y, 0.0, c.y);
+    mat3 rz = mat3(c.z, s.z, 0.0, -s.z, c.z, 0.0, 0.0, 0.0, 1.0);
+    return rx * ry * rz;
+  }
+
+  vec3 ornamentOffset() {
+    // aPhase doubles as the instance's transition seed
+    vec3 pos = transitionMove(aFromPos, aToPos, aPhase / 6.28318530718, uProgress);
+    pos.y += sin(uTime * aSpeed + aPhase) * uFloat * 0.5;
+    pos += forceOffset(pos);
+    // Beat pulse: thrown outwards from the centre, lighter ornaments further
+    float len = length(pos);
+    pos *= 1.0 + uPulse * (0.8 + aSpeed) / (len > 0.0 ? len : 1.0);
+    return mix(pos, uSelectTarget, aSelect);
+  }
+`;
+
+const patchMotion = (shader: THREE.WebGLProgramParametersWithUniforms, uniforms: OrnamentUniforms) => {
+  Object.assign(shader.uniforms, uniforms);
+  const pop = `(1.0 + ${(HOVER_SCALE - 1).toFixed(2)} * aHighlight + ${(SELECT_SCALE - 1).toFixed(2)} * aSelect)`;
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', `${MOTION_VERTEX}\n#include <common>`)
+    .replace('#include <beginnormal_vertex>', '#include <beginnormal_vertex>\nobjectNormal = ornamentSpin() * objectNormal;')
+    .replace(
+      '#include <begin_vertex>',
+      `#include <begin_vertex>\ntransformed = ornamentSpin() * (transformed * aScale * ${pop}) + ornamentOffset();\nvHighlight = aHighlight;`
+    );
+};
+
+// Per-instance hover glow: the eased `aHighlight` (0..1) adds to the emissive term,
+// so one instance can light up without its siblings.
+const patchHighlight = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', 'varying float vHighlight;\n#include <common>')
+    .replace(
+      '#include <emissivemap_fragment>',
+      `#include <emissivemap_fragment>\ntotalEmissiveRadiance += diffuseColor.rgb * vHighlight * ${HOVER_EMISSIVE.toFixed(1)};`
+    );
+};
+
+// Snow settles on whatever faces up. The tree only spins about y, so the instance's
+// spun normal already has its world-space up component.
+const patchSnow = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', 'varying float vSnowUp;\n#include <common>')
+    .replace('#include <begin_vertex>', 'vSnowUp = objectNormal.y;\n#include <begin_vertex>');
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', 'uniform float uSnowCover;\nuniform vec3 uSnowColor;\nvarying float vSnowUp;\n#include <common>')
+    .replace(
+      '#include <color_fragment>',
+      '#include <color_fragment>\nfloat snowCap = smoothstep(0.75 - uSnowCover * 0.6, 1.0 - uSnowCover * 0.4, vSnowUp) * min(uSnowCover * 2.0, 1.0);\ndiffuseColor.rgb = mix(diffuseColor.rgb, uSnowColor, snowCap);'
+    )
+    .replace('#include <roughnessmap_fragment>', '#include <roughnessmap_fragment>\nroughnessFactor = mix(roughnessFactor, 0.9, snowCap);')
+    .replace('#include <metalnessmap_fragment>', '#include <metalnessmap_fragment>\nmetalnessFactor = mix(metalnessFactor, 0.0, snowCap);');
+};
+
+// Per-instance data the shader reads, flattened from the item list
+const packInstances = (items: PositionData[]) => ({
+  rotations: Float32Array.from(items.flatMap((item) => item.rotation)),
+  scales: Float32Array.from(items, (item) => item.scale),
+  speeds: Float32Array.from(items, (item) => item.speed),
+  phases: Float32Array.from(items, (item) => item.phase)
+});
+
+// Instanced attributes filled from packInstances and the morph buffers, with their item sizes
+const INSTANCE_ATTRIBUTES: [string, number][] = [
+  ['aFromPos', 3], ['aToPos', 3], ['aRotation', 3], ['aScale', 1], ['aSpeed', 1], ['aPhase', 1]
+];
+
+// Copy into the front of a capacity-sized attribute and flag it for upload
+const writeAttribute = (geometry: THREE.BufferGeometry, name: string, values: Float32Array) => {
+  const attribute = geometry.getAttribute(name) as THREE.InstancedBufferAttribute;
+  (attribute.array as Float32Array).set(values);
+  attribute.needsUpdate = true;
+};
 
 const Ornaments: React.FC<OrnamentsProps> = ({ 
-  count, 
+  count: countProp, 
   type, 
   color, 
   metalness, 
   roughness, 
   scaleBase,
-  animationProgress,
+  groupId,
+  seed,
+  morph,
+  profile,
+  audio,
   emissive = "#000000",
-  emissiveIntensity = 0
+  emissiveIntensity = 0,
+  placements,
+  snowCover,
+  snowColor = '#EEF4FA',
+  theme,
+  force,
+  selectedIndex = null,
+  onSelect
 }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const count = placements ? placements.length : countProp;
+  // Dynamic groups grow in powers of two so adding one ornament doesn't rebuild the mesh
+  const capacity = placements ? Math.max(16, THREE.MathUtils.ceilPowerOfTwo(Math.max(count, 1))) : count;
 
-  // Pre-calculate dual positions
-  const data = useMemo(() => {
+  const uniforms = useMemo(createUniforms, []);
+  const onBeforeCompile = useMemo(
+    () => (shader: THREE.WebGLProgramParametersWithUniforms) => {
+      patchMotion(shader, uniforms);
+      patchHighlight(shader);
+      patchSnow(shader);
+    },
+    [uniforms]
+  );
+  // Shadows are drawn with the depth material, which must move the instances the same way
+  const depthMaterial = useMemo(() => {
+    const material = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking });
+    material.onBeforeCompile = (shader) => patchMotion(shader, uniforms);
+    return material;
+  }, [uniforms]);
+  useEffect(() => () => depthMaterial.dispose(), [depthMaterial]);
+
+  // Eased 0..1 hover and pick amounts per instance, sized to the mesh so they survive count changes
+  const { highlights, selections } = useMemo(
+    () => ({ highlights: new Float32Array(capacity), selections: new Float32Array(capacity) }),
+    [capacity]
+  );
+  // Instances whose hover / pick amounts are still easing; the rest cost nothing per frame.
+  // Starts over whenever the arrays are reallocated.
+  const easing = useMemo(() => new Set<number>(), [highlights]);
+
+  // Per-instance look, plus lazily sampled positions for every formation
+  const { data, instances, buffers, getLayout } = useMemo(() => {
     const items: PositionData[] = [];
+    const random = createNamedRandom(seed, `ornaments:${groupId}`);
     for (let i = 0; i < count; i++) {
-      // Tree position: More randomized within the cone volume than foliage
-      // We use a subset of the tree shape logic but perhaps slightly offset or sparser
-      const treePos = getTreePosition(11, 4.5, 6, i, count);
-      // Add slight noise to tree pos so ornaments aren't perfectly aligned on the spiral
-      treePos[0] += (Math.random() - 0.5) * 0.5;
-      treePos[1] += (Math.random() - 0.5) * 0.5;
-      treePos[2] += (Math.random() - 0.5) * 0.5;
-
-      const scatterPos = getScatterPosition(12);
-      
       items.push({
-        treePosition: treePos,
-        scatterPosition: scatterPos,
-        rotation: [Math.random() * Math.PI, Math.random() * Math.PI, 0],
-        scale: scaleBase * (0.8 + Math.random() * 0.4),
-        speed: 0.2 + Math.random() * 0.5,
-        phase: Math.random() * Math.PI * 2
+        rotation: [random() * Math.PI, random() * Math.PI, 0],
+        scale: scaleBase * (0.8 + random() * 0.4),
+        speed: 0.2 + random() * 0.5,
+        phase: random() * Math.PI * 2
       });
     }
-    return items;
-  }, [count, scaleBase]);
+
+    const getLayout = createLayoutCache((id) =>
+      placements && id === TreeState.TREE_SHAPE
+        ? Float32Array.from(placements.flat())
+        : sampleFormation(id, 'ornaments', count, seed, `ornaments:${groupId}`, profile)
+    );
+    const { target } = morph.current;
+    return {
+      data: items,
+      instances: packInstances(items),
+      buffers: createMorphBuffers(target, getLayout(target), Float32Array.from(items, (item) => item.phase / (Math.PI * 2))),
+      getLayout
+    };
+  }, [count, placements, scaleBase, groupId, seed, morph, profile]);
+
+  // Select geometry based on type
+  const geometry = useMemo(() => {
+      let geo: THREE.BufferGeometry;
+      switch(type) {
+          case 'BOX': geo = new THREE.BoxGeometry(1, 1, 1); break;
+          case 'DIAMOND': geo = new THREE.OctahedronGeometry(1); break;
+          case 'SPHERE': 
+          default: geo = new THREE.SphereGeometry(1, 16, 16);
+      }
+      geo.setAttribute('aHighlight', new THREE.InstancedBufferAttribute(highlights, 1));
+      geo.setAttribute('aSelect', new THREE.InstancedBufferAttribute(selections, 1));
+      // Per-instance data is copied in below, so a new layout reuses these as long as the capacity holds
+      INSTANCE_ATTRIBUTES.forEach(([name, itemSize]) =>
+          geo.setAttribute(name, new THREE.InstancedBufferAttribute(new Float32Array(capacity * itemSize), itemSize))
+      );
+      return geo;
+  }, [type, capacity, highlights, selections]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // CPU mirror of the vertex shader for one instance, used only when picking
+  const getInstanceMatrix = (i: number, target: THREE.Matrix4) => {
+    const item = data[i];
+    const time = uniforms.uTime.value;
+    const floatFactor = uniforms.uFloat.value;
+    sampleMorph(buffers, i, tempPoint);
+    tempObject.position.fromArray(tempPoint);
+    tempObject.position.y += Math.sin(time * item.speed + item.phase) * floatFactor * 0.5;
+    applyForceOffset(uniforms, tempObject.position);
+    const length = tempObject.position.length() || 1;
+    tempObject.position.multiplyScalar(1 + (uniforms.uPulse.value * (0.8 + item.speed)) / length);
+    tempObject.position.lerp(uniforms.uSelectTarget.value, selections[i]);
+    const floatRot = time * item.speed * 0.2 * floatFactor;
+    tempObject.rotation.set(item.rotation[0] + floatRot, item.rotation[1] + floatRot, item.rotation[2]);
+    tempObject.scale.setScalar(item.scale * (1 + (HOVER_SCALE - 1) * highlights[i] + (SELECT_SCALE - 1) * selections[i]));
+    tempObject.updateMatrix();
+    return target.copy(tempObject.matrix);
+  };
 
   useLayoutEffect(() => {
-    // Initial paint to avoid flicker
-    if(meshRef.current) {
-        data.forEach((item, i) => {
-            tempObject.position.set(...item.scatterPosition);
-            tempObject.rotation.set(...item.rotation);
-            tempObject.scale.setScalar(item.scale);
-            tempObject.updateMatrix();
-            meshRef.current!.setMatrixAt(i, tempObject.matrix);
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    mesh.count = count;
+    writeAttribute(geometry, 'aFromPos', buffers.from);
+    writeAttribute(geometry, 'aToPos', buffers.to);
+    writeAttribute(geometry, 'aRotation', instances.rotations);
+    writeAttribute(geometry, 'aScale', instances.scales);
+    writeAttribute(geometry, 'aSpeed', instances.speeds);
+    writeAttribute(geometry, 'aPhase', instances.phases);
+  }, [geometry, count, buffers, instances]);
+
+  // The instance matrices are identity, so the stock instanced raycast would test every
+  // ornament at the origin. Rebuild each instance's transform on demand instead.
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const probe = new THREE.Mesh(geometry, mesh.material);
+    const hits: THREE.Intersection[] = [];
+    mesh.raycast = (raycaster, intersects) => {
+      for (let i = 0; i < mesh.count; i++) {
+        probe.matrixWorld.multiplyMatrices(mesh.matrixWorld, getInstanceMatrix(i, tempMatrix));
+        hits.length = 0;
+        probe.raycast(raycaster, hits);
+        hits.forEach((hit) => {
+          hit.instanceId = i;
+          hit.object = mesh;
+          intersects.push(hit);
         });
-        meshRef.current.instanceMatrix.needsUpdate = true;
-    }
-  }, [data]);
+      }
+    };
+  });
 
-  useFrame((state) => {
+  useFrame((state, delta) => {
     if (!meshRef.current) return;
 
-    const progress = animationProgress.current;
-    const time = state.clock.elapsedTime;
-    
-    // Smoothstep interpolation for nicer ease
-    const t = progress * progress * (3 - 2 * progress); 
-
-    data.forEach((item, i) => {
-        // Interpolate Position
-        const x = THREE.MathUtils.lerp(item.scatterPosition[0], item.treePosition[0], t);
-        const y = THREE.MathUtils.lerp(item.scatterPosition[1], item.treePosition[1], t);
-        const z = THREE.MathUtils.lerp(item.scatterPosition[2], item.treePosition[2], t);
-
-        // Add floaty motion when scattered
-        const floatFactor = 1.0 - t; // 1 when scattered, 0 when tree
-        const floatY = Math.sin(time * item.speed + item.phase) * floatFactor * 0.5;
-        const floatRot = time * item.speed * 0.2 * floatFactor;
-
-        tempObject.position.set(x, y + floatY, z);
-        
-        // Rotate: Spin freely when scattered, settle when tree
-        tempObject.rotation.set(
-            item.rotation[0] + floatRot, 
-            item.rotation[1] + floatRot, 
-            item.rotation[2]
-        );
-
-        // Scale: pop in effect slightly? No, keep constant for solidity.
-        tempObject.scale.setScalar(item.scale);
-
-        tempObject.updateMatrix();
-        meshRef.current!.setMatrixAt(i, tempObject.matrix);
+    const { target, progress, order, pulse, transition } = morph.current;
+
+    // New formation picked: continue from where the ornaments are right now
+    if (target !== buffers.target) {
+        retargetMorph(buffers, target, getLayout(target), transition);
+        writeAttribute(geometry, 'aFromPos', buffers.from);
+        writeAttribute(geometry, 'aToPos', buffers.to);
+    }
+    buffers.progress = progress;
+
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uProgress.value = progress;
+    setTransitionUniforms(uniforms, buffers.transition);
+    if (force) writeForceUniforms(force, uniforms, meshRef.current);
+    // Add floaty motion when loose
+    uniforms.uFloat.value = 1.0 - order;
+    uniforms.uPulse.value = pulse;
+    uniforms.uSnowCover.value = snowCover?.current ?? 0;
+    uniforms.uSnowColor.value.set(snowColor);
+
+    // Picked ornaments fly to a spot in front of the camera, expressed in this mesh's local space
+    state.camera.getWorldPosition(tempCamera);
+    state.camera.getWorldDirection(tempDirection);
+    tempCamera.addScaledVector(tempDirection, SELECT_DISTANCE);
+    meshRef.current.worldToLocal(uniforms.uSelectTarget.value.copy(tempCamera));
+
+    // Hover / selection easing, only for the instances that are changing
+    if (hovered !== null && hovered < count) easing.add(hovered);
+    if (selectedIndex !== null && selectedIndex < count) easing.add(selectedIndex);
+    let eased = false;
+    const ease = Math.min(1, delta * 6);
+    easing.forEach((i) => {
+        const hoverGoal = i === hovered || i === selectedIndex ? 1 : 0;
+        const selectGoal = i === selectedIndex ? 1 : 0;
+        if (highlights[i] !== hoverGoal) {
+            highlights[i] += (hoverGoal - highlights[i]) * ease;
+            if (Math.abs(hoverGoal - highlights[i]) < 0.01) highlights[i] = hoverGoal;
+            eased = true;
+        }
+        if (selections[i] !== selectGoal) {
+            selections[i] += (selectGoal - selections[i]) * ease;
+            if (Math.abs(selectGoal - selections[i]) < 0.001) selections[i] = selectGoal;
+            eased = true;
+        }
+        // Stay tracked while lit, so the way back down is eased too
+        if (hoverGoal === 0 && highlights[i] === 0 && selections[i] === 0) easing.delete(i);
     });
+    if (eased) {
+        geometry.attributes.aHighlight.needsUpdate = true;
+        geometry.attributes.aSelect.needsUpdate = true;
+    }
 
-    meshRef.current.instanceMatrix.needsUpdate = true;
+    if (theme && materialRef.current) theme.copy(themeSlot.ornament(groupId), materialRef.current.color);
+
+    // Music: the glowing lights flare with treble and every beat
+    if (type === 'DIAMOND' && audio && materialRef.current) {
+        const { treble, beat } = audio.current;
+        materialRef.current.emissiveIntensity = emissiveIntensity * (1 + treble * 1.5 + beat);
+    }
   });
 
-  // Select geometry based on type
-  const geometry = useMemo(() => {
-      switch(type) {
-          case 'BOX': return new THREE.BoxGeometry(1, 1, 1);
-          case 'DIAMOND': return new THREE.OctahedronGeometry(1);
-          case 'SPHERE': 
-          default: return new THREE.SphereGeometry(1, 16, 16);
-      }
-  }, [type]);
+  // Reset the cursor if we unmount while hovered
+  useEffect(() => () => { document.body.style.cursor = 'auto'; }, []);
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (e.instanceId === undefined) return;
+    e.stopPropagation();
+    if (e.instanceId !== hovered) setHovered(e.instanceId);
+    document.body.style.cursor = 'pointer';
+  };
+
+  const handlePointerOut = () => {
+    setHovered(null);
+    document.body.style.cursor = 'auto';
+  };
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.instanceId === undefined || !onSelect) return;
+    e.stopPropagation();
+    const i = e.instanceId;
+    const position: Vec3 = [0, 0, 0];
+    sampleMorph(buffers, i, position);
+    onSelect({
+      groupId,
+      index: i,
+      type,
+      color,
+      position,
+      ...data[i]
+    });
+  };
 
   return (
-    <instancedMesh ref={meshRef} args={[geometry, undefined, count]} castShadow receiveShadow>
+    <instancedMesh 
+      ref={meshRef} 
+      args={[geometry, undefined, capacity]} 
+      frustumCulled={false} 
+      castShadow 
+      receiveShadow
+      customDepthMaterial={depthMaterial}
+      onPointerMove={handlePointerMove}
+      onPointerOut={handlePointerOut}
+      onClick={handleClick}
+    >
       <meshStandardMaterial 
+        ref={materialRef}
+        onBeforeCompile={onBeforeCompile}
         color={color} 
         roughness={roughness} 
         metalness={metalness}
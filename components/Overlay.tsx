@@ -1,50 +1,71 @@
 import React from 'react';
-import { TreeState } from '../types';
+import { BrandConfig, FormationId, LocaleId, TreeState } from '../types';
+import { Formation } from '../utils/formations';
+import { MessageKey, formationLabel, resolveText, translate } from '../utils/i18n';
 
 interface OverlayProps {
-  treeState: TreeState;
-  setTreeState: (state: TreeState) => void;
+  formation: FormationId;
+  setFormation: (formation: FormationId) => void;
+  formations: Formation[];
+  configError?: string | null;
+  // Personal line from a shared link, shown under the subtitle
+  greeting?: string;
+  locale: LocaleId;
+  // Client title, subtitle and logo; the bundle's text where it gives none
+  brand: BrandConfig;
 }
 
-const Overlay: React.FC<OverlayProps> = ({ treeState, setTreeState }) => {
+const Overlay: React.FC<OverlayProps> = ({ formation, setFormation, formations, configError, greeting, locale, brand }) => {
+  const scattered = formation === TreeState.SCATTERED;
+  const t = (key: MessageKey) => translate(locale, key);
+
   return (
     <div className="absolute top-0 left-0 w-full h-full pointer-events-none flex flex-col justify-between p-8 z-10">
       {/* Header */}
       <div className="flex flex-col items-center">
-        <h1 className="text-4xl md:text-6xl font-serif text-amber-200 tracking-widest uppercase text-center drop-shadow-[0_0_10px_rgba(255,215,0,0.5)]">
-          Arix Signature
+        {brand.logo && <img src={brand.logo} alt="" className="h-16 mb-4 object-contain drop-shadow-[0_0_10px_rgb(var(--ui-glow)/0.5)]" />}
+        <h1 
+          className="text-4xl md:text-6xl text-amber-200 tracking-widest uppercase text-center drop-shadow-[0_0_10px_rgb(var(--ui-glow)/0.5)]"
+          style={{ fontFamily: 'var(--font-title)' }}
+        >
+          {resolveText(brand.title, locale, t('title'))}
         </h1>
-        <div className="h-px w-32 bg-amber-400 mt-4 mb-2 shadow-[0_0_8px_#FFD700]"></div>
+        <div className="h-px w-32 bg-amber-400 mt-4 mb-2 shadow-[0_0_8px_rgb(var(--ui-glow))]"></div>
         <p className="text-amber-100/70 text-sm tracking-[0.3em] font-light">
-          INTERACTIVE HOLIDAY EXPERIENCE
+          {resolveText(brand.subtitle, locale, t('subtitle'))}
         </p>
+        {greeting && (
+          <p className="mt-4 max-w-xl text-center text-amber-100 font-serif text-lg italic drop-shadow-[0_0_8px_rgb(var(--ui-glow)/0.4)] break-words">
+            {greeting}
+          </p>
+        )}
       </div>
 
       {/* Footer / Controls */}
       <div className="flex flex-col items-center pointer-events-auto mb-10">
         <button
-          onClick={() => setTreeState(treeState === TreeState.SCATTERED ? TreeState.TREE_SHAPE : TreeState.SCATTERED)}
+          onClick={() => setFormation(scattered ? TreeState.TREE_SHAPE : TreeState.SCATTERED)}
           className={`
             relative px-12 py-4 group overflow-hidden transition-all duration-500 ease-out
             border border-amber-500/50 backdrop-blur-md rounded-full
-            hover:border-amber-400 hover:shadow-[0_0_30px_rgba(255,215,0,0.3)]
+            hover:border-amber-400 hover:shadow-[0_0_30px_rgb(var(--ui-glow)/0.3)]
           `}
         >
           {/* Button Background Gradient */}
-          <div className={`absolute inset-0 w-full h-full bg-gradient-to-r from-emerald-900/80 to-black/80 transition-opacity duration-500 ${treeState === TreeState.TREE_SHAPE ? 'opacity-100' : 'opacity-60'}`} />
+          <div className={`absolute inset-0 w-full h-full bg-gradient-to-r from-emerald-900/80 to-black/80 transition-opacity duration-500 ${scattered ? 'opacity-60' : 'opacity-100'}`} />
           
           {/* Button Text */}
           <span className="relative z-10 text-amber-100 font-serif text-lg tracking-widest flex items-center gap-3">
-            {treeState === TreeState.SCATTERED ? (
+            {scattered ? (
               <>
-                <span>ASSEMBLE TREE</span>
+                <span>{t('assemble')}</span>
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 animate-pulse" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
                 </svg>
               </>
             ) : (
               <>
-                <span>SCATTER MAGIC</span>
+                <span>{t('scatter')}</span>
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 animate-spin-slow" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
                 </svg>
@@ -54,8 +75,33 @@ const Overlay: React.FC<OverlayProps> = ({ treeState, setTreeState }) => {
         </button>
 
         <p className="mt-4 text-emerald-500/40 text-xs tracking-widest">
-           {treeState === TreeState.SCATTERED ? "CHAOS MODE" : "ORDER MODE"}
+           {scattered ? t('chaosMode') : t('orderMode')}
         </p>
+
+        {/* Formation Picker */}
+        <div className="mt-6 flex flex-wrap justify-center gap-2 max-w-xl">
+          {formations.map((f) => (
+            <button
+              key={f.id}
+              onClick={() => setFormation(f.id)}
+              className={`
+                px-4 py-1 rounded-full border text-xs font-serif tracking-widest uppercase backdrop-blur-md transition-all duration-300
+                ${f.id === formation
+                  ? 'border-amber-400 text-amber-100 bg-emerald-900/60 shadow-[0_0_12px_rgb(var(--ui-glow)/0.3)]'
+                  : 'border-amber-500/30 text-amber-100/60 hover:border-amber-400/70 hover:text-amber-100'}
+              `}
+            >
+              {formationLabel(locale, f.id, f.label)}
+            </button>
+          ))}
+        </div>
+
+        {/* Scene config problems: the default tree is shown instead */}
+        {configError && (
+          <p className="mt-2 max-w-xl text-center text-red-400/80 text-xs font-mono">
+            {configError}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,141 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { TreeProfileConfig, TreeProfileId } from '../types';
+import {
+  MAX_PROFILE_HEIGHT,
+  MAX_PROFILE_RADIUS,
+  MIN_PROFILE_HEIGHT,
+  PROFILE_PRESETS,
+  createTreeProfile,
+  sampleProfileCurve
+} from '../utils/treeProfile';
+
+interface ProfilePanelProps {
+  profile: TreeProfileConfig;
+  setProfile: (profile: TreeProfileConfig) => void;
+}
+
+// Curve editor canvas, in SVG units: the trunk runs up the middle
+const VIEW_W = 240;
+const VIEW_H = 200;
+const PAD = 12;
+const OUTLINE_SAMPLES = 48;
+
+const toX = (radius: number) => VIEW_W / 2 + (radius / MAX_PROFILE_RADIUS) * (VIEW_W / 2 - PAD);
+const toY = (heightRatio: number) => VIEW_H - PAD - heightRatio * (VIEW_H - PAD * 2);
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ profile, setProfile }) => {
+  const [open, setOpen] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragging = useRef<number | null>(null);
+
+  // Mirrored silhouette of whatever is active, drawn under the handles
+  const outline = useMemo(() => {
+    const shape = createTreeProfile(profile);
+    const right = Array.from({ length: OUTLINE_SAMPLES + 1 }, (_, i) => {
+      const h = i / OUTLINE_SAMPLES;
+      return [toX(shape.radiusAt(h)), toY(h)];
+    });
+    const left = right.map(([x, y]) => [VIEW_W - x, y]).reverse();
+    return [...right, ...left].map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+  }, [profile]);
+
+  const pickPreset = (preset: TreeProfileId) => {
+    if (preset === 'custom') {
+      // Start editing from the silhouette on screen rather than a stock curve
+      setProfile({ ...profile, preset, curve: sampleProfileCurve(createTreeProfile(profile)) });
+      return;
+    }
+    const { height } = PROFILE_PRESETS.find((p) => p.id === preset)!;
+    setProfile({ ...profile, preset, height });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragging.current;
+    const svg = svgRef.current;
+    if (index === null || !svg) return;
+    const bounds = svg.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * VIEW_W;
+    const radius = Math.abs(x - VIEW_W / 2) / (VIEW_W / 2 - PAD) * MAX_PROFILE_RADIUS;
+    const curve = [...profile.curve];
+    curve[index] = Math.round(Math.min(radius, MAX_PROFILE_RADIUS) * 100) / 100;
+    setProfile({ ...profile, curve });
+  };
+
+  const pill = (active: boolean) => `
+    px-3 py-1 rounded-full border text-xs font-serif tracking-widest uppercase transition-all duration-300
+    ${active
+      ? 'border-amber-400 text-amber-100 bg-emerald-900/60 shadow-[0_0_12px_rgb(var(--ui-glow)/0.3)]'
+      : 'border-amber-500/30 text-amber-100/60 hover:border-amber-400/70 hover:text-amber-100'}
+  `;
+
+  const custom = profile.preset === 'custom';
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        Silhouette
+      </button>
+
+      {open && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2">
+            {PROFILE_PRESETS.map((preset) => (
+              <button key={preset.id} onClick={() => pickPreset(preset.id)} className={pill(preset.id === profile.preset)}>
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center justify-between gap-3 text-amber-100/70">
+            Height
+            <input
+              type="range"
+              min={MIN_PROFILE_HEIGHT}
+              max={MAX_PROFILE_HEIGHT}
+              step={0.5}
+              value={profile.height}
+              onChange={(e) => setProfile({ ...profile, height: Number(e.target.value) })}
+              className="flex-1 accent-amber-400"
+            />
+            <span className="font-mono normal-case tracking-normal w-8 text-right">{profile.height}</span>
+          </label>
+
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${VIEW_W} ${VIEW_H}`}
+            className={`w-full rounded-lg bg-black/40 ${custom ? 'touch-none' : ''}`}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => (dragging.current = null)}
+            onPointerLeave={() => (dragging.current = null)}
+          >
+            <line x1={VIEW_W / 2} y1={PAD} x2={VIEW_W / 2} y2={VIEW_H - PAD} style={{ stroke: 'rgb(var(--ui-glow) / 0.15)' }} />
+            {/* Theme colours only resolve through CSS, not presentation attributes */}
+            <polygon points={outline} strokeWidth={1} style={{ fill: 'rgb(var(--ui-deep) / 0.6)', stroke: 'rgb(var(--ui-glow) / 0.6)' }} />
+            {custom &&
+              profile.curve.map((radius, i) => (
+                <circle
+                  key={i}
+                  cx={toX(radius)}
+                  cy={toY(i / (profile.curve.length - 1))}
+                  r={6}
+                  className="fill-amber-400 cursor-ew-resize"
+                  onPointerDown={(e) => {
+                    (e.target as Element).setPointerCapture?.(e.pointerId);
+                    dragging.current = i;
+                  }}
+                />
+              ))}
+          </svg>
+          <p className="normal-case tracking-normal text-amber-100/40">
+            {custom ? 'Drag the handles to shape the tree, from the base up to the tip.' : 'Pick Custom to draw your own curve.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePanel;
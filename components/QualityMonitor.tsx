@@ -0,0 +1,43 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { QualityTier } from '../types';
+import { QUALITY_TIERS, createFpsMonitor, stepTier } from '../utils/quality';
+
+interface QualityMonitorProps {
+  tier: QualityTier;
+  // Only steps the tier while true (the user hasn't pinned one)
+  auto: boolean;
+  onTierChange: (tier: QualityTier) => void;
+  // Latest smoothed fps, for display
+  fps: React.MutableRefObject<number>;
+}
+
+// Renders nothing; watches real frame times and steps the tier down / up
+const QualityMonitor: React.FC<QualityMonitorProps> = ({ tier, auto, onTierChange, fps }) => {
+  const monitor = useMemo(() => createFpsMonitor(), []);
+  const lastFrame = useRef<number | null>(null);
+  // Never climb back to a tier that already proved too slow this session
+  const ceiling = useRef(QUALITY_TIERS.length - 1);
+
+  useEffect(() => {
+    monitor.reset();
+  }, [monitor, tier, auto]);
+
+  // Wall-clock time, not the frame delta: the fixed-timestep capture mode fakes the latter
+  useFrame(() => {
+    const now = performance.now();
+    const frameTime = lastFrame.current === null ? 0 : (now - lastFrame.current) / 1000;
+    lastFrame.current = now;
+    const step = monitor.sample(frameTime);
+    fps.current = monitor.fps();
+    if (!auto || step === 0) return;
+
+    if (step < 0) ceiling.current = Math.min(ceiling.current, QUALITY_TIERS.indexOf(tier) - 1);
+    const next = stepTier(tier, step);
+    if (next !== tier && QUALITY_TIERS.indexOf(next) <= Math.max(ceiling.current, 0)) onTierChange(next);
+  });
+
+  return null;
+};
+
+export default QualityMonitor;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { LocaleId, QualityTier } from '../types';
+import { qualityTierLabel, translate } from '../utils/i18n';
+import { QUALITY_TIERS, QualityMode } from '../utils/quality';
+
+interface QualityPanelProps {
+  mode: QualityMode;
+  setMode: (mode: QualityMode) => void;
+  // Tier actually in use (what 'auto' currently picked)
+  tier: QualityTier;
+  fps: React.MutableRefObject<number>;
+  locale: LocaleId;
+}
+
+const QualityPanel: React.FC<QualityPanelProps> = ({ mode, setMode, tier, fps, locale }) => {
+  const [shownFps, setShownFps] = useState(0);
+
+  // The monitor writes every frame; refresh the readout twice a second
+  useEffect(() => {
+    const interval = setInterval(() => setShownFps(Math.round(fps.current)), 500);
+    return () => clearInterval(interval);
+  }, [fps]);
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 rounded-full border border-amber-500/30 bg-black/50 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase pointer-events-auto">
+      <span className={`font-mono normal-case tracking-normal ${shownFps < 30 ? 'text-red-400/80' : 'text-amber-100/60'}`}>
+        {shownFps} fps
+      </span>
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as QualityMode)}
+        className="bg-black/60 border border-amber-500/30 rounded px-1 py-0.5 text-amber-100 uppercase focus:outline-none"
+      >
+        <option value="auto">{translate(locale, 'qualityAuto', { tier: qualityTierLabel(locale, tier) })}</option>
+        {QUALITY_TIERS.map((option) => (
+          <option key={option} value={option}>{qualityTierLabel(locale, option)}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default QualityPanel;
@@ -1,316 +1,301 @@
-import React, { useMemo, useRef, useLayoutEffect } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
+import { MorphState, RibbonConfig, RibbonTexture, TreeState } from '../types';
+import { sampleRibbonNormals, sampleRibbonPath } from '../utils/formations';
+import { createLayoutCache, createMorphBuffers, retargetMorph } from '../utils/morph';
+import { computeRibbonFrames } from '../utils/ribbonFrames';
+import { getRibbonTexture } from '../utils/ribbonTextures';
+import { ThemeMixer, themeSlot } from '../utils/themes';
+import { TreeProfile } from '../utils/treeProfile';
+import { TRANSITION_VERTEX, TransitionUniforms, createTransitionUniforms, setTransitionUniforms } from '../utils/transitions';
 
 interface RibbonProps {
-  color: string;
-  width: number;
-  length: number; // Number of segments
-  radius: number;
-  turns: number;
-  yStart: number;
-  yEnd: number;
-  animationProgress: React.MutableRefObject<number>;
-  phaseOffset: number;
-  scatterRadius: number;
+  ribbon: RibbonConfig;
+  seed: number;
+  morph: React.MutableRefObject<MorphState>;
+  profile: TreeProfile;
+  theme?: ThemeMixer;
 }
 
-const Ribbon: React.FC<RibbonProps> = ({ 
-  color, 
-  width, 
-  length: segments, 
-  radius, 
-  turns, 
-  yStart, 
-  yEnd, 
-  animationProgress,
-  phaseOffset,
-  scatterRadius 
-}) => {
-  const meshRef = useRef<THREE.Mesh>(null);
-  
-  // 1. Generate Paths (Tree Spiral & Scattered Curve)
-  const paths = useMemo(() => {
-    const treePath: THREE.Vector3[] = [];
-    const scatterPath: THREE.Vector3[] = [];
-    
-    // --- Generate Tree Spiral Path ---
-    for (let i = 0; i <= segments; i++) {
-      const t = i / segments;
-      const y = THREE.MathUtils.lerp(yStart, yEnd, t);
-      
-      // Cone radius at height y (assuming tree height ~12, base ~5)
-      // We map y from roughly -6 to 6 in world space
-      // Normalized height 0 (bottom) to 1 (top)
-      const hNorm = (y - yStart) / (yEnd - yStart);
-      
-      // Taper radius: wider at bottom, narrow at top
-      const currentRadius = THREE.MathUtils.lerp(radius, 0.5, hNorm);
-      
-      const angle = t * Math.PI * 2 * turns + phaseOffset;
-      
-      const x = Math.cos(angle) * currentRadius;
-      const z = Math.sin(angle) * currentRadius;
-      
-      treePath.push(new THREE.Vector3(x, y, z));
-    }
+// Material look per finish: plain ribbons are metallic foil, cloth is duller
+const FINISH: Record<RibbonTexture | 'plain', { metalness: number; roughness: number; emissiveIntensity: number }> = {
+  plain: { metalness: 1.0, roughness: 0.25, emissiveIntensity: 0.2 },
+  satin: { metalness: 0.35, roughness: 0.3, emissiveIntensity: 0.12 },
+  fabric: { metalness: 0.0, roughness: 0.85, emissiveIntensity: 0.08 }
+};
 
-    // --- Generate Scatter Chaotic Path ---
-    // Create a random CatmullRom curve inside a sphere
-    const controlPoints = [];
-    const numControlPoints = 5;
-    for(let i=0; i<numControlPoints; i++) {
-        // Random point in sphere
-        const r = scatterRadius * Math.cbrt(Math.random());
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.acos(2 * Math.random() - 1);
-        
-        controlPoints.push(new THREE.Vector3(
-            r * Math.sin(phi) * Math.cos(theta),
-            r * Math.sin(phi) * Math.sin(theta),
-            r * Math.cos(phi)
-        ));
-    }
-    const curve = new THREE.CatmullRomCurve3(controlPoints);
-    // Sample points
-    for (let i = 0; i <= segments; i++) {
-        const t = i / segments;
-        scatterPath.push(curve.getPoint(t));
+// Rows of the frame texture: the layout being left, then the one being approached
+const ROWS = ['fromCenter', 'fromTangent', 'fromNormal', 'toCenter', 'toTangent', 'toNormal'];
+
+// The vertex shader rebuilds the ribbon from its centre line and frames every frame,
+// so the CPU only touches the data when a new formation is picked.
+const RIBBON_VERTEX = /* glsl */ `
+  ${TRANSITION_VERTEX}
+  uniform sampler2D uFrames;
+  uniform float uProgress;
+  uniform float uTime;
+  uniform float uFloat;
+  uniform float uPhase;
+  uniform float uWidth;
+  uniform float uSegments;
+  attribute float aIndex;
+  attribute float aSide;
+
+  vec3 frameRow(int row) {
+    return texelFetch(uFrames, ivec2(int(aIndex), row), 0).xyz;
+  }
+
+  vec3 safeNormalize(vec3 v, vec3 fallback) {
+    float len = length(v);
+    return len > 1e-6 ? v / len : fallback;
+  }
+
+  void ribbonFrame(out vec3 center, out vec3 normal, out vec3 side) {
+    // Each point follows the transition on its own clock, seeded by its place along the
+    // ribbon so neighbours stay together; tangent and normal turn with it
+    vec3 anchor = frameRow(3);
+    float seed = aIndex / uSegments;
+    center = transitionMove(frameRow(0), anchor, seed, uProgress);
+    vec3 tangent = transitionTurn(frameRow(1), frameRow(4), anchor, seed, uProgress);
+    normal = transitionTurn(frameRow(2), frameRow(5), anchor, seed, uProgress);
+
+    // "Floating" noise while the layout is loose, plus its derivative along the ribbon
+    float i = aIndex;
+    float amount = uFloat * 1.5;
+    center += amount * vec3(sin(uTime * 0.5 + i * 0.1 + uPhase), cos(uTime * 0.3 + i * 0.1), sin(uTime * 0.4 + i * 0.05));
+    tangent += amount * vec3(0.1 * cos(uTime * 0.5 + i * 0.1 + uPhase), -0.1 * sin(uTime * 0.3 + i * 0.1), 0.05 * cos(uTime * 0.4 + i * 0.05));
+    tangent = safeNormalize(tangent, vec3(0.0, 1.0, 0.0));
+
+    // Keep the blended normal square to the tangent
+    vec3 across = abs(tangent.y) < 0.9 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0);
+    normal = safeNormalize(normal - tangent * dot(normal, tangent), normalize(cross(tangent, across)));
+    side = cross(tangent, normal);
+
+    // Twist about the tangent, more when loose
+    float twist = i * 0.5 * uFloat;
+    float c = cos(twist);
+    float s = sin(twist);
+    vec3 twisted = normal * c + side * s;
+    side = side * c - normal * s;
+    normal = twisted;
+  }
+`;
+
+interface RibbonUniforms extends TransitionUniforms {
+  uFrames: { value: THREE.DataTexture | null };
+  uProgress: { value: number };
+  uTime: { value: number };
+  uFloat: { value: number };
+  uPhase: { value: number };
+  uWidth: { value: number };
+  uSegments: { value: number };
+}
+
+// One set per ribbon for its whole life: the compiled program keeps the objects it was
+// built with, so new layouts are written into them rather than replacing them
+const createUniforms = (): RibbonUniforms => ({
+  uFrames: { value: null },
+  uProgress: { value: 1 },
+  uTime: { value: 0 },
+  uFloat: { value: 0 },
+  uPhase: { value: 0 },
+  uWidth: { value: 1 },
+  uSegments: { value: 1 },
+  ...createTransitionUniforms()
+});
+
+// Centre line, tangents and surface normals as one buffer, block after block,
+// so a whole layout morphs like any other position buffer
+const ribbonLayout = (path: Float32Array, surfaceNormals: Float32Array | null): Float32Array => {
+  const { tangents, normals } = computeRibbonFrames(path, surfaceNormals);
+  const layout = new Float32Array(path.length * 3);
+  layout.set(path, 0);
+  layout.set(tangents, path.length);
+  layout.set(normals, path.length * 2);
+  return layout;
+};
+
+// Copy one layout (three blocks of xyz) into three rows of the frame texture
+const writeRows = (frames: THREE.DataTexture, layout: Float32Array, firstRow: number, points: number) => {
+  const data = frames.image.data as Float32Array;
+  for (let block = 0; block < 3; block++) {
+    for (let i = 0; i < points; i++) {
+      const src = (block * points + i) * 3;
+      data.set(layout.subarray(src, src + 3), ((firstRow + block) * points + i) * 4);
     }
+  }
+  frames.needsUpdate = true;
+};
 
-    return { treePath, scatterPath };
-  }, [radius, turns, yStart, yEnd, segments, phaseOffset, scatterRadius]);
-
-  // 2. Initial Geometry Setup
-  useLayoutEffect(() => {
-    if (!meshRef.current) return;
-    
-    // We construct a strip of triangles (Plane-like topology)
-    // Vertices count: (segments + 1) * 2 (Left and Right side of ribbon)
-    const vertexCount = (segments + 1) * 2;
-    const positions = new Float32Array(vertexCount * 3);
-    const indices = [];
+const pathLength = (layout: Float32Array, points: number) => {
+  let length = 0;
+  for (let i = 1; i < points; i++) {
+    length += Math.hypot(
+      layout[i * 3] - layout[i * 3 - 3],
+      layout[i * 3 + 1] - layout[i * 3 - 2],
+      layout[i * 3 + 2] - layout[i * 3 - 1]
+    );
+  }
+  return length;
+};
+
+const Ribbon: React.FC<RibbonProps> = ({ ribbon, seed, morph, profile, theme }) => {
+  const { color, width, segments } = ribbon;
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const points = segments + 1;
+  const finish = FINISH[ribbon.texture ?? 'plain'];
+  
+  // 1. Layouts: centre line and frames per formation (tree spiral, chaotic scatter curve, ...), sampled on demand
+  const uniforms = useMemo(createUniforms, []);
+  const { buffers, getLayout, frames } = useMemo(() => {
+    const getLayout = createLayoutCache((id) =>
+      ribbonLayout(sampleRibbonPath(id, ribbon, seed, profile), sampleRibbonNormals(id, ribbon, profile))
+    );
+    const { target } = morph.current;
+    const seeds = Float32Array.from({ length: points }, (_, i) => i / segments);
+    const buffers = createMorphBuffers(target, getLayout(target), seeds);
+    const frames = new THREE.DataTexture(new Float32Array(points * ROWS.length * 4), points, ROWS.length, THREE.RGBAFormat, THREE.FloatType);
+    writeRows(frames, buffers.from, 0, points);
+    writeRows(frames, buffers.to, 3, points);
+    return { buffers, getLayout, frames };
+  }, [ribbon, seed, morph, profile, points, segments]);
+
+  // 2. Static strip: two vertices (left and right edge) per centre-line point
+  const geometry = useMemo(() => {
+    const vertexCount = points * 2;
+    const indices: number[] = [];
+    const indexAttr = new Float32Array(vertexCount);
+    const sides = new Float32Array(vertexCount);
     const uvs = new Float32Array(vertexCount * 2);
+    // Texture repeats along the ribbon, measured on the tree so the weave is square-ish there
+    const tiles = Math.max(1, Math.round(pathLength(getLayout(TreeState.TREE_SHAPE), points) / ribbon.tileLength));
 
     for (let i = 0; i <= segments; i++) {
-        // Two vertices per segment step (Left and Right)
-        // We just init with 0, animation loop handles actual position
-        
-        // UVs
-        const v = i / segments;
-        uvs[i * 4 + 0] = 0; // Left u
-        uvs[i * 4 + 1] = v; // Left v
-        uvs[i * 4 + 2] = 1; // Right u
-        uvs[i * 4 + 3] = v; // Right v
+        const v = (i / segments) * tiles;
+        indexAttr[i * 2] = indexAttr[i * 2 + 1] = i;
+        sides[i * 2] = 1; // Left
+        sides[i * 2 + 1] = -1; // Right
+        uvs.set([0, v, 1, v], i * 4);
 
         // Indices (Two triangles per segment square)
         if (i < segments) {
             const base = i * 2;
-            // Triangle 1
             indices.push(base, base + 1, base + 2);
-            // Triangle 2
             indices.push(base + 1, base + 3, base + 2);
         }
     }
 
-    const geometry = meshRef.current.geometry;
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
-    geometry.setIndex(indices);
+    const geo = new THREE.BufferGeometry();
+    // Positions come from the shader; the attribute only sets the vertex count
+    geo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertexCount * 3), 3));
+    geo.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+    geo.setAttribute('aIndex', new THREE.BufferAttribute(indexAttr, 1));
+    geo.setAttribute('aSide', new THREE.BufferAttribute(sides, 1));
+    geo.setIndex(indices);
+    return geo;
+  }, [points, segments, ribbon.tileLength, getLayout]);
 
-  }, [segments]);
+  useEffect(() => () => frames.dispose(), [frames]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
 
-  // 3. Animation Loop
-  useFrame((state) => {
-    if (!meshRef.current) return;
-    
-    const geo = meshRef.current.geometry;
-    const posAttr = geo.attributes.position;
-    const progress = animationProgress.current;
-    
-    // Easing
-    const t = progress * progress * (3 - 2 * progress);
-    const time = state.clock.elapsedTime;
-
-    const { treePath, scatterPath } = paths;
-    const tempVec = new THREE.Vector3();
-    const binormal = new THREE.Vector3(0, 1, 0); // Up vector approx
-    const tangent = new THREE.Vector3();
-    const normal = new THREE.Vector3();
-    const sideOffset = new THREE.Vector3();
+  const onBeforeCompile = useMemo(
+    () => (shader: THREE.WebGLProgramParametersWithUniforms) => {
+      Object.assign(shader.uniforms, uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `${RIBBON_VERTEX}\n#include <common>`)
+        .replace(
+          '#include <beginnormal_vertex>',
+          'vec3 ribbonCenter, ribbonNormal, ribbonSide;\nribbonFrame(ribbonCenter, ribbonNormal, ribbonSide);\nvec3 objectNormal = ribbonNormal;'
+        )
+        .replace('#include <begin_vertex>', 'vec3 transformed = ribbonCenter + ribbonSide * aSide * uWidth * 0.5;');
+    },
+    [uniforms]
+  );
 
-    for (let i = 0; i <= segments; i++) {
-        // A. Interpolate Center Point
-        const pScatter = scatterPath[i];
-        const pTree = treePath[i];
-
-        // Add "Floating" noise to scatter position
-        const floatFactor = 1.0 - t;
-        const noiseX = Math.sin(time * 0.5 + i * 0.1 + phaseOffset) * floatFactor * 1.5;
-        const noiseY = Math.cos(time * 0.3 + i * 0.1) * floatFactor * 1.5;
-        const noiseZ = Math.sin(time * 0.4 + i * 0.05) * floatFactor * 1.5;
-
-        const cx = THREE.MathUtils.lerp(pScatter.x + noiseX, pTree.x, t);
-        const cy = THREE.MathUtils.lerp(pScatter.y + noiseY, pTree.y, t);
-        const cz = THREE.MathUtils.lerp(pScatter.z + noiseZ, pTree.z, t);
-
-        // B. Calculate Orientation (Ribbon Facing)
-        // We approximate tangent by looking at next point (or prev)
-        const iNext = Math.min(i + 1, segments);
-        const iPrev = Math.max(i - 1, 0);
-        
-        // Simple tangent calc
-        // Note: For perfect ribbons we'd interpolate the tangent too, but recalculating 
-        // from the interpolated curve is more physically consistent.
-        
-        // However, calculating tangent from the noisy interpolated points can be jittery.
-        // Smoother approach: Interpolate the tangent vectors of the source curves? 
-        // Let's stick to simple finite difference on the calculated points for now.
-        
-        // Actually, let's use the tree tangent as the 'target' and a random tangent for scatter?
-        // No, finite difference on the result `cx,cy,cz` is robust enough if resolution is high.
-        
-        // We need the next point's position to get tangent
-        let nScatter = scatterPath[iNext];
-        let nTree = treePath[iNext];
-        // Add same noise to next point for consistency
-        let nNoiseX = Math.sin(time * 0.5 + iNext * 0.1 + phaseOffset) * floatFactor * 1.5;
-        let nNoiseY = Math.cos(time * 0.3 + iNext * 0.1) * floatFactor * 1.5;
-        let nNoiseZ = Math.sin(time * 0.4 + iNext * 0.05) * floatFactor * 1.5;
-        
-        let nx = THREE.MathUtils.lerp(nScatter.x + nNoiseX, nTree.x, t);
-        let ny = THREE.MathUtils.lerp(nScatter.y + nNoiseY, nTree.y, t);
-        let nz = THREE.MathUtils.lerp(nScatter.z + nNoiseZ, nTree.z, t);
-        
-        if (i === segments) {
-            // For last point, look backward
-            // (We can just reuse previous tangent or handle properly, simple hack: use previous calc)
-            // But let's just reverse the vector from prev point
-             const pPrevScatter = scatterPath[iPrev];
-             const pPrevTree = treePath[iPrev];
-             // ... calc prev pos ...
-             // Optimization: Just don't crash, let tangent be same as prev segment.
-             // We'll update tangent based on i and iNext, unless i=segments.
-             tangent.set(0,1,0); // Fallback
-        } else {
-             tangent.set(nx - cx, ny - cy, nz - cz).normalize();
-        }
+  // 3. Animation: only uniforms, plus a texture upload when the formation changes
+  useFrame((state) => {
+    const { target, progress, order, transition } = morph.current;
 
-        // C. Calculate Side Vector (Perpendicular to Tangent and Up)
-        // For a ribbon on a tree, we want it facing "outward" or "upward"?
-        // Usually ribbons lie flat against the cone. The cone normal is roughly (x, 0, z) normalized + some Y tilt.
-        // Let's try: Cross Tangent with Up(0,1,0) -> Horizontal Normal.
-        // Then Cross Tangent with Horizontal -> Surface Normal.
-        
-        // Binormal ~ Right vector
-        normal.crossVectors(tangent, binormal).normalize(); // Points roughly horizontal
-        
-        // Twist logic: Rotate the normal around the tangent? 
-        // Add some twist based on t
-        const twistAngle = i * 0.1 * (1-t) * 5; // Twist more when scattered
-        if (twistAngle !== 0) {
-             normal.applyAxisAngle(tangent, twistAngle);
-        }
+    // New formation picked: continue from the ribbon's current shape
+    if (target !== buffers.target) {
+      retargetMorph(buffers, target, getLayout(target), transition);
+      // A ribbon has no inside: face the new layout the way the old one faced, so the
+      // blended normals never pass through zero
+      const normals = points * 6;
+      let facing = 0;
+      for (let i = normals; i < points * 9; i++) facing += buffers.from[i] * buffers.to[i];
+      if (facing < 0) {
+        for (let i = normals; i < points * 9; i++) buffers.to[i] = -buffers.to[i];
+      }
+      writeRows(frames, buffers.from, 0, points);
+      writeRows(frames, buffers.to, 3, points);
+    }
+    buffers.progress = progress;
 
-        sideOffset.copy(normal).multiplyScalar(width * 0.5);
+    uniforms.uFrames.value = frames;
+    uniforms.uSegments.value = segments;
+    uniforms.uPhase.value = ribbon.phase * Math.PI * 2;
+    uniforms.uWidth.value = width;
+    uniforms.uProgress.value = progress;
+    setTransitionUniforms(uniforms, buffers.transition);
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uFloat.value = 1.0 - order;
 
-        // D. Set Vertices
-        // Vertex 1 (Left)
-        posAttr.setXYZ(i * 2, cx + sideOffset.x, cy + sideOffset.y, cz + sideOffset.z);
-        // Vertex 2 (Right)
-        posAttr.setXYZ(i * 2 + 1, cx - sideOffset.x, cy - sideOffset.y, cz - sideOffset.z);
+    // The ribbon glows in its own colour, so the theme sets both
+    if (theme && materialRef.current) {
+      theme.copy(themeSlot.ribbon(ribbon.id), materialRef.current.color);
+      materialRef.current.emissive.copy(materialRef.current.color);
     }
-    
-    posAttr.needsUpdate = true;
-    geo.computeVertexNormals();
   });
 
+  const map = ribbon.texture ? getRibbonTexture(ribbon.texture) : null;
+
   return (
-    <mesh ref={meshRef}>
-      <bufferGeometry />
+    <mesh geometry={geometry} frustumCulled={false}>
       <meshStandardMaterial 
+        // Swapping the map in or out needs a new shader program
+        key={ribbon.texture ?? 'plain'}
+        ref={materialRef}
+        onBeforeCompile={onBeforeCompile}
         color={color} 
+        map={map}
+        bumpMap={ribbon.texture === 'fabric' ? map : null}
+        bumpScale={0.6}
         side={THREE.DoubleSide} 
-        metalness={1.0}
-        roughness={0.25}
+        metalness={finish.metalness}
+        roughness={finish.roughness}
         emissive={color}
-        emissiveIntensity={0.2}
+        emissiveIntensity={finish.emissiveIntensity}
       />
     </mesh>
   );
 };
 
 interface RibbonsProps {
-    animationProgress: React.MutableRefObject<number>;
+    ribbons: RibbonConfig[];
+    // Quality scaling of every ribbon's segment count
+    segmentScale?: number;
+    seed: number;
+    morph: React.MutableRefObject<MorphState>;
+    // Tree silhouette the ribbons wind around
+    profile: TreeProfile;
+    // Active theme; recolours each ribbon through its slot
+    theme?: ThemeMixer;
 }
 
-const Ribbons: React.FC<RibbonsProps> = ({ animationProgress }) => {
+const Ribbons: React.FC<RibbonsProps> = ({ ribbons, segmentScale = 1, seed, morph, profile, theme }) => {
+  // Memoised so each Ribbon only rebuilds when its own detail actually changes
+  const scaled = useMemo(
+    () => ribbons.map((ribbon) => ({ ...ribbon, segments: Math.max(8, Math.round(ribbon.segments * segmentScale)) })),
+    [ribbons, segmentScale]
+  );
+
   return (
     <group>
-      {/* Gold Ribbons - Wider, Main spiral */}
-      <Ribbon 
-        color="#FFD700" 
-        width={0.6} 
-        length={120} 
-        radius={6} 
-        turns={3.5} 
-        yStart={-5} 
-        yEnd={7} 
-        animationProgress={animationProgress}
-        phaseOffset={0}
-        scatterRadius={15}
-      />
-      <Ribbon 
-        color="#F0C000" 
-        width={0.5} 
-        length={120} 
-        radius={5.5} 
-        turns={3.5} 
-        yStart={-5} 
-        yEnd={7} 
-        animationProgress={animationProgress}
-        phaseOffset={Math.PI} // Opposite side
-        scatterRadius={15}
-      />
-       <Ribbon 
-        color="#D4AF37" 
-        width={0.4} 
-        length={100} 
-        radius={6.5} 
-        turns={2.5} 
-        yStart={-6} 
-        yEnd={4} 
-        animationProgress={animationProgress}
-        phaseOffset={Math.PI * 0.5}
-        scatterRadius={18}
-      />
-
-      {/* Red Ribbons - Thinner, Accent */}
-      <Ribbon 
-        color="#C41E3A" 
-        width={0.25} 
-        length={150} 
-        radius={6.2} 
-        turns={4.5} 
-        yStart={-6} 
-        yEnd={8} 
-        animationProgress={animationProgress}
-        phaseOffset={Math.PI * 0.25}
-        scatterRadius={12}
-      />
-      <Ribbon 
-        color="#8B0000" 
-        width={0.3} 
-        length={150} 
-        radius={5.8} 
-        turns={4.5} 
-        yStart={-5.5} 
-        yEnd={8} 
-        animationProgress={animationProgress}
-        phaseOffset={Math.PI * 1.25}
-        scatterRadius={12}
-      />
+      {scaled.map((ribbon) => (
+        <Ribbon key={ribbon.id} ribbon={ribbon} seed={seed} morph={morph} profile={profile} theme={theme} />
+      ))}
     </group>
   );
 };
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { LocaleId, ViewState } from '../types';
+import { MessageKey, translate } from '../utils/i18n';
+import { MAX_GREETING_LENGTH, getShareUrl } from '../utils/urlState';
+
+interface SharePanelProps {
+  view: ViewState;
+  onGreetingChange: (greeting: string) => void;
+  // Pick a fresh seed, i.e. a new arrangement of the same scene
+  onReshuffle: () => void;
+  locale: LocaleId;
+}
+
+const SharePanel: React.FC<SharePanelProps> = ({ view, onGreetingChange, onReshuffle, locale }) => {
+  const t = (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values);
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const url = getShareUrl(view);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked (insecure context, permissions): let the user copy by hand
+      window.prompt(t('copyLinkPrompt'), url);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        {t('share')}
+      </button>
+
+      {open && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 flex flex-col gap-3">
+          <input
+            value={view.greeting}
+            onChange={(e) => onGreetingChange(e.target.value)}
+            maxLength={MAX_GREETING_LENGTH}
+            placeholder={t('addGreeting')}
+            className="bg-transparent border-b border-amber-500/40 py-1 text-sm placeholder-amber-100/40 focus:outline-none focus:border-amber-400"
+          />
+          <button
+            onClick={handleCopy}
+            className="py-2 rounded-full bg-gradient-to-r from-emerald-900/80 to-black/80 border border-amber-500/50 font-serif text-sm tracking-widest uppercase hover:border-amber-400 transition-all duration-300"
+          >
+            {copied ? t('linkCopied') : t('copyLink')}
+          </button>
+          <div className="flex justify-between text-xs tracking-widest uppercase text-amber-100/70">
+            <button onClick={onReshuffle} className="hover:text-amber-100">
+              {t('reshuffle')}
+            </button>
+            <span className="font-mono normal-case tracking-normal text-amber-100/40">{t('seed', { seed: view.seed })}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharePanel;
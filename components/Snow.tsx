@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MorphState, SnowConfig, TreeState } from '../types';
+import { createNamedRandom } from '../utils/random';
+
+interface SnowProps {
+  snow: SnowConfig;
+  // Quality scaling of the flake count
+  scale: number;
+  seed: number;
+  morph: React.MutableRefObject<MorphState>;
+  // 0..1 dusting on the tree; written here, read by the foliage and ornaments
+  cover: React.MutableRefObject<number>;
+}
+
+// Flakes wrap around inside this box, centred on the tree
+const BOX_MIN = new THREE.Vector3(-18, -8, -18);
+const BOX_SIZE = new THREE.Vector3(36, 30, 36);
+
+// Fall and drift are summed per frame and wrapped, so a slider change only alters the speed
+// from now on. Flake speed factors come in quarter steps, so every flake's share of an offset
+// wrapped at four box lengths is a whole number of boxes and the wrap is invisible.
+const OFFSET_PERIOD = 4;
+// The flutter's 1.3 and 1.1 rad/s both complete whole cycles in this many seconds
+const FLUTTER_PERIOD = 20 * Math.PI;
+
+const BLOW_AWAY = 1.5; // Cover lost per second once the tree scatters
+const SHAKE_OFF = 1; // Cover lost per second per unit of beat pulse
+
+// One set per instance: the material keeps these objects, so two trees must not share them
+const createUniforms = () => ({
+  uFlutter: { value: 0 }, // Seconds, wrapped at FLUTTER_PERIOD
+  uDrift: { value: new THREE.Vector2() }, // Wind travel so far, wrapped
+  uFall: { value: 0 }, // Fall so far, wrapped
+  uSize: { value: 1 },
+  uBoxMin: { value: BOX_MIN },
+  uBoxSize: { value: BOX_SIZE },
+  uColor: { value: new THREE.Color() }
+});
+
+// Every flake falls and drifts on the GPU from a fixed start; the CPU only sums the travel
+const SnowShaderMaterial = {
+  vertexShader: `
+    uniform float uFlutter;
+    uniform vec2 uDrift;
+    uniform float uFall;
+    uniform float uSize;
+    uniform vec3 uBoxMin;
+    uniform vec3 uBoxSize;
+    attribute float aRandom;
+
+    varying float vAlpha;
+
+    void main() {
+      // Heavier flakes fall faster and catch less wind (quarter steps, see OFFSET_PERIOD)
+      float weight = floor(aRandom * 3.0);
+      vec3 pos = position;
+      pos.y -= uFall * (3.0 + weight) * 0.25;
+      pos.xz += uDrift * (5.0 - weight) * 0.25;
+      // Flutter
+      pos.x += sin(uFlutter * 1.3 + aRandom * 40.0) * 0.4;
+      pos.z += cos(uFlutter * 1.1 + aRandom * 23.0) * 0.4;
+      pos = mod(pos - uBoxMin, uBoxSize) + uBoxMin;
+
+      vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+      gl_PointSize = uSize * (0.6 + 0.8 * aRandom) * (80.0 / -mvPosition.z);
+      gl_Position = projectionMatrix * mvPosition;
+
+      // Fade in at the top of the box and out at the bottom instead of popping
+      float top = uBoxMin.y + uBoxSize.y;
+      vAlpha = smoothstep(uBoxMin.y, uBoxMin.y + 2.0, pos.y) * (1.0 - smoothstep(top - 3.0, top, pos.y)) * 0.85;
+    }
+  `,
+  fragmentShader: `
+    uniform vec3 uColor;
+    varying float vAlpha;
+
+    void main() {
+      vec2 coord = gl_PointCoord - vec2(0.5);
+      float r = length(coord);
+      if (r > 0.5) discard;
+      gl_FragColor = vec4(uColor, vAlpha * pow(1.0 - r * 2.0, 1.2));
+    }
+  `
+};
+
+const Snow: React.FC<SnowProps> = ({ snow, scale, seed, morph, cover }) => {
+  const shaderRef = useRef<THREE.ShaderMaterial>(null);
+  const material = useMemo(() => ({ ...SnowShaderMaterial, uniforms: createUniforms() }), []);
+  // Allocated for full intensity; the intensity only changes how many are drawn
+  const capacity = Math.round(snow.density * scale);
+
+  const geometry = useMemo(() => {
+    const random = createNamedRandom(seed, 'snow');
+    const starts = new Float32Array(capacity * 3);
+    const randoms = new Float32Array(capacity);
+    for (let i = 0; i < capacity; i++) {
+      starts[i * 3] = BOX_MIN.x + random() * BOX_SIZE.x;
+      starts[i * 3 + 1] = BOX_MIN.y + random() * BOX_SIZE.y;
+      starts[i * 3 + 2] = BOX_MIN.z + random() * BOX_SIZE.z;
+      randoms[i] = random();
+    }
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(starts, 3));
+    geo.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 1));
+    return geo;
+  }, [capacity, seed]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useEffect(() => {
+    geometry.setDrawRange(0, Math.round(capacity * snow.intensity));
+  }, [geometry, capacity, snow.intensity]);
+
+  useFrame((_, delta) => {
+    const shader = shaderRef.current;
+    if (shader) {
+      const angle = THREE.MathUtils.degToRad(snow.windDirection);
+      const { uFlutter, uDrift, uFall } = shader.uniforms;
+      uFlutter.value = (uFlutter.value + delta) % FLUTTER_PERIOD;
+      uFall.value = (uFall.value + snow.fallSpeed * delta) % (BOX_SIZE.y * OFFSET_PERIOD);
+      uDrift.value.x = (uDrift.value.x + Math.cos(angle) * snow.windSpeed * delta) % (BOX_SIZE.x * OFFSET_PERIOD);
+      uDrift.value.y = (uDrift.value.y + Math.sin(angle) * snow.windSpeed * delta) % (BOX_SIZE.z * OFFSET_PERIOD);
+      shader.uniforms.uSize.value = snow.flakeSize;
+      shader.uniforms.uColor.value.set(snow.color);
+    }
+
+    // Snow settles while the tree stands, and blows away as soon as it scatters
+    const { target, progress, pulse } = morph.current;
+    let next = cover.current;
+    if (target !== TreeState.TREE_SHAPE) {
+      next -= delta * BLOW_AWAY;
+    } else if (progress > 0.95 && snow.accumulation > 0) {
+      next += (delta * snow.intensity) / snow.accumulation;
+    }
+    next -= delta * pulse * SHAKE_OFF;
+    cover.current = THREE.MathUtils.clamp(next, 0, 1);
+  });
+
+  if (capacity === 0) return null;
+
+  return (
+    // Flakes wrap around the whole box, so its bounds never change
+    <points geometry={geometry} frustumCulled={false}>
+      <shaderMaterial
+        ref={shaderRef}
+        attach="material"
+        args={[material]}
+        transparent
+        depthWrite={false}
+      />
+    </points>
+  );
+};
+
+export default Snow;
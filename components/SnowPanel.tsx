@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { SnowConfig } from '../types';
+
+interface SnowPanelProps {
+  snow: SnowConfig;
+  setSnow: (snow: SnowConfig) => void;
+}
+
+interface SliderSpec {
+  key: 'intensity' | 'windSpeed' | 'windDirection' | 'flakeSize';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'intensity', label: 'Intensity', min: 0, max: 1, step: 0.05 },
+  { key: 'windSpeed', label: 'Wind', min: 0, max: 6, step: 0.1 },
+  { key: 'windDirection', label: 'Direction', min: 0, max: 360, step: 5 },
+  { key: 'flakeSize', label: 'Flakes', min: 0.3, max: 3, step: 0.1 }
+];
+
+const SnowPanel: React.FC<SnowPanelProps> = ({ snow, setSnow }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        Snow
+      </button>
+
+      {open && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase flex flex-col gap-3">
+          {SLIDERS.map(({ key, label, min, max, step }) => (
+            <label key={key} className="flex items-center justify-between gap-3 text-amber-100/70">
+              <span className="w-20">{label}</span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={snow[key]}
+                onChange={(e) => setSnow({ ...snow, [key]: Number(e.target.value) })}
+                className="flex-1 accent-amber-400"
+              />
+              <span className="font-mono normal-case tracking-normal w-8 text-right">{snow[key]}</span>
+            </label>
+          ))}
+          <p className="normal-case tracking-normal text-amber-100/40">
+            Snow settles on the tree while it stands and blows away when it scatters.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnowPanel;
@@ -1,113 +1,133 @@
-import React, { useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { getScatterPosition } from '../utils/math';
+import { formationTopper } from '../utils/formations';
+import { createMorphBuffers, retargetMorph, sampleMorph } from '../utils/morph';
+import { ThemeMixer, themeSlot } from '../utils/themes';
+import { TreeProfile } from '../utils/treeProfile';
+import { AudioLevels, MorphState, TopperConfig } from '../types';
 
 interface StarTopperProps {
-  animationProgress: React.MutableRefObject<number>;
+  topper: TopperConfig;
+  seed: number;
+  morph: React.MutableRefObject<MorphState>;
+  audio: React.MutableRefObject<AudioLevels>;
+  // The star sits on this silhouette's tip
+  profile: TreeProfile;
+  // Active theme; recolours the star, its rays and its light
+  theme?: ThemeMixer;
 }
 
-const StarTopper: React.FC<StarTopperProps> = ({ animationProgress }) => {
+const tempPoint = [0, 0, 0];
+
+const StarTopper: React.FC<StarTopperProps> = ({ topper, seed, morph, audio, profile, theme }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
   
-  // Pre-calculate positions
-  const { posScatter, posTree } = useMemo(() => {
-    // Tree top is roughly at y=6 based on Foliage settings.
-    // Adjusted height for smaller scale to sit nicely on tip.
-    return {
-      posTree: new THREE.Vector3(0, 6.8, 0),
-      posScatter: new THREE.Vector3(...getScatterPosition(20))
-    };
-  }, []);
+  // Where the star flies from / to; re-targeted whenever the formation changes. Its seed
+  // of 1 makes it the last to land in the staggered transitions, crowning the shape.
+  const flight = useMemo(() => {
+    const target = morph.current.target;
+    return createMorphBuffers(target, Float32Array.from(formationTopper(target, seed, profile)), new Float32Array([1]));
+  }, [seed, morph, profile]);
+
+  // Shared by every spike, so the theme recolours the whole star at once
+  const gold = useMemo(
+    () => new THREE.MeshStandardMaterial({
+      color: topper.color,
+      emissive: topper.color,
+      emissiveIntensity: topper.emissiveIntensity,
+      toneMapped: false,
+      roughness: 0.1,
+      metalness: 1
+    }),
+    [topper.color, topper.emissiveIntensity]
+  );
+  const rays = useMemo(
+    () => new THREE.MeshStandardMaterial({ color: '#FFFDD0', emissive: '#FFFDD0', emissiveIntensity: 2, toneMapped: false }),
+    []
+  );
+  useEffect(() => () => gold.dispose(), [gold]);
+  useEffect(() => () => rays.dispose(), [rays]);
 
   useFrame((state) => {
     if (!groupRef.current) return;
     
-    const progress = animationProgress.current;
-    // Easing: easeInOutCubic
-    const t = progress < 0.5 
-        ? 4 * progress * progress * progress 
-        : 1 - Math.pow(-2 * progress + 2, 3) / 2;
+    const { target, progress, order, transition } = morph.current;
+
+    if (target !== flight.target) {
+      // Continue from wherever the star is right now
+      retargetMorph(flight, target, Float32Array.from(formationTopper(target, seed, profile)), transition);
+    }
+    flight.progress = progress;
 
-    // Interpolate Position
-    groupRef.current.position.lerpVectors(posScatter, posTree, t);
+    // Follow the transition like every other element
+    sampleMorph(flight, 0, tempPoint);
+    groupRef.current.position.fromArray(tempPoint);
 
     // Rotation Animation
     const time = state.clock.elapsedTime;
-    // Spin fast when scattered, slow and majestic when on tree
-    const spinSpeed = THREE.MathUtils.lerp(2.0, 0.5, t);
+    // Spin fast when scattered, slow and majestic in a shape
+    const spinSpeed = THREE.MathUtils.lerp(2.0, 0.5, order);
     groupRef.current.rotation.y = time * spinSpeed;
-    groupRef.current.rotation.z = Math.sin(time * 0.5) * 0.1 * (1 - t); // Wobbly when scattered
+    groupRef.current.rotation.z = Math.sin(time * 0.5) * 0.1 * (1 - order); // Wobbly when scattered
 
     // Scale Animation (Pop effect on arrival)
     // Simple pulse
     const pulse = 1 + Math.sin(time * 2) * 0.05;
     // Reduced max scale from 1.2 to 0.65 to fit better
-    const baseScale = THREE.MathUtils.lerp(0.2, 0.65, t);
+    const baseScale = THREE.MathUtils.lerp(0.2, 0.65, order);
     groupRef.current.scale.setScalar(baseScale * pulse);
-  });
 
-  const goldMaterial = (
-    <meshStandardMaterial 
-      color="#FFD700" 
-      emissive="#FFD700"
-      emissiveIntensity={2.5}
-      toneMapped={false}
-      roughness={0.1}
-      metalness={1}
-    />
-  );
+    // Music: the star's light breathes with the bass and flares on every beat
+    if (lightRef.current) {
+      const { bass, beat } = audio.current;
+      lightRef.current.intensity = topper.lightIntensity * (1 + bass * 1.5 + beat * 2);
+    }
+
+    if (theme) {
+      theme.copy(themeSlot.topper, gold.color);
+      gold.emissive.copy(gold.color);
+      theme.copy(themeSlot.topperRays, rays.color);
+      rays.emissive.copy(rays.color);
+      if (lightRef.current) theme.copy(themeSlot.topperLight, lightRef.current.color);
+    }
+  });
 
   return (
     <group ref={groupRef}>
       {/* Central Light Source */}
-      <pointLight intensity={10} distance={15} decay={2} color="#ffebb8" />
+      <pointLight ref={lightRef} intensity={topper.lightIntensity} distance={15} decay={2} color={topper.lightColor} />
 
       {/* Composite Geometry for a 3D "North Star" shape */}
       
       {/* 1. Vertical Spike */}
-      <mesh scale={[0.3, 2.5, 0.3]}>
+      <mesh scale={[0.3, 2.5, 0.3]} material={gold}>
         <octahedronGeometry args={[1, 0]} />
-        {goldMaterial}
       </mesh>
 
       {/* 2. Horizontal X Spike */}
-      <mesh scale={[2.5, 0.3, 0.3]}>
+      <mesh scale={[2.5, 0.3, 0.3]} material={gold}>
         <octahedronGeometry args={[1, 0]} />
-        {goldMaterial}
       </mesh>
 
       {/* 3. Horizontal Z Spike */}
-      <mesh scale={[0.3, 0.3, 2.5]}>
+      <mesh scale={[0.3, 0.3, 2.5]} material={gold}>
         <octahedronGeometry args={[1, 0]} />
-        {goldMaterial}
       </mesh>
 
       {/* 4. Central Core Mass */}
-      <mesh scale={[0.8, 0.8, 0.8]}>
+      <mesh scale={[0.8, 0.8, 0.8]} material={gold}>
         <octahedronGeometry args={[1, 0]} />
-        {goldMaterial}
       </mesh>
 
       {/* 5. Diagonal Rays (Smaller) */}
       <group rotation={[0, Math.PI / 4, 0]}>
-         <mesh scale={[1.5, 0.2, 0.2]}>
+         <mesh scale={[1.5, 0.2, 0.2]} material={rays}>
             <octahedronGeometry args={[1, 0]} />
-            <meshStandardMaterial 
-              color="#FFFDD0" 
-              emissive="#FFFDD0" 
-              emissiveIntensity={2} 
-              toneMapped={false} 
-            />
          </mesh>
-         <mesh scale={[0.2, 0.2, 1.5]}>
+         <mesh scale={[0.2, 0.2, 1.5]} material={rays}>
             <octahedronGeometry args={[1, 0]} />
-            <meshStandardMaterial 
-              color="#FFFDD0" 
-              emissive="#FFFDD0" 
-              emissiveIntensity={2} 
-              toneMapped={false} 
-            />
          </mesh>
       </group>
     </group>
@@ -0,0 +1,27 @@
+import React, { useLayoutEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { ThemeColors, ThemeMixer, writeThemeCss } from '../utils/themes';
+
+interface ThemeDriverProps {
+  mixer: ThemeMixer;
+  // Target colours of the active theme (resolveThemeColors)
+  colors: ThemeColors;
+}
+
+const FADE_SECONDS = 1.5;
+
+// Renders nothing; crossfades the mixer towards the active theme on the render clock and
+// keeps the UI accent variables in step with the scene
+const ThemeDriver: React.FC<ThemeDriverProps> = ({ mixer, colors }) => {
+  useLayoutEffect(() => {
+    mixer.fadeTo(colors, FADE_SECONDS);
+  }, [mixer, colors]);
+
+  useFrame((_, delta) => {
+    if (mixer.step(delta)) writeThemeCss(mixer, document.documentElement);
+  }, -1);
+
+  return null;
+};
+
+export default ThemeDriver;
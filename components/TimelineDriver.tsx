@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { FormationId } from '../types';
+import { TimelineOutput, TimelinePlayer } from '../utils/timeline';
+
+interface TimelineDriverProps {
+  timeline: TimelinePlayer | null;
+  output: React.MutableRefObject<TimelineOutput>;
+  // Switch tracks are reported up so the app state (picker, URL) follows the show
+  onFormationChange?: (formation: FormationId) => void;
+  onPaletteChange?: (palette: string) => void;
+  onShotChange?: (shot: string) => void;
+}
+
+// Renders nothing; advances the timeline on the render clock, before anything else reads it
+const TimelineDriver: React.FC<TimelineDriverProps> = ({ timeline, output, onFormationChange, onPaletteChange, onShotChange }) => {
+  const emitted = useRef<{ formation?: FormationId; palette?: string; shot?: string }>({});
+
+  // A new show re-announces its switches
+  useEffect(() => {
+    emitted.current = {};
+    if (!timeline) output.current = { frame: null, moved: false };
+  }, [timeline, output]);
+
+  useFrame((_, delta) => {
+    if (!timeline) return;
+    const moved = timeline.update(delta);
+    const frame = timeline.sample();
+    output.current.frame = frame;
+    output.current.moved = moved;
+
+    if (frame.formation !== undefined && frame.formation !== emitted.current.formation) {
+      emitted.current.formation = frame.formation;
+      onFormationChange?.(frame.formation);
+    }
+    if (frame.palette !== undefined && frame.palette !== emitted.current.palette) {
+      emitted.current.palette = frame.palette;
+      onPaletteChange?.(frame.palette);
+    }
+    if (frame.shot !== undefined && frame.shot !== emitted.current.shot) {
+      emitted.current.shot = frame.shot;
+      onShotChange?.(frame.shot);
+    }
+  }, -1);
+
+  return null;
+};
+
+export default TimelineDriver;
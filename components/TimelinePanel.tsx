@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LocaleId, Timeline } from '../types';
+import { MessageKey, translate } from '../utils/i18n';
+import { TimelinePlayer, parseTimeline } from '../utils/timeline';
+
+interface TimelinePanelProps {
+  player: TimelinePlayer | null;
+  onLoad: (timeline: Timeline) => void;
+  onEject: () => void;
+  // Shows that ship with the app, by label
+  bundled: { label: string; url: string }[];
+  onLoadUrl: (url: string) => void;
+  error?: string | null;
+  locale: LocaleId;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ player, onLoad, onEject, bundled, onLoadUrl, error, locale }) => {
+  const t = (key: MessageKey) => translate(locale, key);
+  const [open, setOpen] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  // The player runs on the render clock; poll it for the scrubber
+  const [, setTick] = useState(0);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!player) return;
+    const interval = setInterval(() => setTick((tick) => tick + 1), 200);
+    return () => clearInterval(interval);
+  }, [player]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onLoad(parseTimeline(JSON.parse(await file.text())));
+      setFileError(null);
+    } catch (err) {
+      setFileError((err as Error).message);
+    }
+  };
+
+  const shownError = fileError ?? error;
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        {player?.isPlaying() ? `▶ ${t('show')}` : t('show')}
+      </button>
+
+      {open && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase flex flex-col gap-3">
+          {player ? (
+            <>
+              <p className="font-serif text-sm normal-case tracking-normal truncate">{player.timeline.name}</p>
+              <input
+                type="range"
+                min={0}
+                max={player.timeline.duration}
+                step={0.1}
+                value={player.getTime()}
+                onChange={(e) => player.seek(Number(e.target.value))}
+                className="w-full accent-amber-400"
+              />
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => (player.isPlaying() ? player.pause() : player.play())}
+                  className="px-3 py-1 rounded-full border border-amber-500/50 hover:border-amber-400"
+                >
+                  {player.isPlaying() ? t('pause') : t('play')}
+                </button>
+                <span className="font-mono normal-case tracking-normal text-amber-100/60">
+                  {formatTime(player.getTime())} / {formatTime(player.timeline.duration)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-amber-100/70">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={player.isLooping()}
+                    onChange={(e) => player.setLoop(e.target.checked)}
+                    className="accent-amber-400"
+                  />
+                  {t('loop')}
+                </label>
+                <button onClick={onEject} className="hover:text-amber-100">{t('eject')}</button>
+              </div>
+            </>
+          ) : (
+            <p className="normal-case tracking-normal text-amber-100/60">{t('showHint')}</p>
+          )}
+
+          <div className="h-px bg-amber-500/20" />
+          <div className="flex flex-wrap gap-2 text-amber-100/70">
+            {bundled.map((show) => (
+              <button key={show.url} onClick={() => onLoadUrl(show.url)} className="hover:text-amber-100">
+                {show.label}
+              </button>
+            ))}
+            <button onClick={() => fileRef.current?.click()} className="hover:text-amber-100">
+              {t('loadJson')}
+            </button>
+            <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+          </div>
+
+          {shownError && <p className="normal-case tracking-normal text-red-400/80 font-mono">{shownError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePanel;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { LocaleId, TransitionSettings } from '../types';
+import { MessageKey, transitionStyleLabel, translate } from '../utils/i18n';
+import { MAX_TRANSITION_DURATION, MIN_TRANSITION_DURATION, listTransitionStyles } from '../utils/transitions';
+
+interface TransitionPanelProps {
+  transition: TransitionSettings;
+  setTransition: (transition: TransitionSettings) => void;
+  locale: LocaleId;
+}
+
+const TransitionPanel: React.FC<TransitionPanelProps> = ({ transition, setTransition, locale }) => {
+  const t = (key: MessageKey) => translate(locale, key);
+  const [open, setOpen] = useState(false);
+
+  const pill = (selected: boolean) => `
+    px-3 py-1 rounded-full border text-xs font-serif tracking-widest uppercase transition-all duration-300
+    ${selected
+      ? 'border-amber-400 text-amber-100 bg-emerald-900/60 shadow-[0_0_12px_rgb(var(--ui-glow)/0.3)]'
+      : 'border-amber-500/30 text-amber-100/60 hover:border-amber-400/70 hover:text-amber-100'}
+  `;
+
+  return (
+    <div className="flex flex-col items-start pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-5 py-2 rounded-full border border-amber-500/50 backdrop-blur-md text-amber-100 font-serif text-sm tracking-widest uppercase hover:border-amber-400 hover:shadow-[0_0_20px_rgb(var(--ui-glow)/0.3)] transition-all duration-300"
+      >
+        {t('transition')}
+      </button>
+
+      {open && (
+        <div className="mt-3 w-72 p-5 rounded-2xl border border-amber-500/30 bg-black/60 backdrop-blur-md text-amber-100 text-xs tracking-widest uppercase flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2">
+            {listTransitionStyles().map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setTransition({ ...transition, style: option.id })}
+                className={pill(option.id === transition.style)}
+              >
+                {transitionStyleLabel(locale, option.id)}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-3 text-amber-100/70">
+            <span className="w-20">{t('duration')}</span>
+            <input
+              type="range"
+              min={MIN_TRANSITION_DURATION}
+              max={MAX_TRANSITION_DURATION}
+              step={0.1}
+              value={transition.duration}
+              onChange={(e) => setTransition({ ...transition, duration: Number(e.target.value) })}
+              className="flex-1 accent-amber-400"
+            />
+            <span className="font-mono normal-case tracking-normal w-8 text-right">{transition.duration.toFixed(1)}s</span>
+          </label>
+          <p className="normal-case tracking-normal text-amber-100/40">
+            {t('transitionHint')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransitionPanel;
@@ -0,0 +1,77 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MorphState, TreeState } from '../types';
+import { FLOOR_Y } from '../utils/giftPile';
+import { ThemeMixer, themeSlot } from '../utils/themes';
+
+interface TreeSkirtProps {
+  radius: number;
+  color: string;
+  trimColor: string;
+  morph: React.MutableRefObject<MorphState>;
+  // Active theme; recolours the velvet and the trim
+  theme?: ThemeMixer;
+}
+
+const INNER_RADIUS = 0.5;
+const FOLDS = 14;
+const FOLD_DEPTH = 0.07;
+const TRIM_THICKNESS = 0.12;
+
+// A ring of cloth with soft radial folds that deepen towards the hem
+const createSkirtGeometry = (radius: number) => {
+  const geo = new THREE.RingGeometry(INNER_RADIUS, radius, 128, 6);
+  const position = geo.attributes.position;
+  for (let i = 0; i < position.count; i++) {
+    const x = position.getX(i);
+    const y = position.getY(i);
+    const r = Math.hypot(x, y);
+    position.setZ(i, Math.sin(Math.atan2(y, x) * FOLDS) * FOLD_DEPTH * (r / radius));
+  }
+  geo.rotateX(-Math.PI / 2);
+  geo.computeVertexNormals();
+  return geo;
+};
+
+// Spread under the tree only while the tree formation stands; it folds away otherwise
+const TreeSkirt: React.FC<TreeSkirtProps> = ({ radius, color, trimColor, morph, theme }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const velvetRef = useRef<THREE.MeshPhysicalMaterial>(null);
+  const trimRef = useRef<THREE.MeshStandardMaterial>(null);
+  const spread = useRef(morph.current.target === TreeState.TREE_SHAPE ? 1 : 0);
+  const geometry = useMemo(() => createSkirtGeometry(radius), [radius]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((_, delta) => {
+    const goal = morph.current.target === TreeState.TREE_SHAPE ? 1 : 0;
+    spread.current += (goal - spread.current) * Math.min(1, delta * 2);
+    if (groupRef.current) {
+      const s = Math.max(spread.current, 0.001);
+      groupRef.current.scale.set(s, 1, s);
+      groupRef.current.visible = spread.current > 0.01;
+    }
+
+    if (theme && velvetRef.current && trimRef.current) {
+      theme.copy(themeSlot.skirt, velvetRef.current.color);
+      theme.copy(themeSlot.skirtTrim, trimRef.current.color);
+      velvetRef.current.sheenColor.copy(trimRef.current.color);
+    }
+  });
+
+  return (
+    <group ref={groupRef} position={[0, FLOOR_Y + 0.03, 0]}>
+      <mesh geometry={geometry} receiveShadow>
+        {/* Velvet: dull base with a bright sheen at grazing angles */}
+        <meshPhysicalMaterial ref={velvetRef} color={color} roughness={0.9} sheen={1} sheenRoughness={0.4} sheenColor={trimColor} side={THREE.DoubleSide} />
+      </mesh>
+      <mesh rotation={[Math.PI / 2, 0, 0]} receiveShadow>
+        <torusGeometry args={[radius, TRIM_THICKNESS, 10, 128]} />
+        {/* Fluffy trim */}
+        <meshStandardMaterial ref={trimRef} color={trimColor} roughness={1} />
+      </mesh>
+    </group>
+  );
+};
+
+export default TreeSkirt;
@@ -0,0 +1,10 @@
+// Library entry (npm run build:lib): the scene as a drop-in React component, plus what
+// a host needs to build or load its config
+export { default as ChristmasTree } from './components/ChristmasTree';
+export type { ChristmasTreeHandle, ChristmasTreeProps } from './components/ChristmasTree';
+export { TreeState } from './types';
+export type { FormationId, TreeConfig } from './types';
+export { DEFAULT_TREE_CONFIG, TreeConfigError, loadTreeConfig, parseTreeConfig } from './utils/config';
+export { DEFAULT_THEME, listThemes } from './utils/themes';
+export type { Theme } from './utils/themes';
+export type { StillOptions } from './utils/capture';
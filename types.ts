@@ -1,13 +1,363 @@
+// The two classic formations. Any number of others can be registered (utils/formations.ts).
 export enum TreeState {
   SCATTERED = 'SCATTERED',
   TREE_SHAPE = 'TREE_SHAPE'
 }
 
+export type FormationId = TreeState | string;
+
+// Shared, mutable animation state every component reads in useFrame
+export interface MorphState {
+  target: FormationId; // Formation everything is heading to
+  progress: number; // 0 → 1 from wherever elements were when `target` was set
+  order: number; // 0 = loose floating cloud, 1 = crisp structured shape
+  pulse: number; // Short outward burst (e.g. on a music beat); decays back to 0 on its own
+  transition: TransitionSettings; // How the move to `target` plays out
+}
+
+// How elements travel to a new formation (utils/transitions.ts)
+export type TransitionStyle = 'smooth' | 'bottom-up' | 'spiral-in' | 'explosive' | 'spring';
+
+export interface TransitionSettings {
+  style: TransitionStyle;
+  duration: number; // Seconds from the toggle until the last element arrives
+}
+
+// Music analysis for the audio-reactive mode (utils/audio.ts), refreshed every frame
+export interface AudioLevels {
+  bass: number; // 0..1 band energies
+  mid: number;
+  treble: number;
+  beat: number; // Jumps to 1 on a detected beat and decays towards 0
+}
+
+// Per-instance look of an ornament; its positions live in per-formation buffers
 export interface PositionData {
-  treePosition: [number, number, number];
-  scatterPosition: [number, number, number];
   rotation: [number, number, number];
   scale: number;
   speed: number; // For floating animation
   phase: number; // For floating offset
 }
+
+// Orbit camera placement: eye position and the point it looks at
+export interface CameraView {
+  position: Vec3;
+  target: Vec3;
+}
+
+// Free orbit (the user drives) or director (named shots fly the camera, utils/cameraShots.ts)
+export type CameraMode = 'orbit' | 'director';
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+// What a quality tier scales (utils/quality.ts)
+export interface QualitySettings {
+  particleScale: number; // Multiplies the configured foliage count
+  dpr: [number, number]; // Canvas device pixel ratio range
+  ribbonSegmentScale: number; // Multiplies each ribbon's segment count
+  stars: number; // Background star field size
+  snowScale: number; // Multiplies the configured snowflake count
+  shadowMapSize: number; // Spotlight shadow resolution; 0 disables shadows
+  reflections: boolean; // Mirror pass for a reflective floor
+  bloom: boolean;
+  mipmapBlur: boolean; // Wider, smoother (and costlier) bloom
+  vignette: boolean;
+}
+
+// Everything a shared link restores (see utils/urlState.ts)
+export interface ViewState {
+  formation: FormationId;
+  seed: number;
+  palette: string; // Named theme (utils/themes.ts)
+  camera: CameraView | null; // null = default framing
+  greeting: string; // Optional message shown under the title; '' for none
+}
+
+// --- Scripted shows (timeline JSON, see utils/timeline.ts) ---
+
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'smoothstep' | 'easeInOutCubic';
+
+// At `at` seconds, start moving towards `value`, arriving `duration` seconds later (0 = cut)
+export interface Keyframe<T> {
+  at: number;
+  value: T;
+  duration: number;
+  easing: EasingName;
+}
+
+export interface TimelineTracks {
+  formation?: Keyframe<FormationId>[]; // Switches; the morph itself keeps its own pace
+  palette?: Keyframe<string>[]; // Switches
+  shot?: Keyframe<string>[]; // Switches to a director shot (utils/cameraShots.ts)
+  camera?: Keyframe<CameraView>[];
+  ambient?: Keyframe<number>[]; // Light intensities as multipliers of the configured ones
+  spot?: Keyframe<number>[];
+  points?: Keyframe<number>[];
+  bloom?: Keyframe<number>[]; // Absolute bloom intensity
+  rotationSpeed?: Keyframe<number>[]; // Tree spin in radians per second
+}
+
+export interface Timeline {
+  name: string;
+  duration: number; // Seconds; defaults to where the last keyframe settles
+  loop: boolean;
+  tracks: TimelineTracks;
+}
+
+// Every track's value at one moment; tracks the timeline doesn't define are left out
+export interface TimelineFrame {
+  formation?: FormationId;
+  palette?: string;
+  shot?: string;
+  camera?: CameraView;
+  ambient?: number;
+  spot?: number;
+  points?: number;
+  bloom?: number;
+  rotationSpeed?: number;
+}
+
+// A visitor's ornament hung on the tree with a personal message
+export interface GuestbookEntry {
+  id: string;
+  name: string;
+  message: string;
+  createdAt: string; // ISO timestamp
+  position: Vec3; // Spot on the tree cone surface (tree group space)
+}
+
+// An ornament hung by hand in the decoration editor (utils/decorations.ts)
+export interface DecorationItem {
+  id: string;
+  type: OrnamentType;
+  color: string;
+  scale: number; // Like an ornament group's scaleBase
+  position: Vec3; // Spot on the classic cone's ornament surface, like a guestbook entry
+}
+
+// A hand-made layout; while it has items the tree shows it instead of the procedural groups
+export interface DecorationLayout {
+  version: 1;
+  items: DecorationItem[];
+}
+
+// What a click on an ornament reports
+export interface OrnamentInstanceInfo extends PositionData {
+  groupId: string;
+  index: number;
+  type: OrnamentType;
+  color: string;
+  position: [number, number, number]; // Where it hung when clicked (tree group space)
+}
+
+export type Vec3 = [number, number, number];
+
+export type OrnamentType = 'SPHERE' | 'BOX' | 'DIAMOND';
+
+// --- Declarative scene configuration (loaded from JSON, see utils/config.ts) ---
+
+export interface FoliageConfig {
+  count: number;
+}
+
+export interface OrnamentGroupConfig {
+  id: string; // Stable name, also used as the group's random stream key
+  type: OrnamentType;
+  count: number;
+  color: string;
+  metalness: number;
+  roughness: number;
+  scaleBase: number;
+  emissive?: string;
+  emissiveIntensity?: number;
+}
+
+// Optional cloth look for a ribbon; plain ribbons are smooth metallic foil
+export type RibbonTexture = 'satin' | 'fabric';
+
+export interface RibbonConfig {
+  id: string;
+  color: string;
+  width: number;
+  segments: number;
+  radius: number; // Radius at the bottom of the spiral
+  turns: number;
+  yStart: number;
+  yEnd: number;
+  phase: number; // Start angle as a fraction of a full turn (0.5 = opposite side)
+  scatterRadius: number;
+  texture?: RibbonTexture;
+  tileLength: number; // World units of ribbon per texture repeat
+}
+
+// Light string animations (utils/lightPatterns.ts)
+export type LightPatternId = 'twinkle' | 'chase' | 'wave' | 'fade-by-height' | 'alternating' | 'sparkle';
+
+// A string of bulbs draped along a spiral, laid out like a ribbon
+export interface LightStringConfig {
+  id: string;
+  bulbs: number;
+  radius: number; // Radius at the bottom of the spiral
+  turns: number;
+  yStart: number;
+  yEnd: number;
+  phase: number; // Start angle as a fraction of a full turn
+  scatterRadius: number;
+  colors: string[]; // Bulb colours, repeating along the string
+  bulbSize: number;
+}
+
+export interface LightStringsConfig {
+  pattern: LightPatternId; // Initial pattern; the lights panel can switch it
+  speed: number; // Multiplies pattern time
+  intensity: number; // Glow of a fully lit bulb; above 1 so the bloom pass picks it up
+  strings: LightStringConfig[];
+}
+
+export interface TopperConfig {
+  color: string;
+  emissiveIntensity: number;
+  lightIntensity: number;
+  lightColor: string;
+}
+
+export interface PointLightConfig {
+  position: Vec3;
+  intensity: number;
+  color: string;
+}
+
+export interface SpotLightConfig extends PointLightConfig {
+  angle: number;
+  penumbra: number;
+  shadowRadius: number; // Shadow edge softness (PCF filter radius)
+  shadowBias: number;
+}
+
+export interface LightsConfig {
+  ambient: { intensity: number; color: string };
+  spot: SpotLightConfig;
+  points: PointLightConfig[];
+}
+
+export interface PostProcessingConfig {
+  bloom: { enabled: boolean; luminanceThreshold: number; intensity: number; radius: number };
+  vignette: { enabled: boolean; offset: number; darkness: number };
+}
+
+// Extra formations spelled out of text or an SVG logo (utils/shapeSampling.ts)
+interface ShapeFormationBase {
+  id: string;
+  label: string;
+  width?: number; // World-space width (default 14)
+  depth?: number; // Extrusion depth along z (default 1.5)
+  resolution?: number; // Raster size of the longest side in pixels (default 512)
+}
+
+export interface TextShapeConfig extends ShapeFormationBase {
+  kind: 'text';
+  text: string;
+  font?: string; // CSS font shorthand; web fonts are awaited before sampling
+}
+
+export interface SvgShapeConfig extends ShapeFormationBase {
+  kind: 'svg';
+  paths: string[]; // SVG path data (`d` attributes)
+  viewBox: [number, number, number, number];
+}
+
+export type ShapeFormationConfig = TextShapeConfig | SvgShapeConfig;
+
+// Tree silhouette (utils/treeProfile.ts): a named preset, or a hand-drawn curve
+export type TreeProfileId = 'classic' | 'tiered-fir' | 'slim-spruce' | 'spiral' | 'custom';
+
+export interface TreeProfileConfig {
+  preset: TreeProfileId;
+  height: number; // Foliage height from the base at y = -6
+  curve: number[]; // 'custom' only: radii from the base up to the tip, evenly spaced in height
+}
+
+// Falling snow (components/Snow.tsx) and the dusting it leaves on the tree
+export interface SnowConfig {
+  intensity: number; // 0 (off) .. 1 (heavy); scales the flakes falling and how fast they settle
+  density: number; // Flakes in the air at full intensity on the 'high' quality tier
+  windDirection: number; // Degrees around the vertical axis the wind blows towards (0 = +x)
+  windSpeed: number; // World units per second
+  fallSpeed: number;
+  flakeSize: number; // Point size multiplier, 1 = default
+  accumulation: number; // Seconds of full-intensity snowfall for a complete dusting; 0 = none settles
+  color: string;
+}
+
+// The pointer (or each finger) as a force on the foliage and ornaments (utils/forceField.ts)
+export type ForceFieldMode = 'off' | 'repel' | 'attract';
+
+export interface ForceFieldConfig {
+  mode: ForceFieldMode;
+  radius: number; // World units around the pointer's line of sight that feel the force
+  strength: number; // 0..2; 1 pushes a particle on the line of sight about one radius away
+}
+
+// Iframe embedding (utils/embed.ts)
+export interface EmbedConfig {
+  allowedOrigins: string[]; // Host pages that may send commands and receive events; "*" allows any
+}
+
+// Optional base scene under the tree (components/Ground.tsx)
+export type FloorFinish = 'reflective' | 'snowy';
+
+export interface GroundConfig {
+  enabled: boolean;
+  floor: FloorFinish;
+  floorColor: string;
+  floorRadius: number;
+  skirt: { enabled: boolean; radius: number; color: string; trimColor: string };
+  gifts: { count: number; colors: string[]; ribbonColors: string[] }; // Wrapping paper and ribbon/bow colours
+}
+
+export interface AudioConfig {
+  track?: string; // URL of a bundled track offered next to "drop a file"
+  trackLabel: string;
+  beatSensitivity: number; // How far bass must rise above its running average to count as a beat
+  pulseStrength: number; // Scale of the scatter pulse a beat triggers
+}
+
+// Interface languages with a message bundle (utils/i18n.ts)
+export type LocaleId = 'en-US' | 'zh-CN';
+
+// One string for every language, or one per locale
+export type LocalizedText = string | Partial<Record<LocaleId, string>>;
+
+// White-label overlay branding (utils/brand.ts); anything left out keeps the built-in text and fonts
+export interface BrandConfig {
+  title?: LocalizedText;
+  subtitle?: LocalizedText;
+  logo?: string; // Image URL shown above the title
+  titleFont?: string; // CSS font-family lists
+  bodyFont?: string;
+  fontStylesheet?: string; // URL of a stylesheet declaring the fonts (e.g. a web font service)
+  locale?: LocaleId; // Starting language instead of the browser's, until the visitor picks one
+}
+
+// Look of the guestbook ornaments (their count and positions come from the entries)
+export type GuestbookOrnamentConfig = Omit<OrnamentGroupConfig, 'id' | 'count'>;
+
+export interface TreeConfig {
+  foliage: FoliageConfig;
+  ornaments: OrnamentGroupConfig[];
+  ribbons: RibbonConfig[];
+  lightStrings: LightStringsConfig;
+  snow: SnowConfig;
+  ground: GroundConfig;
+  topper: TopperConfig;
+  lights: LightsConfig;
+  postProcessing: PostProcessingConfig;
+  shapes: ShapeFormationConfig[];
+  guestbook: GuestbookOrnamentConfig;
+  audio: AudioConfig;
+  profile: TreeProfileConfig;
+  brand: BrandConfig;
+  transition: TransitionSettings; // Starting transition; the UI can pick another per toggle
+  forceField: ForceFieldConfig;
+  embed: EmbedConfig;
+}
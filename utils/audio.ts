@@ -0,0 +1,127 @@
+import { AudioLevels } from '../types';
+
+// Frequency bands in Hz. Bass drives size and beats, mids the float, treble the sparkle.
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000]
+} as const;
+
+// Higher bands carry far less energy; lift them so all three use the 0..1 range
+const BAND_GAIN = { bass: 1.1, mid: 1.4, treble: 2.2 };
+
+const FFT_SIZE = 1024;
+const AVERAGE_WINDOW = 1.0; // Seconds of bass history a beat is compared against
+const MIN_BEAT_INTERVAL = 0.25; // Seconds; ~240 bpm is plenty
+const MIN_BEAT_LEVEL = 0.15; // Ignore "beats" in near silence
+const BEAT_DECAY = 8; // Per second
+
+export const createAudioLevels = (): AudioLevels => ({ bass: 0, mid: 0, treble: 0, beat: 0 });
+
+export interface AudioAnalyser {
+  // Start playing a dropped/picked file or a URL (e.g. the bundled track), looping
+  playFile: (file: File) => Promise<void>;
+  playUrl: (url: string) => Promise<void>;
+  pause: () => void;
+  resume: () => Promise<void>;
+  isPlaying: () => boolean;
+  // Refresh `levels` from the current spectrum. Returns true on the frame a beat lands.
+  sample: (levels: AudioLevels, delta: number) => boolean;
+  // Bass must exceed its running average by this factor to count as a beat
+  beatSensitivity: number;
+  dispose: () => void;
+}
+
+// Web Audio pipeline: <audio> element → AnalyserNode → speakers. The AudioContext is
+// created on first play, since browsers only allow starting one from a user gesture.
+export const createAudioAnalyser = (beatSensitivity = 1.4): AudioAnalyser => {
+  const element = new Audio();
+  element.loop = true;
+  element.crossOrigin = 'anonymous';
+
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let spectrum = new Uint8Array(0);
+  let objectUrl: string | null = null;
+
+  // Beat detection state
+  let bassAverage = 0;
+  let sinceBeat = Infinity;
+
+  const ensureGraph = async () => {
+    if (!context) {
+      context = new AudioContext();
+      analyser = context.createAnalyser();
+      analyser.fftSize = FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.75;
+      spectrum = new Uint8Array(analyser.frequencyBinCount);
+      context.createMediaElementSource(element).connect(analyser);
+      analyser.connect(context.destination);
+    }
+    if (context.state === 'suspended') await context.resume();
+  };
+
+  const play = async (src: string) => {
+    await ensureGraph();
+    element.src = src;
+    bassAverage = 0;
+    await element.play();
+  };
+
+  // Mean of the FFT bins inside [low, high) Hz, scaled to 0..1
+  const bandLevel = ([low, high]: readonly [number, number], gain: number) => {
+    if (!context || spectrum.length === 0) return 0;
+    const binWidth = context.sampleRate / FFT_SIZE;
+    const start = Math.max(0, Math.floor(low / binWidth));
+    const end = Math.min(spectrum.length, Math.ceil(high / binWidth));
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += spectrum[i];
+    return Math.min(1, (sum / Math.max(1, end - start) / 255) * gain);
+  };
+
+  return {
+    beatSensitivity,
+    playFile(file) {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      objectUrl = URL.createObjectURL(file);
+      return play(objectUrl);
+    },
+    playUrl: (url) => play(url),
+    pause: () => element.pause(),
+    async resume() {
+      if (!element.src) return;
+      await ensureGraph();
+      await element.play();
+    },
+    isPlaying: () => !element.paused,
+    sample(levels, delta) {
+      if (analyser) analyser.getByteFrequencyData(spectrum);
+      levels.bass = bandLevel(BANDS.bass, BAND_GAIN.bass);
+      levels.mid = bandLevel(BANDS.mid, BAND_GAIN.mid);
+      levels.treble = bandLevel(BANDS.treble, BAND_GAIN.treble);
+
+      // Energy beat detection: a bass spike well above its recent average
+      sinceBeat += delta;
+      const beat =
+        !element.paused &&
+        sinceBeat > MIN_BEAT_INTERVAL &&
+        levels.bass > MIN_BEAT_LEVEL &&
+        levels.bass > bassAverage * this.beatSensitivity;
+      bassAverage += (levels.bass - bassAverage) * Math.min(1, delta / AVERAGE_WINDOW);
+
+      if (beat) {
+        sinceBeat = 0;
+        levels.beat = 1;
+      } else {
+        levels.beat *= Math.exp(-delta * BEAT_DECAY);
+      }
+      return beat;
+    },
+    dispose() {
+      element.pause();
+      element.removeAttribute('src');
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      context?.close();
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import { BrandConfig } from '../types';
+
+const STYLESHEET_ID = 'brand-fonts';
+
+// Point the overlay's font variables (index.html) at the brand's fonts, loading their
+// stylesheet first. Fields the brand leaves out go back to the built-in serif.
+export const applyBrandFonts = (brand: BrandConfig, root: HTMLElement = document.documentElement) => {
+  let link = document.getElementById(STYLESHEET_ID) as HTMLLinkElement | null;
+  if (brand.fontStylesheet) {
+    if (!link) {
+      link = document.createElement('link');
+      link.id = STYLESHEET_ID;
+      link.rel = 'stylesheet';
+      document.head.appendChild(link);
+    }
+    if (link.getAttribute('href') !== brand.fontStylesheet) link.href = brand.fontStylesheet;
+  } else {
+    link?.remove();
+  }
+
+  if (brand.bodyFont) root.style.setProperty('--font-body', brand.bodyFont);
+  else root.style.removeProperty('--font-body');
+  if (brand.titleFont) root.style.setProperty('--font-title', brand.titleFont);
+  else root.style.removeProperty('--font-title');
+};
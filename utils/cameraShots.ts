@@ -0,0 +1,150 @@
+import * as THREE from 'three';
+import { EasingName, Vec3 } from '../types';
+import { EASINGS } from './timeline';
+
+// OrbitControls limits that apply while the user orbits freely from a shot
+export interface OrbitLimits {
+  minDistance: number;
+  maxDistance: number;
+  minPolarAngle: number;
+  maxPolarAngle: number;
+  enablePan: boolean;
+}
+
+// A named camera move: the eye travels a spline while looking along a second spline
+export interface CameraShot {
+  id: string;
+  label: string;
+  path: Vec3[]; // Eye spline control points (a single point holds still)
+  lookAt: Vec3[]; // Look-at spline control points, travelled in step with `path`
+  closed?: boolean; // Join the path's ends (orbits)
+  duration: number; // Seconds for one pass along the path
+  repeat: 'once' | 'loop' | 'pingpong';
+  easing: EasingName; // Pacing of a pass (loops are always linear)
+  blend: number; // Seconds to blend in from wherever the camera was
+  fov: number;
+  controls: OrbitLimits;
+}
+
+// Where the tree's star sits (see the tree formation's topper)
+const STAR: Vec3 = [0, 6.8, 0];
+
+const DEFAULT_LIMITS: OrbitLimits = {
+  minDistance: 10,
+  maxDistance: 40,
+  minPolarAngle: Math.PI / 4,
+  maxPolarAngle: Math.PI / 1.8,
+  enablePan: false
+};
+
+// Three turns around the tree, descending from above the star to the foot of the tree
+const spiralPath = (): Vec3[] => {
+  const points: Vec3[] = [];
+  const steps = 24;
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const angle = t * Math.PI * 2 * 3;
+    const radius = THREE.MathUtils.lerp(9, 17, t);
+    points.push([Math.sin(angle) * radius, THREE.MathUtils.lerp(13, -3, t), Math.cos(angle) * radius]);
+  }
+  return points;
+};
+
+const SHOTS: CameraShot[] = [
+  {
+    id: 'hero',
+    label: 'Hero Wide',
+    path: [[0, 4, 34], [0, 2, 25]],
+    lookAt: [[0, 0, 0]],
+    duration: 14,
+    repeat: 'once',
+    easing: 'easeInOutCubic',
+    blend: 2.5,
+    fov: 45,
+    controls: DEFAULT_LIMITS
+  },
+  {
+    id: 'star',
+    label: 'Star Close-up',
+    path: [[5, 7.6, 0], [0, 8, 5], [-5, 7.6, 0], [0, 7.2, -5]],
+    lookAt: [STAR],
+    closed: true,
+    duration: 24,
+    repeat: 'loop',
+    easing: 'linear',
+    blend: 3,
+    fov: 40,
+    controls: { minDistance: 3, maxDistance: 14, minPolarAngle: Math.PI / 6, maxPolarAngle: Math.PI / 1.6, enablePan: false }
+  },
+  {
+    id: 'gifts',
+    label: 'Low Angle',
+    path: [[7, -5.5, 13], [0, -5.8, 15], [-7, -5.5, 13]],
+    lookAt: [[1, 3, 0], [0, 3.5, 0], [-1, 3, 0]],
+    duration: 16,
+    repeat: 'pingpong',
+    easing: 'easeInOut',
+    blend: 3,
+    fov: 50,
+    // Polar angles past 90° look up at the tree from below its middle
+    controls: { minDistance: 8, maxDistance: 30, minPolarAngle: Math.PI / 2.4, maxPolarAngle: Math.PI / 1.45, enablePan: false }
+  },
+  {
+    id: 'spiral',
+    label: 'Spiral Fly-down',
+    path: spiralPath(),
+    lookAt: [STAR, [0, 3, 0], [0, -2, 0]],
+    duration: 22,
+    repeat: 'once',
+    easing: 'easeInOut',
+    blend: 2.5,
+    fov: 45,
+    controls: { minDistance: 6, maxDistance: 40, minPolarAngle: 0.2, maxPolarAngle: Math.PI / 1.5, enablePan: false }
+  }
+];
+
+export const DEFAULT_SHOT_ID = 'hero';
+
+export const listShots = (): CameraShot[] => SHOTS;
+
+// Unknown ids fall back to the hero shot
+export const getShot = (id: string): CameraShot => SHOTS.find((shot) => shot.id === id) ?? SHOTS[0];
+
+export const hasShot = (id: string) => SHOTS.some((shot) => shot.id === id);
+
+export interface ShotSampler {
+  shot: CameraShot;
+  // Eye position and look-at point `time` seconds into the shot
+  sample: (time: number, position: THREE.Vector3, target: THREE.Vector3) => void;
+}
+
+const toCurve = (points: Vec3[], closed = false) =>
+  new THREE.CatmullRomCurve3(points.map((p) => new THREE.Vector3(...p)), closed, 'centripetal');
+
+export const createShotSampler = (shot: CameraShot): ShotSampler => {
+  // Curves need two points; a single point is a still position
+  const path = shot.path.length > 1 ? toCurve(shot.path, shot.closed) : null;
+  const lookAt = shot.lookAt.length > 1 ? toCurve(shot.lookAt) : null;
+  const ease = EASINGS[shot.easing];
+
+  return {
+    shot,
+    sample(time, position, target) {
+      const pass = shot.duration > 0 ? time / shot.duration : 1;
+      let u: number;
+      if (shot.repeat === 'loop') {
+        u = pass % 1;
+      } else if (shot.repeat === 'pingpong') {
+        const phase = pass % 2;
+        u = ease(phase <= 1 ? phase : 2 - phase);
+      } else {
+        u = ease(Math.min(pass, 1));
+      }
+      // Arc-length parameterisation keeps the speed even between control points
+      if (path) path.getPointAt(u, position);
+      else position.set(...shot.path[0]);
+      if (lookAt) lookAt.getPointAt(u, target);
+      else target.set(...shot.lookAt[0]);
+    }
+  };
+};
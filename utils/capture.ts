@@ -0,0 +1,59 @@
+// Capture subsystem: WebM recording, oversized PNG stills and a deterministic
+// fixed-timestep clock. The controller is implemented inside the Canvas
+// (components/CaptureBridge.tsx), where it has access to the renderer and frame loop.
+
+export interface RecordingOptions {
+  fps: number;
+  bitrate: number; // Video bits per second
+}
+
+export interface StillOptions {
+  width: number; // Output size in pixels; may exceed the viewport (clamped to what the GPU can render)
+  height: number;
+}
+
+export interface CaptureController {
+  // Record the canvas (including post-processing) until stopRecording resolves with the WebM
+  startRecording: (options: RecordingOptions) => void;
+  stopRecording: () => Promise<Blob>;
+  isRecording: () => boolean;
+  // Render one frame at the given size, bloom included, and return it as a PNG
+  captureStill: (options: StillOptions) => Promise<Blob>;
+  // Advance the clock by exactly 1/fps per rendered frame instead of by real time; null = real time.
+  // While recording in this mode every stepped frame becomes exactly one video frame.
+  setFixedTimestep: (fps: number | null) => void;
+}
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const getRecordingMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+// Fit a requested still into the GPU's limits, keeping its aspect ratio
+export const clampStillSize = ({ width, height }: StillOptions, maxSize: number): StillOptions => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.floor(width * scale), height: Math.floor(height * scale) };
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    // toBlob snapshots the drawing buffer synchronously, so call it right after rendering
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the still as PNG'))), 'image/png');
+  });
+
+export const nextAnimationFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before releasing large video blobs
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const captureFilename = (extension: string) =>
+  `arix-tree-${new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)}.${extension}`;
@@ -0,0 +1,658 @@
+import {
+  AudioConfig,
+  BrandConfig,
+  EmbedConfig,
+  FloorFinish,
+  ForceFieldConfig,
+  ForceFieldMode,
+  GroundConfig,
+  GuestbookOrnamentConfig,
+  LightPatternId,
+  LightStringConfig,
+  LightStringsConfig,
+  LightsConfig,
+  LocaleId,
+  LocalizedText,
+  OrnamentGroupConfig,
+  OrnamentType,
+  PointLightConfig,
+  PostProcessingConfig,
+  RibbonConfig,
+  RibbonTexture,
+  ShapeFormationConfig,
+  SnowConfig,
+  TopperConfig,
+  TransitionSettings,
+  TransitionStyle,
+  TreeConfig,
+  TreeProfileConfig,
+  TreeProfileId,
+  Vec3
+} from '../types';
+import {
+  DEFAULT_PROFILE_CONFIG,
+  MAX_PROFILE_HEIGHT,
+  MAX_PROFILE_RADIUS,
+  MIN_PROFILE_HEIGHT,
+  PROFILE_PRESETS
+} from './treeProfile';
+import { DEFAULT_LIGHT_PATTERN, LIGHT_PATTERN_IDS } from './lightPatterns';
+import { DEFAULT_FORCE_FIELD, FORCE_FIELD_MODES } from './forceField';
+import { isOrigin } from './embed';
+import { BUILT_IN_FORMATION_IDS } from './formations';
+import { GUESTBOOK_GROUP_ID } from './guestbook';
+import { LOCALE_IDS, isLocale } from './i18n';
+import { DEFAULT_TRANSITION, MAX_TRANSITION_DURATION, MIN_TRANSITION_DURATION, TRANSITION_STYLES } from './transitions';
+
+// Where the scene document is fetched from unless `?config=` points elsewhere
+export const DEFAULT_CONFIG_URL = './tree-config.json';
+
+// The original hand-tuned scene. Also the fallback for any field a JSON document omits.
+export const DEFAULT_TREE_CONFIG: TreeConfig = {
+  foliage: { count: 6000 },
+  ornaments: [
+    // Red Metallic Balls
+    { id: 'red-balls', type: 'SPHERE', count: 150, color: '#C41E3A', metalness: 0.9, roughness: 0.1, scaleBase: 0.35 },
+    // Gold Balls
+    { id: 'gold-balls', type: 'SPHERE', count: 150, color: '#FFD700', metalness: 1.0, roughness: 0.15, scaleBase: 0.25 },
+    // Gift Boxes (Emerald/Gold)
+    { id: 'gift-boxes', type: 'BOX', count: 40, color: '#046307', metalness: 0.4, roughness: 0.4, scaleBase: 0.45 }
+  ],
+  ribbons: [
+    // Gold Ribbons - Wider, Main spiral
+    { id: 'gold-main', color: '#FFD700', width: 0.6, segments: 120, radius: 6, turns: 3.5, yStart: -5, yEnd: 7, phase: 0, scatterRadius: 15, tileLength: 1.2 },
+    { id: 'gold-opposite', color: '#F0C000', width: 0.5, segments: 120, radius: 5.5, turns: 3.5, yStart: -5, yEnd: 7, phase: 0.5, scatterRadius: 15, tileLength: 1.2 },
+    { id: 'gold-accent', color: '#D4AF37', width: 0.4, segments: 100, radius: 6.5, turns: 2.5, yStart: -6, yEnd: 4, phase: 0.25, scatterRadius: 18, tileLength: 1.2 },
+    // Red Ribbons - Thinner, Accent
+    { id: 'red-accent', color: '#C41E3A', width: 0.25, segments: 150, radius: 6.2, turns: 4.5, yStart: -6, yEnd: 8, phase: 0.125, scatterRadius: 12, texture: 'satin', tileLength: 1.2 },
+    { id: 'red-deep', color: '#8B0000', width: 0.3, segments: 150, radius: 5.8, turns: 4.5, yStart: -5.5, yEnd: 8, phase: 0.625, scatterRadius: 12, texture: 'satin', tileLength: 1.2 }
+  ],
+  // Glowing Lights: a warm white string and a coloured one, wound in opposite phase
+  lightStrings: {
+    pattern: DEFAULT_LIGHT_PATTERN,
+    speed: 1,
+    intensity: 4,
+    strings: [
+      { id: 'warm-white', bulbs: 120, radius: 5.4, turns: 4, yStart: -5.5, yEnd: 6.5, phase: 0.1, scatterRadius: 14, colors: ['#FFD27F', '#FFF4D6'], bulbSize: 0.09 },
+      { id: 'multicolor', bulbs: 80, radius: 5.6, turns: 3, yStart: -5, yEnd: 5.5, phase: 0.6, scatterRadius: 14, colors: ['#FF3B3B', '#FFD700', '#3BFF6A', '#3B8BFF'], bulbSize: 0.11 }
+    ]
+  },
+  snow: {
+    intensity: 0.4, density: 4000, windDirection: 30, windSpeed: 0.8, fallSpeed: 1.2, flakeSize: 1,
+    accumulation: 60, color: '#EEF4FA'
+  },
+  // A polished floor, with the presents piled on a velvet skirt
+  ground: {
+    enabled: true, floor: 'reflective', floorColor: '#0a0f0c', floorRadius: 30,
+    skirt: { enabled: true, radius: 4.2, color: '#7A0F1E', trimColor: '#F5F1E6' },
+    gifts: { count: 14, colors: ['#C41E3A', '#046307', '#FFD700', '#F5F1E6', '#0B3D91'], ribbonColors: ['#FFD700', '#C41E3A', '#F5F1E6'] }
+  },
+  topper: { color: '#FFD700', emissiveIntensity: 2.5, lightIntensity: 10, lightColor: '#ffebb8' },
+  lights: {
+    ambient: { intensity: 0.2, color: '#001100' },
+    spot: { position: [10, 20, 10], angle: 0.3, penumbra: 1, intensity: 20, color: '#fffaed', shadowRadius: 4, shadowBias: -0.0004 },
+    points: [
+      { position: [-10, 5, -10], intensity: 10, color: '#C41E3A' },
+      { position: [10, -5, 10], intensity: 10, color: '#FFD700' }
+    ]
+  },
+  postProcessing: {
+    bloom: { enabled: true, luminanceThreshold: 1.2, intensity: 1.5, radius: 0.6 },
+    vignette: { enabled: true, offset: 0.1, darkness: 1.1 }
+  },
+  shapes: [],
+  // Pearly, softly glowing baubles so visitors can spot their own message
+  guestbook: {
+    type: 'SPHERE', color: '#F5F1E6', metalness: 0.6, roughness: 0.2, scaleBase: 0.4,
+    emissive: '#FFFDD0', emissiveIntensity: 0.6
+  },
+  // A short synthesised loop under public/audio (see the notes there); point `track` elsewhere to swap it
+  audio: { track: './audio/jingle-bells-loop.wav', trackLabel: 'Jingle Bells', beatSensitivity: 1.4, pulseStrength: 1 },
+  profile: DEFAULT_PROFILE_CONFIG,
+  // The built-in title, subtitle and fonts
+  brand: {},
+  transition: DEFAULT_TRANSITION,
+  forceField: DEFAULT_FORCE_FIELD,
+  // Embedded copies take commands only from pages listed here
+  embed: { allowedOrigins: [] }
+};
+
+// Thrown for any field that fails validation; `path` points at the offending field
+export class TreeConfigError extends Error {
+  path: string;
+
+  constructor(path: string, message: string) {
+    super(`Invalid tree config at "${path}": ${message}`);
+    this.name = 'TreeConfigError';
+    this.path = path;
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+const ORNAMENT_TYPES: OrnamentType[] = ['SPHERE', 'BOX', 'DIAMOND'];
+const RIBBON_TEXTURES: RibbonTexture[] = ['satin', 'fabric'];
+const FLOOR_FINISHES: FloorFinish[] = ['reflective', 'snowy'];
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string =>
+  Array.isArray(value) ? 'an array' : value === null ? 'null' : `a ${typeof value}`;
+
+// --- Field readers: a missing field takes the fallback, a present but wrong one throws ---
+
+const readObject = (raw: unknown, path: string, allowedKeys: string[]): RawObject => {
+  if (raw === undefined) return {};
+  if (!isObject(raw)) throw new TreeConfigError(path, `expected an object, got ${describe(raw)}`);
+  // Catch typos early instead of silently ignoring them
+  Object.keys(raw).forEach((key) => {
+    if (!allowedKeys.includes(key)) {
+      throw new TreeConfigError(`${path}.${key}`, `unknown field (expected one of: ${allowedKeys.join(', ')})`);
+    }
+  });
+  return raw;
+};
+
+const readNumber = (obj: RawObject, key: string, path: string, fallback: number, range: NumberRange = {}): number => {
+  const value = obj[key];
+  if (value === undefined) return fallback;
+  const fieldPath = `${path}.${key}`;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new TreeConfigError(fieldPath, `expected a number, got ${describe(value)}`);
+  }
+  if (range.integer && !Number.isInteger(value)) throw new TreeConfigError(fieldPath, `expected an integer, got ${value}`);
+  if (range.min !== undefined && value < range.min) throw new TreeConfigError(fieldPath, `must be >= ${range.min}, got ${value}`);
+  if (range.max !== undefined && value > range.max) throw new TreeConfigError(fieldPath, `must be <= ${range.max}, got ${value}`);
+  return value;
+};
+
+const readBoolean = (obj: RawObject, key: string, path: string, fallback: boolean): boolean => {
+  const value = obj[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'boolean') throw new TreeConfigError(`${path}.${key}`, `expected true or false, got ${describe(value)}`);
+  return value;
+};
+
+const readString = (obj: RawObject, key: string, path: string, fallback?: string): string => {
+  const value = obj[key];
+  if (value === undefined) {
+    if (fallback === undefined) throw new TreeConfigError(`${path}.${key}`, 'is required');
+    return fallback;
+  }
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new TreeConfigError(`${path}.${key}`, `expected a non-empty string, got ${describe(value)}`);
+  }
+  return value;
+};
+
+const readColor = (obj: RawObject, key: string, path: string, fallback?: string): string => {
+  const value = readString(obj, key, path, fallback);
+  if (!HEX_COLOR.test(value)) throw new TreeConfigError(`${path}.${key}`, `expected a hex color like "#FFD700", got "${value}"`);
+  return value;
+};
+
+const readVec3 = (obj: RawObject, key: string, path: string, fallback: Vec3): Vec3 => {
+  const value = obj[key];
+  if (value === undefined) return fallback;
+  if (!Array.isArray(value) || value.length !== 3 || value.some((v) => typeof v !== 'number' || !Number.isFinite(v))) {
+    throw new TreeConfigError(`${path}.${key}`, 'expected an [x, y, z] array of numbers');
+  }
+  return [value[0], value[1], value[2]];
+};
+
+const readArray = <T>(
+  raw: unknown,
+  path: string,
+  fallback: T[],
+  readItem: (item: unknown, itemPath: string, index: number) => T
+): T[] => {
+  if (raw === undefined) return fallback;
+  if (!Array.isArray(raw)) throw new TreeConfigError(path, `expected an array, got ${describe(raw)}`);
+  return raw.map((item, i) => readItem(item, `${path}[${i}]`, i));
+};
+
+const readColorList = (raw: unknown, path: string, fallback: string[]): string[] => {
+  const colors = readArray(raw, path, fallback, (item, itemPath) => {
+    if (typeof item !== 'string' || !HEX_COLOR.test(item)) {
+      throw new TreeConfigError(itemPath, `expected a hex color like "#FFD700", got ${describe(item)}`);
+    }
+    return item;
+  });
+  if (colors.length === 0) throw new TreeConfigError(path, 'needs at least one color');
+  return colors;
+};
+
+const assertUniqueIds = (items: { id: string }[], path: string) => {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (seen.has(item.id)) throw new TreeConfigError(`${path}[${i}].id`, `duplicate id "${item.id}"`);
+    seen.add(item.id);
+  });
+};
+
+// --- Section readers ---
+
+const readOrnamentGroup = (raw: unknown, path: string): OrnamentGroupConfig => {
+  const obj = readObject(raw, path, [
+    'id', 'type', 'count', 'color', 'metalness', 'roughness', 'scaleBase', 'emissive', 'emissiveIntensity'
+  ]);
+  if (raw === undefined) throw new TreeConfigError(path, 'expected an ornament group object');
+  const type = readString(obj, 'type', path) as OrnamentType;
+  if (!ORNAMENT_TYPES.includes(type)) {
+    throw new TreeConfigError(`${path}.type`, `expected one of ${ORNAMENT_TYPES.join(', ')}, got "${type}"`);
+  }
+  const group: OrnamentGroupConfig = {
+    id: readString(obj, 'id', path),
+    type,
+    count: readNumber(obj, 'count', path, NaN, { min: 0, max: 20000, integer: true }),
+    color: readColor(obj, 'color', path),
+    metalness: readNumber(obj, 'metalness', path, 0.5, { min: 0, max: 1 }),
+    roughness: readNumber(obj, 'roughness', path, 0.3, { min: 0, max: 1 }),
+    scaleBase: readNumber(obj, 'scaleBase', path, 0.3, { min: 0 })
+  };
+  if (Number.isNaN(group.count)) throw new TreeConfigError(`${path}.count`, 'is required');
+  // The guestbook's own group renders next to these under this id
+  if (group.id === GUESTBOOK_GROUP_ID) throw new TreeConfigError(`${path}.id`, `"${GUESTBOOK_GROUP_ID}" is reserved for the guestbook`);
+  if (obj.emissive !== undefined) group.emissive = readColor(obj, 'emissive', path);
+  if (obj.emissiveIntensity !== undefined) group.emissiveIntensity = readNumber(obj, 'emissiveIntensity', path, 0, { min: 0 });
+  return group;
+};
+
+const readGuestbookOrnament = (raw: unknown, path: string, fallback: GuestbookOrnamentConfig): GuestbookOrnamentConfig => {
+  const obj = readObject(raw, path, ['type', 'color', 'metalness', 'roughness', 'scaleBase', 'emissive', 'emissiveIntensity']);
+  const type = readString(obj, 'type', path, fallback.type) as OrnamentType;
+  if (!ORNAMENT_TYPES.includes(type)) {
+    throw new TreeConfigError(`${path}.type`, `expected one of ${ORNAMENT_TYPES.join(', ')}, got "${type}"`);
+  }
+  return {
+    type,
+    color: readColor(obj, 'color', path, fallback.color),
+    metalness: readNumber(obj, 'metalness', path, fallback.metalness, { min: 0, max: 1 }),
+    roughness: readNumber(obj, 'roughness', path, fallback.roughness, { min: 0, max: 1 }),
+    scaleBase: readNumber(obj, 'scaleBase', path, fallback.scaleBase, { min: 0 }),
+    emissive: readColor(obj, 'emissive', path, fallback.emissive ?? '#000000'),
+    emissiveIntensity: readNumber(obj, 'emissiveIntensity', path, fallback.emissiveIntensity ?? 0, { min: 0 })
+  };
+};
+
+const readRibbon = (raw: unknown, path: string): RibbonConfig => {
+  const obj = readObject(raw, path, [
+    'id', 'color', 'width', 'segments', 'radius', 'turns', 'yStart', 'yEnd', 'phase', 'scatterRadius', 'texture', 'tileLength'
+  ]);
+  if (raw === undefined) throw new TreeConfigError(path, 'expected a ribbon object');
+  const ribbon: RibbonConfig = {
+    id: readString(obj, 'id', path),
+    color: readColor(obj, 'color', path),
+    width: readNumber(obj, 'width', path, 0.4, { min: 0 }),
+    segments: readNumber(obj, 'segments', path, 120, { min: 2, max: 2000, integer: true }),
+    radius: readNumber(obj, 'radius', path, 6, { min: 0 }),
+    turns: readNumber(obj, 'turns', path, 3.5),
+    yStart: readNumber(obj, 'yStart', path, -5),
+    yEnd: readNumber(obj, 'yEnd', path, 7),
+    phase: readNumber(obj, 'phase', path, 0),
+    scatterRadius: readNumber(obj, 'scatterRadius', path, 15, { min: 0 }),
+    tileLength: readNumber(obj, 'tileLength', path, 1.2, { min: 0.01 })
+  };
+  if (obj.texture !== undefined) {
+    const texture = readString(obj, 'texture', path) as RibbonTexture;
+    if (!RIBBON_TEXTURES.includes(texture)) {
+      throw new TreeConfigError(`${path}.texture`, `expected one of ${RIBBON_TEXTURES.join(', ')}, got "${texture}"`);
+    }
+    ribbon.texture = texture;
+  }
+  if (ribbon.yEnd <= ribbon.yStart) throw new TreeConfigError(`${path}.yEnd`, 'must be greater than yStart');
+  return ribbon;
+};
+
+const readLightString = (raw: unknown, path: string): LightStringConfig => {
+  const obj = readObject(raw, path, [
+    'id', 'bulbs', 'radius', 'turns', 'yStart', 'yEnd', 'phase', 'scatterRadius', 'colors', 'bulbSize'
+  ]);
+  if (raw === undefined) throw new TreeConfigError(path, 'expected a light string object');
+  const colors = readColorList(obj.colors, `${path}.colors`, ['#FFD27F']);
+  const string: LightStringConfig = {
+    id: readString(obj, 'id', path),
+    bulbs: readNumber(obj, 'bulbs', path, 100, { min: 2, max: 2000, integer: true }),
+    radius: readNumber(obj, 'radius', path, 5.4, { min: 0 }),
+    turns: readNumber(obj, 'turns', path, 4),
+    yStart: readNumber(obj, 'yStart', path, -5.5),
+    yEnd: readNumber(obj, 'yEnd', path, 6.5),
+    phase: readNumber(obj, 'phase', path, 0),
+    scatterRadius: readNumber(obj, 'scatterRadius', path, 14, { min: 0 }),
+    colors,
+    bulbSize: readNumber(obj, 'bulbSize', path, 0.1, { min: 0.01, max: 1 })
+  };
+  if (string.yEnd <= string.yStart) throw new TreeConfigError(`${path}.yEnd`, 'must be greater than yStart');
+  return string;
+};
+
+const readLightStrings = (raw: unknown, path: string, fallback: LightStringsConfig): LightStringsConfig => {
+  const obj = readObject(raw, path, ['pattern', 'speed', 'intensity', 'strings']);
+  const pattern = readString(obj, 'pattern', path, fallback.pattern) as LightPatternId;
+  if (!LIGHT_PATTERN_IDS.includes(pattern)) {
+    throw new TreeConfigError(`${path}.pattern`, `expected one of ${LIGHT_PATTERN_IDS.join(', ')}, got "${pattern}"`);
+  }
+  const strings = readArray(obj.strings, `${path}.strings`, fallback.strings, readLightString);
+  assertUniqueIds(strings, `${path}.strings`);
+  return {
+    pattern,
+    speed: readNumber(obj, 'speed', path, fallback.speed, { min: 0, max: 10 }),
+    intensity: readNumber(obj, 'intensity', path, fallback.intensity, { min: 0 }),
+    strings
+  };
+};
+
+const readSnow = (raw: unknown, path: string, fallback: SnowConfig): SnowConfig => {
+  const obj = readObject(raw, path, [
+    'intensity', 'density', 'windDirection', 'windSpeed', 'fallSpeed', 'flakeSize', 'accumulation', 'color'
+  ]);
+  return {
+    intensity: readNumber(obj, 'intensity', path, fallback.intensity, { min: 0, max: 1 }),
+    density: readNumber(obj, 'density', path, fallback.density, { min: 0, max: 50000, integer: true }),
+    windDirection: readNumber(obj, 'windDirection', path, fallback.windDirection),
+    windSpeed: readNumber(obj, 'windSpeed', path, fallback.windSpeed, { min: 0, max: 20 }),
+    fallSpeed: readNumber(obj, 'fallSpeed', path, fallback.fallSpeed, { min: 0, max: 20 }),
+    flakeSize: readNumber(obj, 'flakeSize', path, fallback.flakeSize, { min: 0.1, max: 10 }),
+    accumulation: readNumber(obj, 'accumulation', path, fallback.accumulation, { min: 0 }),
+    color: readColor(obj, 'color', path, fallback.color)
+  };
+};
+
+const readGround = (raw: unknown, path: string, fallback: GroundConfig): GroundConfig => {
+  const obj = readObject(raw, path, ['enabled', 'floor', 'floorColor', 'floorRadius', 'skirt', 'gifts']);
+  const floor = readString(obj, 'floor', path, fallback.floor) as FloorFinish;
+  if (!FLOOR_FINISHES.includes(floor)) {
+    throw new TreeConfigError(`${path}.floor`, `expected one of ${FLOOR_FINISHES.join(', ')}, got "${floor}"`);
+  }
+  const skirt = readObject(obj.skirt, `${path}.skirt`, ['enabled', 'radius', 'color', 'trimColor']);
+  const gifts = readObject(obj.gifts, `${path}.gifts`, ['count', 'colors', 'ribbonColors']);
+  return {
+    enabled: readBoolean(obj, 'enabled', path, fallback.enabled),
+    floor,
+    floorColor: readColor(obj, 'floorColor', path, fallback.floorColor),
+    floorRadius: readNumber(obj, 'floorRadius', path, fallback.floorRadius, { min: 1, max: 200 }),
+    skirt: {
+      enabled: readBoolean(skirt, 'enabled', `${path}.skirt`, fallback.skirt.enabled),
+      radius: readNumber(skirt, 'radius', `${path}.skirt`, fallback.skirt.radius, { min: 0.5, max: 20 }),
+      color: readColor(skirt, 'color', `${path}.skirt`, fallback.skirt.color),
+      trimColor: readColor(skirt, 'trimColor', `${path}.skirt`, fallback.skirt.trimColor)
+    },
+    gifts: {
+      count: readNumber(gifts, 'count', `${path}.gifts`, fallback.gifts.count, { min: 0, max: 100, integer: true }),
+      colors: readColorList(gifts.colors, `${path}.gifts.colors`, fallback.gifts.colors),
+      ribbonColors: readColorList(gifts.ribbonColors, `${path}.gifts.ribbonColors`, fallback.gifts.ribbonColors)
+    }
+  };
+};
+
+const readTopper = (raw: unknown, path: string, fallback: TopperConfig): TopperConfig => {
+  const obj = readObject(raw, path, ['color', 'emissiveIntensity', 'lightIntensity', 'lightColor']);
+  return {
+    color: readColor(obj, 'color', path, fallback.color),
+    emissiveIntensity: readNumber(obj, 'emissiveIntensity', path, fallback.emissiveIntensity, { min: 0 }),
+    lightIntensity: readNumber(obj, 'lightIntensity', path, fallback.lightIntensity, { min: 0 }),
+    lightColor: readColor(obj, 'lightColor', path, fallback.lightColor)
+  };
+};
+
+const readPointLight = (raw: unknown, path: string, fallback?: PointLightConfig): PointLightConfig => {
+  const obj = readObject(raw, path, ['position', 'intensity', 'color']);
+  if (raw === undefined && !fallback) throw new TreeConfigError(path, 'expected a light object');
+  return {
+    position: readVec3(obj, 'position', path, fallback?.position ?? [0, 0, 0]),
+    intensity: readNumber(obj, 'intensity', path, fallback?.intensity ?? 10, { min: 0 }),
+    color: readColor(obj, 'color', path, fallback?.color ?? '#ffffff')
+  };
+};
+
+const readLights = (raw: unknown, path: string, fallback: LightsConfig): LightsConfig => {
+  const obj = readObject(raw, path, ['ambient', 'spot', 'points']);
+  const ambient = readObject(obj.ambient, `${path}.ambient`, ['intensity', 'color']);
+  const spot = readObject(obj.spot, `${path}.spot`, [
+    'position', 'intensity', 'color', 'angle', 'penumbra', 'shadowRadius', 'shadowBias'
+  ]);
+  return {
+    ambient: {
+      intensity: readNumber(ambient, 'intensity', `${path}.ambient`, fallback.ambient.intensity, { min: 0 }),
+      color: readColor(ambient, 'color', `${path}.ambient`, fallback.ambient.color)
+    },
+    spot: {
+      ...readPointLight({ position: spot.position, intensity: spot.intensity, color: spot.color }, `${path}.spot`, fallback.spot),
+      angle: readNumber(spot, 'angle', `${path}.spot`, fallback.spot.angle, { min: 0, max: Math.PI / 2 }),
+      penumbra: readNumber(spot, 'penumbra', `${path}.spot`, fallback.spot.penumbra, { min: 0, max: 1 }),
+      shadowRadius: readNumber(spot, 'shadowRadius', `${path}.spot`, fallback.spot.shadowRadius, { min: 0, max: 25 }),
+      shadowBias: readNumber(spot, 'shadowBias', `${path}.spot`, fallback.spot.shadowBias, { min: -0.01, max: 0.01 })
+    },
+    points: readArray(obj.points, `${path}.points`, fallback.points, (item, itemPath) => readPointLight(item, itemPath))
+  };
+};
+
+const readPostProcessing = (raw: unknown, path: string, fallback: PostProcessingConfig): PostProcessingConfig => {
+  const obj = readObject(raw, path, ['bloom', 'vignette']);
+  const bloom = readObject(obj.bloom, `${path}.bloom`, ['enabled', 'luminanceThreshold', 'intensity', 'radius']);
+  const vignette = readObject(obj.vignette, `${path}.vignette`, ['enabled', 'offset', 'darkness']);
+  return {
+    bloom: {
+      enabled: readBoolean(bloom, 'enabled', `${path}.bloom`, fallback.bloom.enabled),
+      luminanceThreshold: readNumber(bloom, 'luminanceThreshold', `${path}.bloom`, fallback.bloom.luminanceThreshold, { min: 0 }),
+      intensity: readNumber(bloom, 'intensity', `${path}.bloom`, fallback.bloom.intensity, { min: 0 }),
+      radius: readNumber(bloom, 'radius', `${path}.bloom`, fallback.bloom.radius, { min: 0, max: 1 })
+    },
+    vignette: {
+      enabled: readBoolean(vignette, 'enabled', `${path}.vignette`, fallback.vignette.enabled),
+      offset: readNumber(vignette, 'offset', `${path}.vignette`, fallback.vignette.offset, { min: 0 }),
+      darkness: readNumber(vignette, 'darkness', `${path}.vignette`, fallback.vignette.darkness, { min: 0 })
+    }
+  };
+};
+
+const readAudio = (raw: unknown, path: string, fallback: AudioConfig): AudioConfig => {
+  const obj = readObject(raw, path, ['track', 'trackLabel', 'beatSensitivity', 'pulseStrength']);
+  const audio: AudioConfig = {
+    trackLabel: readString(obj, 'trackLabel', path, fallback.trackLabel),
+    beatSensitivity: readNumber(obj, 'beatSensitivity', path, fallback.beatSensitivity, { min: 1, max: 4 }),
+    pulseStrength: readNumber(obj, 'pulseStrength', path, fallback.pulseStrength, { min: 0, max: 5 })
+  };
+  const track = obj.track === undefined ? fallback.track : readString(obj, 'track', path);
+  if (track !== undefined) audio.track = track;
+  return audio;
+};
+
+const readShape = (raw: unknown, path: string): ShapeFormationConfig => {
+  const obj = readObject(raw, path, ['id', 'label', 'kind', 'width', 'depth', 'resolution', 'text', 'font', 'paths', 'viewBox']);
+  if (raw === undefined) throw new TreeConfigError(path, 'expected a shape object');
+  const id = readString(obj, 'id', path);
+  if (BUILT_IN_FORMATION_IDS.includes(id)) {
+    throw new TreeConfigError(`${path}.id`, `"${id}" is a built-in formation (reserved: ${BUILT_IN_FORMATION_IDS.join(', ')})`);
+  }
+  const base = {
+    id,
+    label: readString(obj, 'label', path),
+    width: readNumber(obj, 'width', path, 14, { min: 0.1 }),
+    depth: readNumber(obj, 'depth', path, 1.5, { min: 0 }),
+    resolution: readNumber(obj, 'resolution', path, 512, { min: 32, max: 4096, integer: true })
+  };
+  const kind = readString(obj, 'kind', path);
+  if (kind === 'text') {
+    if (obj.paths !== undefined || obj.viewBox !== undefined) {
+      throw new TreeConfigError(path, 'text shapes take "text" and "font", not "paths"/"viewBox"');
+    }
+    const shape: ShapeFormationConfig = { ...base, kind, text: readString(obj, 'text', path) };
+    if (obj.font !== undefined) shape.font = readString(obj, 'font', path);
+    return shape;
+  }
+  if (kind === 'svg') {
+    if (obj.text !== undefined || obj.font !== undefined) {
+      throw new TreeConfigError(path, 'svg shapes take "paths" and "viewBox", not "text"/"font"');
+    }
+    const paths = readArray(obj.paths, `${path}.paths`, [], (item, itemPath) => {
+      if (typeof item !== 'string' || item.trim().length === 0) throw new TreeConfigError(itemPath, 'expected SVG path data');
+      return item;
+    });
+    if (paths.length === 0) throw new TreeConfigError(`${path}.paths`, 'needs at least one path');
+    const viewBox = obj.viewBox;
+    if (!Array.isArray(viewBox) || viewBox.length !== 4 || viewBox.some((v) => typeof v !== 'number' || !Number.isFinite(v))) {
+      throw new TreeConfigError(`${path}.viewBox`, 'expected [minX, minY, width, height]');
+    }
+    if (viewBox[2] <= 0 || viewBox[3] <= 0) throw new TreeConfigError(`${path}.viewBox`, 'width and height must be positive');
+    return { ...base, kind, paths, viewBox: [viewBox[0], viewBox[1], viewBox[2], viewBox[3]] };
+  }
+  throw new TreeConfigError(`${path}.kind`, `expected "text" or "svg", got "${kind}"`);
+};
+
+const readProfile = (raw: unknown, path: string, fallback: TreeProfileConfig): TreeProfileConfig => {
+  const obj = readObject(raw, path, ['preset', 'height', 'curve']);
+  const preset = readString(obj, 'preset', path, fallback.preset) as TreeProfileId;
+  const presets = PROFILE_PRESETS.map((p) => p.id);
+  if (!presets.includes(preset)) {
+    throw new TreeConfigError(`${path}.preset`, `expected one of ${presets.join(', ')}, got "${preset}"`);
+  }
+  const curve = readArray(obj.curve, `${path}.curve`, fallback.curve, (item, itemPath) => {
+    if (typeof item !== 'number' || !Number.isFinite(item) || item < 0 || item > MAX_PROFILE_RADIUS) {
+      throw new TreeConfigError(itemPath, `expected a radius between 0 and ${MAX_PROFILE_RADIUS}`);
+    }
+    return item;
+  });
+  if (curve.length < 2 || curve.length > 16) throw new TreeConfigError(`${path}.curve`, 'needs 2 to 16 radii');
+  return {
+    preset,
+    height: readNumber(obj, 'height', path, fallback.height, { min: MIN_PROFILE_HEIGHT, max: MAX_PROFILE_HEIGHT }),
+    curve
+  };
+};
+
+// A plain string, or { "en-US": "...", "zh-CN": "..." } for per-language text
+const readLocalizedText = (obj: RawObject, key: string, path: string): LocalizedText | undefined => {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return readString(obj, key, path);
+  if (!isObject(value)) {
+    throw new TreeConfigError(`${path}.${key}`, `expected a string or an object of ${LOCALE_IDS.join(' / ')} strings, got ${describe(value)}`);
+  }
+  const texts = readObject(value, `${path}.${key}`, LOCALE_IDS);
+  const localized: Partial<Record<LocaleId, string>> = {};
+  LOCALE_IDS.forEach((locale) => {
+    if (texts[locale] !== undefined) localized[locale] = readString(texts, locale, `${path}.${key}`);
+  });
+  return localized;
+};
+
+const readBrand = (raw: unknown, path: string, fallback: BrandConfig): BrandConfig => {
+  const obj = readObject(raw, path, ['title', 'subtitle', 'logo', 'titleFont', 'bodyFont', 'fontStylesheet', 'locale']);
+  const brand: BrandConfig = { ...fallback };
+  const title = readLocalizedText(obj, 'title', path);
+  const subtitle = readLocalizedText(obj, 'subtitle', path);
+  if (title !== undefined) brand.title = title;
+  if (subtitle !== undefined) brand.subtitle = subtitle;
+  if (obj.logo !== undefined) brand.logo = readString(obj, 'logo', path);
+  if (obj.titleFont !== undefined) brand.titleFont = readString(obj, 'titleFont', path);
+  if (obj.bodyFont !== undefined) brand.bodyFont = readString(obj, 'bodyFont', path);
+  if (obj.fontStylesheet !== undefined) brand.fontStylesheet = readString(obj, 'fontStylesheet', path);
+  if (obj.locale !== undefined) {
+    const locale = readString(obj, 'locale', path);
+    if (!isLocale(locale)) {
+      throw new TreeConfigError(`${path}.locale`, `expected one of ${LOCALE_IDS.join(', ')}, got "${locale}"`);
+    }
+    brand.locale = locale;
+  }
+  return brand;
+};
+
+const readTransition = (raw: unknown, path: string, fallback: TransitionSettings): TransitionSettings => {
+  const obj = readObject(raw, path, ['style', 'duration']);
+  const style = readString(obj, 'style', path, fallback.style) as TransitionStyle;
+  if (!TRANSITION_STYLES.includes(style)) {
+    throw new TreeConfigError(`${path}.style`, `expected one of ${TRANSITION_STYLES.join(', ')}, got "${style}"`);
+  }
+  return {
+    style,
+    duration: readNumber(obj, 'duration', path, fallback.duration, { min: MIN_TRANSITION_DURATION, max: MAX_TRANSITION_DURATION })
+  };
+};
+
+const readForceField = (raw: unknown, path: string, fallback: ForceFieldConfig): ForceFieldConfig => {
+  const obj = readObject(raw, path, ['mode', 'radius', 'strength']);
+  const mode = readString(obj, 'mode', path, fallback.mode) as ForceFieldMode;
+  if (!FORCE_FIELD_MODES.includes(mode)) {
+    throw new TreeConfigError(`${path}.mode`, `expected one of ${FORCE_FIELD_MODES.join(', ')}, got "${mode}"`);
+  }
+  return {
+    mode,
+    radius: readNumber(obj, 'radius', path, fallback.radius, { min: 0.1, max: 20 }),
+    strength: readNumber(obj, 'strength', path, fallback.strength, { min: 0, max: 2 })
+  };
+};
+
+const readEmbed = (raw: unknown, path: string, fallback: EmbedConfig): EmbedConfig => {
+  const obj = readObject(raw, path, ['allowedOrigins']);
+  return {
+    allowedOrigins: readArray(obj.allowedOrigins, `${path}.allowedOrigins`, fallback.allowedOrigins, (item, itemPath) => {
+      if (item === '*') return item;
+      if (typeof item !== 'string' || !isOrigin(item)) {
+        throw new TreeConfigError(itemPath, `expected an origin like "https://example.com" or "*", got ${describe(item)}`);
+      }
+      return item;
+    })
+  };
+};
+
+// Validate an untrusted document (usually parsed JSON) into a complete TreeConfig.
+// Omitted sections and fields fall back to DEFAULT_TREE_CONFIG; anything present but
+// malformed throws a TreeConfigError naming the exact field.
+export const parseTreeConfig = (raw: unknown): TreeConfig => {
+  const root = readObject(raw, 'config', ['$schema', 'foliage', 'ornaments', 'ribbons', 'lightStrings', 'snow', 'ground', 'topper', 'lights', 'postProcessing', 'shapes', 'guestbook', 'audio', 'profile', 'brand', 'transition', 'forceField', 'embed']);
+  const defaults = DEFAULT_TREE_CONFIG;
+
+  const foliage = readObject(root.foliage, 'config.foliage', ['count']);
+  const ornaments = readArray(root.ornaments, 'config.ornaments', defaults.ornaments, readOrnamentGroup);
+  const ribbons = readArray(root.ribbons, 'config.ribbons', defaults.ribbons, readRibbon);
+  assertUniqueIds(ornaments, 'config.ornaments');
+  const shapes = readArray(root.shapes, 'config.shapes', defaults.shapes, readShape);
+  assertUniqueIds(ribbons, 'config.ribbons');
+  assertUniqueIds(shapes, 'config.shapes');
+
+  return {
+    foliage: {
+      count: readNumber(foliage, 'count', 'config.foliage', defaults.foliage.count, { min: 0, max: 200000, integer: true })
+    },
+    ornaments,
+    ribbons,
+    lightStrings: readLightStrings(root.lightStrings, 'config.lightStrings', defaults.lightStrings),
+    snow: readSnow(root.snow, 'config.snow', defaults.snow),
+    ground: readGround(root.ground, 'config.ground', defaults.ground),
+    topper: readTopper(root.topper, 'config.topper', defaults.topper),
+    lights: readLights(root.lights, 'config.lights', defaults.lights),
+    postProcessing: readPostProcessing(root.postProcessing, 'config.postProcessing', defaults.postProcessing),
+    shapes,
+    guestbook: readGuestbookOrnament(root.guestbook, 'config.guestbook', defaults.guestbook),
+    audio: readAudio(root.audio, 'config.audio', defaults.audio),
+    profile: readProfile(root.profile, 'config.profile', defaults.profile),
+    brand: readBrand(root.brand, 'config.brand', defaults.brand),
+    transition: readTransition(root.transition, 'config.transition', defaults.transition),
+    forceField: readForceField(root.forceField, 'config.forceField', defaults.forceField),
+    embed: readEmbed(root.embed, 'config.embed', defaults.embed)
+  };
+};
+
+// Fetch and validate a scene document
+export const loadTreeConfig = async (url: string): Promise<TreeConfig> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load tree config from ${url} (HTTP ${response.status})`);
+  }
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch (err) {
+    throw new Error(`Tree config at ${url} is not valid JSON: ${(err as Error).message}`);
+  }
+  return parseTreeConfig(json);
+};
@@ -0,0 +1,188 @@
+import { DecorationItem, DecorationLayout, OrnamentGroupConfig, OrnamentType, TreeConfig, Vec3 } from '../types';
+import { RandomGenerator } from './random';
+import { TreeProfile, fitToProfile } from './treeProfile';
+
+const STORAGE_KEY = 'arix-tree-decorations';
+const FORMAT_VERSION = 1;
+
+export const ORNAMENT_TYPES: OrnamentType[] = ['SPHERE', 'BOX', 'DIAMOND'];
+
+export const EMPTY_LAYOUT: DecorationLayout = { version: FORMAT_VERSION, items: [] };
+
+// What the next click hangs: one of the palette's presets, or a custom pick
+export interface DecorationBrush {
+  type: OrnamentType;
+  color: string;
+  scale: number;
+}
+
+// Used when the scene config has no group of a type to borrow the look from
+const FALLBACK_LOOK: Record<OrnamentType, Omit<OrnamentGroupConfig, 'id' | 'type' | 'count'>> = {
+  SPHERE: { color: '#C41E3A', metalness: 0.9, roughness: 0.1, scaleBase: 0.35 },
+  BOX: { color: '#046307', metalness: 0.4, roughness: 0.4, scaleBase: 0.45 },
+  DIAMOND: { color: '#FFD700', metalness: 1, roughness: 0.1, scaleBase: 0.3, emissive: '#FFD700', emissiveIntensity: 2 }
+};
+
+// Material look for hand-hung ornaments of a type: the first configured group of that type
+const lookFor = (config: TreeConfig, type: OrnamentType) =>
+  config.ornaments.find((group) => group.type === type) ?? { ...FALLBACK_LOOK[type], type };
+
+// The palette's presets, one per ornament type, dressed like the configured groups
+export const decorationPalette = (config: TreeConfig): DecorationBrush[] =>
+  ORNAMENT_TYPES.map((type) => {
+    const look = lookFor(config, type);
+    return { type, color: look.color, scale: look.scaleBase };
+  });
+
+export const createDecoration = (
+  brush: DecorationBrush,
+  position: Vec3,
+  random: RandomGenerator = Math.random
+): DecorationItem => ({
+  id: `${Date.now().toString(36)}-${Math.floor(random() * 1e9).toString(36)}`,
+  type: brush.type,
+  color: brush.color,
+  scale: brush.scale,
+  position
+});
+
+// One ornament group per distinct look, hanging its items at their spots on `profile`
+export interface DecorationGroup extends OrnamentGroupConfig {
+  placements: Vec3[];
+  itemIds: string[]; // Item behind each instance index
+}
+
+export const decorationGroups = (layout: DecorationLayout, config: TreeConfig, profile: TreeProfile): DecorationGroup[] => {
+  const groups = new Map<string, DecorationGroup>();
+  layout.items.forEach((item) => {
+    const id = `decorations:${item.type}:${item.color.toLowerCase()}:${item.scale}`;
+    let group = groups.get(id);
+    if (!group) {
+      const { metalness, roughness, emissive, emissiveIntensity } = lookFor(config, item.type);
+      group = {
+        id,
+        type: item.type,
+        count: 0,
+        color: item.color,
+        metalness,
+        roughness,
+        scaleBase: item.scale,
+        // Glowing types glow in their own colour
+        emissive: emissive ? item.color : undefined,
+        emissiveIntensity,
+        placements: [],
+        itemIds: []
+      };
+      groups.set(id, group);
+    }
+    group.placements.push(fitToProfile(item.position, profile));
+    group.itemIds.push(item.id);
+    group.count++;
+  });
+  return Array.from(groups.values());
+};
+
+// --- Undo / redo ---
+
+export interface LayoutHistory {
+  past: DecorationLayout[];
+  present: DecorationLayout;
+  future: DecorationLayout[];
+  // A drag in progress: its first step saved the layout it started from, the rest replace it
+  dragging: boolean;
+}
+
+const MAX_UNDO = 100;
+
+export const createLayoutHistory = (layout: DecorationLayout): LayoutHistory => ({
+  past: [],
+  present: layout,
+  future: [],
+  dragging: false
+});
+
+// Record an edit. `transient` edits (drag moves) collapse into one undo step, closed by
+// the next non-transient edit.
+export const editLayout = (history: LayoutHistory, layout: DecorationLayout, transient = false): LayoutHistory => {
+  const past = history.dragging ? history.past : [...history.past, history.present].slice(-MAX_UNDO);
+  return { past, present: layout, future: [], dragging: transient };
+};
+
+export const undoLayout = (history: LayoutHistory): LayoutHistory => {
+  if (!history.past.length) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    dragging: false
+  };
+};
+
+export const redoLayout = (history: LayoutHistory): LayoutHistory => {
+  if (!history.future.length) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    dragging: false
+  };
+};
+
+// --- (De)serialisation ---
+
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+const readItem = (raw: unknown, index: number): DecorationItem => {
+  const item = raw as Partial<DecorationItem> | null;
+  const fail = (field: string) => {
+    throw new Error(`Decoration ${index} has an invalid "${field}"`);
+  };
+  if (typeof item !== 'object' || item === null) throw new Error(`Decoration ${index} is not an object`);
+  if (typeof item.id !== 'string' || !item.id) fail('id');
+  if (!ORNAMENT_TYPES.includes(item.type as OrnamentType)) fail('type');
+  if (typeof item.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(item.color)) fail('color');
+  if (typeof item.scale !== 'number' || !(item.scale > 0 && item.scale <= 5)) fail('scale');
+  if (!isVec3(item.position)) fail('position');
+  return { id: item.id!, type: item.type!, color: item.color!, scale: item.scale!, position: item.position! };
+};
+
+export const parseDecorations = (json: string): DecorationLayout => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Decoration file is not valid JSON');
+  }
+  const doc = data as { version?: unknown; items?: unknown } | null;
+  if (typeof doc !== 'object' || doc === null || !Array.isArray(doc.items)) {
+    throw new Error('Decoration file has no "items" list');
+  }
+  if (doc.version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported decoration version ${String(doc.version)} (expected ${FORMAT_VERSION})`);
+  }
+  return { version: FORMAT_VERSION, items: doc.items.map(readItem) };
+};
+
+export const serializeDecorations = (layout: DecorationLayout): string => JSON.stringify(layout, null, 2);
+
+// --- localStorage persistence ---
+
+export const loadDecorations = (): DecorationLayout => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseDecorations(stored) : EMPTY_LAYOUT;
+  } catch (err) {
+    console.warn('Ignoring stored decorations:', err);
+    return EMPTY_LAYOUT;
+  }
+};
+
+export const saveDecorations = (layout: DecorationLayout) => {
+  try {
+    if (layout.items.length) window.localStorage.setItem(STORAGE_KEY, serializeDecorations(layout));
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch (err) {
+    console.warn('Could not save decorations:', err);
+  }
+};
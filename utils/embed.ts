@@ -0,0 +1,138 @@
+import { FormationId } from '../types';
+import { THEME_IDS } from './themes';
+import { MAX_GREETING_LENGTH } from './urlState';
+
+// Embed mode: the scene alone inside a partner's iframe, driven from the host page over
+// postMessage. Every message in either direction carries the protocol name and version:
+//   { "protocol": "arix-tree", "version": 1, "type": "setTheme", "theme": "rose-gold" }
+
+export const EMBED_PROTOCOL = 'arix-tree';
+export const EMBED_VERSION = 1;
+
+// Host page -> tree
+export type EmbedCommand =
+  | { type: 'toggle' } // Tree <-> scattered
+  | { type: 'setFormation'; formation: FormationId }
+  | { type: 'setTheme'; theme: string }
+  | { type: 'setGreeting'; greeting: string }
+  // A timeline document (utils/timeline.ts) inline, or a URL to fetch one from
+  | { type: 'playTimeline'; url?: string; timeline?: unknown }
+  | { type: 'stopTimeline' };
+
+// Tree -> host page
+export type EmbedEvent =
+  | { type: 'ready'; formation: FormationId; theme: string } // Listening for commands
+  | { type: 'stateChanged'; formation: FormationId }
+  | { type: 'transitionComplete'; formation: FormationId }
+  | { type: 'ornamentClicked'; groupId: string; index: number }
+  | { type: 'error'; message: string; command?: string };
+
+const COMMAND_TYPES: EmbedCommand['type'][] = ['toggle', 'setFormation', 'setTheme', 'setGreeting', 'playTimeline', 'stopTimeline'];
+
+// ?embed (or ?embed=1) in the iframe's src
+export const isEmbedMode = (search: string = window.location.search): boolean => {
+  const value = new URLSearchParams(search).get('embed');
+  return value !== null && value !== '0' && value !== 'false';
+};
+
+// Scheme, host and port only, as browsers report MessageEvent.origin
+export const isOrigin = (value: string): boolean => {
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+};
+
+export const isAllowedOrigin = (origin: string, allowedOrigins: string[]): boolean =>
+  allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+
+// Thrown for a protocol message the tree can't act on; reported back as an `error` event
+export class EmbedCommandError extends Error {
+  constructor(message: string, public readonly command?: string) {
+    super(message);
+    this.name = 'EmbedCommandError';
+  }
+}
+
+const readString = (data: Record<string, unknown>, key: string, type: string): string => {
+  const value = data[key];
+  if (typeof value !== 'string') throw new EmbedCommandError(`"${type}" needs a string "${key}"`, type);
+  return value;
+};
+
+// Validate a message from the host page. Returns null for messages that aren't ours (other
+// scripts on the host may post to the frame too); throws for ours when they are malformed.
+export const parseEmbedCommand = (data: unknown): EmbedCommand | null => {
+  if (typeof data !== 'object' || data === null) return null;
+  const message = data as Record<string, unknown>;
+  if (message.protocol !== EMBED_PROTOCOL) return null;
+  if (message.version !== EMBED_VERSION) {
+    throw new EmbedCommandError(`Unsupported protocol version ${String(message.version)} (expected ${EMBED_VERSION})`);
+  }
+  const type = message.type as EmbedCommand['type'];
+  if (!COMMAND_TYPES.includes(type)) {
+    throw new EmbedCommandError(`Unknown command "${String(type)}" (expected one of ${COMMAND_TYPES.join(', ')})`);
+  }
+
+  switch (type) {
+    case 'setFormation':
+      return { type, formation: readString(message, 'formation', type) };
+    case 'setTheme': {
+      const theme = readString(message, 'theme', type);
+      if (!THEME_IDS.includes(theme)) {
+        throw new EmbedCommandError(`Unknown theme "${theme}" (expected one of ${THEME_IDS.join(', ')})`, type);
+      }
+      return { type, theme };
+    }
+    case 'setGreeting':
+      return { type, greeting: readString(message, 'greeting', type).slice(0, MAX_GREETING_LENGTH) };
+    case 'playTimeline':
+      if (message.timeline !== undefined) return { type, timeline: message.timeline };
+      return { type, url: readString(message, 'url', type) };
+    default:
+      return { type };
+  }
+};
+
+export interface EmbedChannel {
+  // Sent to the parent page, to each allowed origin
+  post: (event: EmbedEvent) => void;
+  dispose: () => void;
+}
+
+// Listens for commands from the parent page and posts events back. Messages from other
+// windows or from origins outside the allowlist are dropped unanswered.
+export const createEmbedChannel = (
+  allowedOrigins: string[],
+  onCommand: (command: EmbedCommand) => void
+): EmbedChannel => {
+  const parent = window.parent !== window ? window.parent : null;
+  // The host's origin once known (from the referrer, then from each accepted command). Until
+  // then postMessage delivers only where the target origin matches the parent's, so a concrete
+  // list reaches nobody else; "*" is the config's explicit opt-out.
+  const referrer = document.referrer ? new URL(document.referrer).origin : null;
+  let host = referrer && isAllowedOrigin(referrer, allowedOrigins) ? referrer : null;
+  const targets = () => (host ? [host] : allowedOrigins.includes('*') ? ['*'] : allowedOrigins);
+
+  const send = (event: EmbedEvent, origin: string) =>
+    parent?.postMessage({ protocol: EMBED_PROTOCOL, version: EMBED_VERSION, ...event }, origin);
+
+  const handleMessage = (e: MessageEvent) => {
+    if (!parent || e.source !== parent || !isAllowedOrigin(e.origin, allowedOrigins)) return;
+    host = e.origin;
+    try {
+      const command = parseEmbedCommand(e.data);
+      if (command) onCommand(command);
+    } catch (err) {
+      const { message, command } = err as EmbedCommandError;
+      send({ type: 'error', message, command }, e.origin);
+    }
+  };
+
+  window.addEventListener('message', handleMessage);
+  return {
+    post: (event) => targets().forEach((origin) => send(event, origin)),
+    dispose: () => window.removeEventListener('message', handleMessage)
+  };
+};
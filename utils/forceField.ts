@@ -0,0 +1,260 @@
+import * as THREE from 'three';
+import { ForceFieldConfig, ForceFieldMode } from '../types';
+
+export const FORCE_FIELD_MODES: ForceFieldMode[] = ['off', 'repel', 'attract'];
+
+export const DEFAULT_FORCE_FIELD: ForceFieldConfig = { mode: 'repel', radius: 2.5, strength: 1 };
+
+export const MAX_FORCE_POINTERS = 4; // Fingers beyond this are ignored
+const TRAIL_LENGTH = 16;
+const TRAIL_INTERVAL = 1 / 30; // Seconds between trail samples while a pointer moves
+const TRAIL_LIFETIME = 0.8; // Seconds a trail sample keeps shimmering
+const TRAIL_SPACING = 0.004; // Pointer travel, in NDC, before a new sample is worth taking
+const FOLLOW = 14; // How quickly the force catches up with the pointer, 1/s
+const ATTACK = 8; // How quickly a force builds up and dies down, 1/s
+const RELEASE = 3;
+const MAX_PULL = 0.9; // An attractor never quite collapses particles onto the line
+
+interface PointerSlot {
+  id: number;
+  x: number; // Pointer in normalised device coordinates
+  y: number;
+  smoothX: number;
+  smoothY: number;
+  active: boolean; // Hovering mouse or finger on the screen
+  strength: number; // Eased 0..1
+  sinceSample: number;
+  sampleX: number;
+  sampleY: number;
+}
+
+/**
+ * Every pointer over the canvas as a line of sight from the camera. Each force (and
+ * each trail sample left behind a moving one) is a ray in world space; particles are
+ * pushed away from, or pulled towards, their nearest point on it. Forces ease in and
+ * out, so displaced elements glide back once the pointer leaves.
+ */
+export interface ForceField {
+  // Pointer input from the DOM, in normalised device coordinates
+  move: (id: number, x: number, y: number, active: boolean) => void;
+  release: (id: number) => void;
+  // Advance the easing and rebuild the world-space rays from the camera
+  step: (camera: THREE.Camera, delta: number, settings: ForceFieldConfig) => void;
+  origins: Float32Array; // xyz ray origin + signed strength (+ repel, - attract), per pointer
+  directions: Float32Array; // xyz, per pointer
+  trailOrigins: Float32Array; // xyz + remaining life 0..1, per trail sample
+  trailDirections: Float32Array;
+  radius: number;
+}
+
+const raycaster = new THREE.Raycaster();
+const ndc = new THREE.Vector2();
+
+export const createForceField = (): ForceField => {
+  const slots: (PointerSlot | null)[] = Array.from({ length: MAX_FORCE_POINTERS }, () => null);
+  const origins = new Float32Array(MAX_FORCE_POINTERS * 4);
+  const directions = new Float32Array(MAX_FORCE_POINTERS * 3);
+  const trailOrigins = new Float32Array(TRAIL_LENGTH * 4);
+  const trailDirections = new Float32Array(TRAIL_LENGTH * 3);
+  let trailHead = 0;
+
+  const field: ForceField = {
+    move: (id, x, y, active) => {
+      let slot = slots.find((candidate) => candidate?.id === id);
+      if (!slot) {
+        const free = slots.findIndex((candidate) => !candidate);
+        if (free < 0 || !active) return;
+        slot = { id, x, y, smoothX: x, smoothY: y, active, strength: 0, sinceSample: 0, sampleX: x, sampleY: y };
+        slots[free] = slot;
+      }
+      slot.x = x;
+      slot.y = y;
+      slot.active = active;
+    },
+    release: (id) => {
+      const slot = slots.find((candidate) => candidate?.id === id);
+      if (slot) slot.active = false;
+    },
+    step: (camera, delta, settings) => {
+      const sign = settings.mode === 'attract' ? -1 : 1;
+      const follow = 1 - Math.exp(-FOLLOW * delta);
+      field.radius = settings.radius;
+
+      for (let i = 0; i < TRAIL_LENGTH; i++) {
+        trailOrigins[i * 4 + 3] = Math.max(0, trailOrigins[i * 4 + 3] - delta / TRAIL_LIFETIME);
+      }
+
+      slots.forEach((slot, i) => {
+        origins[i * 4 + 3] = 0;
+        if (!slot) return;
+        const goal = slot.active && settings.mode !== 'off' ? 1 : 0;
+        slot.strength += (goal - slot.strength) * (1 - Math.exp(-(goal > slot.strength ? ATTACK : RELEASE) * delta));
+        // Fully faded: the finger is gone, free the slot for the next one
+        if (!slot.active && slot.strength < 0.001) {
+          slots[i] = null;
+          return;
+        }
+        slot.smoothX += (slot.x - slot.smoothX) * follow;
+        slot.smoothY += (slot.y - slot.smoothY) * follow;
+
+        raycaster.setFromCamera(ndc.set(slot.smoothX, slot.smoothY), camera);
+        const { origin, direction } = raycaster.ray;
+        origin.toArray(origins, i * 4);
+        origins[i * 4 + 3] = sign * settings.strength * slot.strength;
+        direction.toArray(directions, i * 3);
+
+        // Leave a shimmer behind a moving pointer
+        slot.sinceSample += delta;
+        const travel = Math.hypot(slot.smoothX - slot.sampleX, slot.smoothY - slot.sampleY);
+        if (slot.sinceSample >= TRAIL_INTERVAL && travel > TRAIL_SPACING && settings.mode !== 'off') {
+          origin.toArray(trailOrigins, trailHead * 4);
+          trailOrigins[trailHead * 4 + 3] = slot.strength;
+          direction.toArray(trailDirections, trailHead * 3);
+          trailHead = (trailHead + 1) % TRAIL_LENGTH;
+          slot.sinceSample = 0;
+          slot.sampleX = slot.smoothX;
+          slot.sampleY = slot.smoothY;
+        }
+      });
+    },
+    origins,
+    directions,
+    trailOrigins,
+    trailDirections,
+    radius: DEFAULT_FORCE_FIELD.radius
+  };
+  return field;
+};
+
+// Uniforms read by FORCE_VERTEX, holding the rays in one object's local space
+export interface ForceUniforms {
+  uForceOrigins: { value: Float32Array };
+  uForceDirections: { value: Float32Array };
+  uForceRadius: { value: number };
+}
+
+export interface TrailUniforms {
+  uTrailOrigins: { value: Float32Array };
+  uTrailDirections: { value: Float32Array };
+}
+
+export const createForceUniforms = (): ForceUniforms => ({
+  uForceOrigins: { value: new Float32Array(MAX_FORCE_POINTERS * 4) },
+  uForceDirections: { value: new Float32Array(MAX_FORCE_POINTERS * 3) },
+  uForceRadius: { value: DEFAULT_FORCE_FIELD.radius }
+});
+
+export const createTrailUniforms = (): TrailUniforms => ({
+  uTrailOrigins: { value: new Float32Array(TRAIL_LENGTH * 4) },
+  uTrailDirections: { value: new Float32Array(TRAIL_LENGTH * 3) }
+});
+
+const toLocal = new THREE.Matrix4();
+const point = new THREE.Vector3();
+
+// World-space rays into `object`'s space, keeping the strength / life in w
+const localRays = (
+  origins: Float32Array,
+  directions: Float32Array,
+  outOrigins: Float32Array,
+  outDirections: Float32Array,
+  object: THREE.Object3D
+) => {
+  toLocal.copy(object.matrixWorld).invert();
+  for (let i = 0; i < directions.length / 3; i++) {
+    point.fromArray(origins, i * 4).applyMatrix4(toLocal).toArray(outOrigins, i * 4);
+    outOrigins[i * 4 + 3] = origins[i * 4 + 3];
+    point.fromArray(directions, i * 3).transformDirection(toLocal).toArray(outDirections, i * 3);
+  }
+};
+
+export const writeForceUniforms = (field: ForceField, uniforms: ForceUniforms, object: THREE.Object3D) => {
+  localRays(field.origins, field.directions, uniforms.uForceOrigins.value, uniforms.uForceDirections.value, object);
+  uniforms.uForceRadius.value = field.radius;
+};
+
+export const writeTrailUniforms = (field: ForceField, uniforms: TrailUniforms, object: THREE.Object3D) => {
+  localRays(field.trailOrigins, field.trailDirections, uniforms.uTrailOrigins.value, uniforms.uTrailDirections.value, object);
+};
+
+/** CPU mirror of the shaders' forceOffset, for picking. Adds the displacement of the point at `out` in place. */
+export const applyForceOffset = (uniforms: ForceUniforms, out: THREE.Vector3) => {
+  const origins = uniforms.uForceOrigins.value;
+  const directions = uniforms.uForceDirections.value;
+  const radius = uniforms.uForceRadius.value;
+  let ox = 0;
+  let oy = 0;
+  let oz = 0;
+  for (let i = 0; i < MAX_FORCE_POINTERS; i++) {
+    const strength = origins[i * 4 + 3];
+    if (strength === 0) continue;
+    const vx = out.x - origins[i * 4];
+    const vy = out.y - origins[i * 4 + 1];
+    const vz = out.z - origins[i * 4 + 2];
+    const dx = directions[i * 3];
+    const dy = directions[i * 3 + 1];
+    const dz = directions[i * 3 + 2];
+    const along = vx * dx + vy * dy + vz * dz;
+    const px = vx - dx * along;
+    const py = vy - dy * along;
+    const pz = vz - dz * along;
+    const dist = Math.hypot(px, py, pz);
+    const falloff = (1 - Math.min(dist / radius, 1)) ** 2;
+    const k = strength > 0 ? (dist > 1e-4 ? (strength * radius * falloff) / dist : 0) : -Math.min(-strength * falloff, MAX_PULL);
+    ox += px * k;
+    oy += py * k;
+    oz += pz * k;
+  }
+  out.x += ox;
+  out.y += oy;
+  out.z += oz;
+};
+
+// GPU side: displacement from every pointer's line of sight. Include before TRAIL_VERTEX.
+export const FORCE_VERTEX = /* glsl */ `
+  uniform vec4 uForceOrigins[${MAX_FORCE_POINTERS}];
+  uniform vec3 uForceDirections[${MAX_FORCE_POINTERS}];
+  uniform float uForceRadius;
+
+  // From the ray to p, square to the ray
+  vec3 forcePerp(vec3 p, vec3 origin, vec3 direction) {
+    vec3 v = p - origin;
+    return v - direction * dot(v, direction);
+  }
+
+  vec3 forceOffset(vec3 p) {
+    vec3 offset = vec3(0.0);
+    for (int i = 0; i < ${MAX_FORCE_POINTERS}; i++) {
+      float strength = uForceOrigins[i].w;
+      if (strength == 0.0) continue;
+      vec3 perp = forcePerp(p, uForceOrigins[i].xyz, uForceDirections[i]);
+      float dist = length(perp);
+      float falloff = 1.0 - min(dist / uForceRadius, 1.0);
+      falloff *= falloff;
+      if (strength > 0.0) {
+        offset += dist > 1e-4 ? perp * strength * uForceRadius * falloff / dist : vec3(0.0);
+      } else {
+        offset -= perp * min(-strength * falloff, ${MAX_PULL.toFixed(2)});
+      }
+    }
+    return offset;
+  }
+`;
+
+// 0..1 glow along the recent path of the pointers
+export const TRAIL_VERTEX = /* glsl */ `
+  uniform vec4 uTrailOrigins[${TRAIL_LENGTH}];
+  uniform vec3 uTrailDirections[${TRAIL_LENGTH}];
+
+  float trailGlow(vec3 p) {
+    float glow = 0.0;
+    for (int i = 0; i < ${TRAIL_LENGTH}; i++) {
+      float life = uTrailOrigins[i].w;
+      if (life <= 0.0) continue;
+      float dist = length(forcePerp(p, uTrailOrigins[i].xyz, uTrailDirections[i]));
+      float falloff = 1.0 - min(dist / (uForceRadius * 0.6), 1.0);
+      glow += life * falloff * falloff;
+    }
+    return min(glow, 1.0);
+  }
+`;
@@ -0,0 +1,387 @@
+import * as THREE from 'three';
+import { FormationId, RibbonConfig, TreeState, Vec3 } from '../types';
+import { getScatterPosition } from './math';
+import { createNamedRandom, RandomGenerator } from './random';
+import {
+  CLASSIC_PROFILE,
+  TREE_BASE_Y,
+  TreeProfile,
+  classicHeightRatio,
+  profileTopper,
+  profileVolumePoint
+} from './treeProfile';
+
+// Which kind of element is asking for a layout. Ornaments sit slightly inside the
+// foliage shell so they read as hanging "on" the shape rather than floating around it.
+export type FormationLayer = 'foliage' | 'ornaments';
+
+export interface FormationContext {
+  layer: FormationLayer;
+  random: RandomGenerator;
+  // Active tree silhouette; formations other than the tree may ignore it
+  profile: TreeProfile;
+}
+
+// Samples a ribbon's centre line: t runs 0 → 1 along the ribbon
+export type RibbonPathSampler = (t: number) => Vec3;
+
+export interface Formation {
+  id: FormationId;
+  label: string;
+  // 0 = loose floating cloud (big soft particles, drifting ornaments), 1 = crisp shape
+  order: number;
+  // Target position of element `index` out of `total`
+  point: (index: number, total: number, context: FormationContext) => Vec3;
+  // Optional dedicated ribbon layout; defaults to a smooth curve through a few of the shape's points
+  ribbonPath?: (ribbon: RibbonConfig, random: RandomGenerator, profile: TreeProfile) => RibbonPathSampler;
+  // Outward normal of the surface `ribbonPath` wraps, at the same t; ribbons lie flat against it
+  ribbonNormal?: (ribbon: RibbonConfig, profile: TreeProfile) => RibbonPathSampler;
+  // Where the star sits; defaults to just above the origin
+  topper?: (random: RandomGenerator, profile: TreeProfile) => Vec3;
+}
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+const jitter = (p: Vec3, random: RandomGenerator, amount: number): Vec3 => [
+  p[0] + (random() - 0.5) * amount,
+  p[1] + (random() - 0.5) * amount,
+  p[2] + (random() - 0.5) * amount
+];
+
+// Random Catmull-Rom curve through a handful of points, used for loose ribbon layouts
+const curveThrough = (points: Vec3[]): RibbonPathSampler => {
+  const curve = new THREE.CatmullRomCurve3(points.map((p) => new THREE.Vector3(...p)));
+  const tmp = new THREE.Vector3();
+  return (t) => {
+    curve.getPoint(t, tmp);
+    return [tmp.x, tmp.y, tmp.z];
+  };
+};
+
+// --- Built-in formations ---
+
+const scattered: Formation = {
+  id: TreeState.SCATTERED,
+  label: 'Scatter',
+  order: 0,
+  point: (_index, _total, { layer, random }) => getScatterPosition(layer === 'foliage' ? 15 : 12, random),
+  ribbonPath: (ribbon, random) => {
+    // Create a random CatmullRom curve inside a sphere
+    const controlPoints: Vec3[] = [];
+    for (let i = 0; i < 5; i++) {
+      controlPoints.push(getScatterPosition(ribbon.scatterRadius, random));
+    }
+    return curveThrough(controlPoints);
+  },
+  topper: (random) => getScatterPosition(20, random)
+};
+
+// Tree ribbons are authored against the classic cone: their y range stretches with the
+// profile's height, and their radius follows the silhouette from `ribbon.radius` at the
+// bottom down to 0.5 at the top (on the classic cone that is a straight taper).
+const treeRibbon = (ribbon: RibbonConfig, profile: TreeProfile) => {
+  const h0 = classicHeightRatio(ribbon.yStart);
+  const h1 = classicHeightRatio(ribbon.yEnd);
+  const bottom = profile.radiusAt(h0);
+  return {
+    y: (t: number) => TREE_BASE_Y + THREE.MathUtils.lerp(h0, h1, t) * profile.height,
+    radius: (t: number) => {
+      // The silhouette is read from the ribbon's start up to the tip, whatever its own top
+      const shape = bottom > 1e-3 ? profile.radiusAt(THREE.MathUtils.lerp(h0, 1, t)) / bottom : 1 - t;
+      return 0.5 + (ribbon.radius - 0.5) * shape;
+    },
+    angle: (t: number) => t * Math.PI * 2 * ribbon.turns + ribbon.phase * Math.PI * 2
+  };
+};
+
+const tree: Formation = {
+  id: TreeState.TREE_SHAPE,
+  label: 'Tree',
+  order: 1,
+  point: (index, total, { layer, random, profile }) => {
+    if (layer === 'foliage') return profileVolumePoint(profile, 'foliage', index, total, random);
+    // Ornaments: slightly inside the foliage, with noise so they aren't perfectly aligned on the spiral
+    return jitter(profileVolumePoint(profile, 'ornaments', index, total, random), random, 0.5);
+  },
+  ribbonPath: (ribbon, _random, profile) => {
+    const { y, radius, angle } = treeRibbon(ribbon, profile);
+    return (t) => [Math.cos(angle(t)) * radius(t), y(t), Math.sin(angle(t)) * radius(t)];
+  },
+  ribbonNormal: (ribbon, profile) => {
+    const { y, radius, angle } = treeRibbon(ribbon, profile);
+    // The surface leans in by the taper: tilt the radial direction up by the same slope
+    const dt = 1e-3;
+    return (t) => {
+      const a = Math.max(t - dt, 0);
+      const b = Math.min(t + dt, 1);
+      const slope = -(radius(b) - radius(a)) / (y(b) - y(a));
+      return [Math.cos(angle(t)), slope, Math.sin(angle(t))];
+    };
+  },
+  topper: (_random, profile) => profileTopper(profile)
+};
+
+const SPHERE_RADIUS = 7;
+
+const sphere: Formation = {
+  id: 'SPHERE',
+  label: 'Sphere',
+  order: 1,
+  point: (index, total, { layer, random }) => {
+    // Fibonacci sphere: even coverage without visible seams
+    const y = 1 - (2 * (index + 0.5)) / total;
+    const ring = Math.sqrt(1 - y * y);
+    const theta = index * GOLDEN_ANGLE;
+    const r = layer === 'foliage'
+      ? SPHERE_RADIUS * (0.85 + 0.15 * Math.sqrt(random())) // Thin shell, not a hollow skin
+      : SPHERE_RADIUS * 0.97;
+    return [r * ring * Math.cos(theta), r * y, r * ring * Math.sin(theta)];
+  },
+  ribbonPath: (ribbon) => (t) => {
+    // Loxodrome from pole to pole, like ribbon wound around a bauble
+    const lat = THREE.MathUtils.lerp(-1.35, 1.35, t);
+    const lon = t * Math.PI * 2 * ribbon.turns + ribbon.phase * Math.PI * 2;
+    const r = SPHERE_RADIUS * 1.02;
+    return [r * Math.cos(lat) * Math.cos(lon), r * Math.sin(lat), r * Math.cos(lat) * Math.sin(lon)];
+  },
+  ribbonNormal: (ribbon) => (t) => {
+    const lat = THREE.MathUtils.lerp(-1.35, 1.35, t);
+    const lon = t * Math.PI * 2 * ribbon.turns + ribbon.phase * Math.PI * 2;
+    return [Math.cos(lat) * Math.cos(lon), Math.sin(lat), Math.cos(lat) * Math.sin(lon)];
+  },
+  topper: () => [0, SPHERE_RADIUS + 1.2, 0]
+};
+
+const HEART_SCALE = 0.4;
+
+// Classic parametric heart outline, centred around the origin
+const heartOutline = (t: number): [number, number] => [
+  16 * Math.pow(Math.sin(t), 3) * HEART_SCALE,
+  (13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)) * HEART_SCALE + 1
+];
+
+const heart: Formation = {
+  id: 'HEART',
+  label: 'Heart',
+  order: 1,
+  point: (index, _total, { layer, random }) => {
+    const t = (index * GOLDEN_ANGLE) % (Math.PI * 2);
+    const [x, y] = heartOutline(t);
+    // Foliage fills the heart, ornaments trace its rim
+    const s = layer === 'foliage' ? Math.sqrt(random()) : 0.92 + random() * 0.08;
+    // Puffy in depth towards the middle
+    const depth = 2.5 * Math.sqrt(Math.max(0, 1 - s * s)) + 0.3;
+    const cy = 1 - 3 * HEART_SCALE; // Rough visual centre to scale towards
+    return [x * s, cy + (y - cy) * s, (random() - 0.5) * depth];
+  },
+  ribbonPath: (ribbon) => (t) => {
+    const [x, y] = heartOutline(t * Math.PI * 2);
+    const swirl = Math.sin(t * Math.PI * 2 * ribbon.turns + ribbon.phase * Math.PI * 2);
+    return [x * 1.08, y * 1.04, swirl * 1.2];
+  },
+  topper: () => [0, 3.4, 0]
+};
+
+const GALAXY_ARMS = 3;
+const GALAXY_RADIUS = 11;
+const GALAXY_TILT = new THREE.Euler(0.6, 0, 0);
+
+const tiltGalaxy = (x: number, y: number, z: number): Vec3 => {
+  const v = new THREE.Vector3(x, y, z).applyEuler(GALAXY_TILT);
+  return [v.x, v.y, v.z];
+};
+
+const galaxy: Formation = {
+  id: 'GALAXY',
+  label: 'Galaxy',
+  order: 0.8,
+  point: (index, total, { layer, random }) => {
+    const arm = index % GALAXY_ARMS;
+    const f = index / total;
+    const r = 0.5 + GALAXY_RADIUS * Math.sqrt(f);
+    // Arms fan out with distance; the spread narrows towards the rim
+    const spread = (layer === 'foliage' ? 0.9 : 0.5) * (1 - r / (GALAXY_RADIUS * 1.3));
+    const angle = (arm / GALAXY_ARMS) * Math.PI * 2 + r * 0.55 + (random() - 0.5) * spread;
+    const thickness = 1.2 * (1.3 - r / GALAXY_RADIUS); // Bulging core
+    const y = (random() - 0.5) * Math.max(0.2, thickness);
+    return tiltGalaxy(Math.cos(angle) * r, y, Math.sin(angle) * r);
+  },
+  ribbonPath: (ribbon) => (t) => {
+    const r = 0.8 + GALAXY_RADIUS * t;
+    const angle = ribbon.phase * Math.PI * 2 + r * 0.55;
+    return tiltGalaxy(Math.cos(angle) * r, 0.3, Math.sin(angle) * r);
+  },
+  topper: () => [0, 0.8, 0] // The bright core
+};
+
+const RING_RADIUS = 7;
+const RING_TUBE = 1.1;
+
+const ring: Formation = {
+  id: 'RING',
+  label: 'Ring',
+  order: 1,
+  point: (index, total, { layer, random }) => {
+    const u = (index / total) * Math.PI * 2;
+    const v = random() * Math.PI * 2;
+    const tube = layer === 'foliage' ? RING_TUBE * Math.sqrt(random()) : RING_TUBE * 1.05;
+    const r = RING_RADIUS + tube * Math.cos(v);
+    // Standing upright, facing the camera
+    return [r * Math.cos(u), r * Math.sin(u), tube * Math.sin(v)];
+  },
+  ribbonPath: (ribbon) => (t) => {
+    const u = t * Math.PI * 2;
+    const v = t * Math.PI * 2 * ribbon.turns * 4 + ribbon.phase * Math.PI * 2;
+    const tube = RING_TUBE * 1.15;
+    const r = RING_RADIUS + tube * Math.cos(v);
+    return [r * Math.cos(u), r * Math.sin(u), tube * Math.sin(v)];
+  },
+  ribbonNormal: (ribbon) => (t) => {
+    // Away from the tube's centre line
+    const u = t * Math.PI * 2;
+    const v = t * Math.PI * 2 * ribbon.turns * 4 + ribbon.phase * Math.PI * 2;
+    return [Math.cos(v) * Math.cos(u), Math.cos(v) * Math.sin(u), Math.sin(v)];
+  },
+  topper: () => [0, 0, 0]
+};
+
+// Seven-segment digits: each segment is [x1, y1, x2, y2] in a 2.6 x 5 cell
+const DIGIT_W = 2.6;
+const DIGIT_H = 5;
+const SEGMENTS: Record<string, [number, number, number, number]> = {
+  a: [0, DIGIT_H, DIGIT_W, DIGIT_H],
+  b: [DIGIT_W, DIGIT_H, DIGIT_W, DIGIT_H / 2],
+  c: [DIGIT_W, DIGIT_H / 2, DIGIT_W, 0],
+  d: [0, 0, DIGIT_W, 0],
+  e: [0, 0, 0, DIGIT_H / 2],
+  f: [0, DIGIT_H / 2, 0, DIGIT_H],
+  g: [0, DIGIT_H / 2, DIGIT_W, DIGIT_H / 2]
+};
+const DIGITS: Record<string, string> = {
+  '0': 'abcdef', '1': 'bc', '2': 'abged', '3': 'abgcd', '4': 'fgbc',
+  '5': 'afgcd', '6': 'afgedc', '7': 'abc', '8': 'abcdefg', '9': 'abcdfg'
+};
+
+// Flatten a number string into world-space line segments, centred on the origin
+const digitStrokes = (text: string, spacing = 3.8): [number, number, number, number][] => {
+  const strokes: [number, number, number, number][] = [];
+  const startX = -((text.length - 1) * spacing) / 2 - DIGIT_W / 2;
+  text.split('').forEach((char, i) => {
+    const ox = startX + i * spacing;
+    (DIGITS[char] ?? '').split('').forEach((seg) => {
+      const [x1, y1, x2, y2] = SEGMENTS[seg];
+      strokes.push([x1 + ox, y1 - DIGIT_H / 2, x2 + ox, y2 - DIGIT_H / 2]);
+    });
+  });
+  return strokes;
+};
+
+const YEAR_STROKES = digitStrokes('2026');
+const YEAR_LENGTH = YEAR_STROKES.reduce((sum, [x1, y1, x2, y2]) => sum + Math.hypot(x2 - x1, y2 - y1), 0);
+
+const year: Formation = {
+  id: 'YEAR_2026',
+  label: '2026',
+  order: 1,
+  point: (index, total, { layer, random }) => {
+    // Walk the strokes by arc length so every segment gets its fair share of particles
+    let distance = ((index + 0.5) / total) * YEAR_LENGTH;
+    for (const [x1, y1, x2, y2] of YEAR_STROKES) {
+      const length = Math.hypot(x2 - x1, y2 - y1);
+      if (distance <= length) {
+        const t = distance / length;
+        const p: Vec3 = [THREE.MathUtils.lerp(x1, x2, t), THREE.MathUtils.lerp(y1, y2, t), 0];
+        return jitter(p, random, layer === 'foliage' ? 0.7 : 0.35);
+      }
+      distance -= length;
+    }
+    return [0, 0, 0];
+  },
+  topper: () => [0, DIGIT_H / 2 + 1.6, 0]
+};
+
+// --- Registry ---
+
+const registry = new Map<FormationId, Formation>();
+
+export const registerFormation = (formation: Formation) => {
+  registry.set(formation.id, formation);
+};
+
+const BUILT_IN = [scattered, tree, sphere, heart, galaxy, ring, year];
+BUILT_IN.forEach(registerFormation);
+
+// Ids config shapes may not take: the tree, scatter and snow logic rely on these
+export const BUILT_IN_FORMATION_IDS: FormationId[] = BUILT_IN.map((formation) => formation.id);
+
+export const hasFormation = (id: FormationId): boolean => registry.has(id);
+
+// Unknown ids fall back to the tree so a stale reference never breaks the scene
+export const getFormation = (id: FormationId): Formation =>
+  registry.get(id) ?? registry.get(TreeState.TREE_SHAPE)!;
+
+export const listFormations = (): Formation[] => Array.from(registry.values());
+
+// --- Sampling helpers used by the scene components ---
+
+// Flat xyz buffer with one target position per element
+export const sampleFormation = (
+  id: FormationId,
+  layer: FormationLayer,
+  count: number,
+  seed: number,
+  streamKey: string = layer,
+  profile: TreeProfile = CLASSIC_PROFILE
+): Float32Array => {
+  const formation = getFormation(id);
+  const random = createNamedRandom(seed, `${streamKey}:${formation.id}`);
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    positions.set(formation.point(i, count, { layer, random, profile }), i * 3);
+  }
+  return positions;
+};
+
+// Ribbon centre line with `ribbon.segments + 1` points
+export const sampleRibbonPath = (
+  id: FormationId,
+  ribbon: RibbonConfig,
+  seed: number,
+  profile: TreeProfile = CLASSIC_PROFILE
+): Float32Array => {
+  const formation = getFormation(id);
+  const random = createNamedRandom(seed, `ribbon:${ribbon.id}:${formation.id}`);
+  const sampler = formation.ribbonPath
+    ? formation.ribbonPath(ribbon, random, profile)
+    : curveThrough(
+        Array.from({ length: 6 }, () =>
+          formation.point(Math.floor(random() * 1000), 1000, { layer: 'ornaments', random, profile })
+        )
+      );
+  const path = new Float32Array((ribbon.segments + 1) * 3);
+  for (let i = 0; i <= ribbon.segments; i++) {
+    path.set(sampler(i / ribbon.segments), i * 3);
+  }
+  return path;
+};
+
+// Surface normal hints for a ribbon path (same length), or null when the formation has none
+export const sampleRibbonNormals = (
+  id: FormationId,
+  ribbon: RibbonConfig,
+  profile: TreeProfile = CLASSIC_PROFILE
+): Float32Array | null => {
+  const formation = getFormation(id);
+  if (!formation.ribbonNormal) return null;
+  const sampler = formation.ribbonNormal(ribbon, profile);
+  const normals = new Float32Array((ribbon.segments + 1) * 3);
+  for (let i = 0; i <= ribbon.segments; i++) {
+    normals.set(sampler(i / ribbon.segments), i * 3);
+  }
+  return normals;
+};
+
+export const formationTopper = (id: FormationId, seed: number, profile: TreeProfile = CLASSIC_PROFILE): Vec3 => {
+  const formation = getFormation(id);
+  return formation.topper ? formation.topper(createNamedRandom(seed, `topper:${formation.id}`), profile) : [0, 1, 0];
+};
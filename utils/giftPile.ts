@@ -0,0 +1,91 @@
+import { Vec3 } from '../types';
+import { RandomGenerator } from './random';
+import { TREE_BASE_Y } from './treeProfile';
+
+// The floor sits a little below the lowest needles
+export const FLOOR_Y = TREE_BASE_Y - 0.4;
+
+// Nothing stands closer to the trunk than this
+const TRUNK_CLEARANCE = 1.1;
+const PLACEMENT_TRIES = 40;
+// Share of gifts that try to go on top of another one
+const STACK_SHARE = 0.3;
+
+// One wrapped box of the pile under the tree (tree group space)
+export interface GiftPlacement {
+  size: Vec3; // Width, height, depth
+  position: Vec3; // Centre of the box
+  rotationY: number;
+  color: number; // Index into the wrapping paper colours
+  ribbon: number; // Index into the ribbon colours
+}
+
+interface Footprint {
+  x: number;
+  z: number;
+  radius: number; // Bounding circle of the box's footprint
+  top: number;
+}
+
+const randomSize = (random: RandomGenerator): Vec3 => {
+  const width = 0.6 + random() * 0.8;
+  return [width, 0.45 + random() * 0.75, width * (0.7 + random() * 0.5)];
+};
+
+const footprintRadius = ([w, , d]: Vec3) => Math.hypot(w, d) / 2;
+
+// Lay `count` gifts around the trunk: boxes stand on the floor without overlapping, inside
+// `radius`, and some are stacked on a larger box below. Deterministic for a given stream.
+export const arrangeGiftPile = (
+  count: number,
+  radius: number,
+  paperColors: number,
+  ribbonColors: number,
+  random: RandomGenerator
+): GiftPlacement[] => {
+  const gifts: GiftPlacement[] = [];
+  const floor: Footprint[] = [];
+  const stacked = new Set<Footprint>();
+
+  const fits = (x: number, z: number, r: number) =>
+    floor.every((other) => Math.hypot(other.x - x, other.z - z) > other.radius + r);
+
+  const place = (size: Vec3, position: Vec3) => {
+    gifts.push({
+      size,
+      position,
+      rotationY: random() * Math.PI * 2,
+      color: Math.floor(random() * paperColors),
+      ribbon: Math.floor(random() * ribbonColors)
+    });
+  };
+
+  for (let i = 0; i < count; i++) {
+    const size = randomSize(random);
+    const r = footprintRadius(size);
+
+    // Small boxes may sit on a free base that is clearly bigger
+    if (random() < STACK_SHARE) {
+      const base = floor.find((f) => !stacked.has(f) && f.radius > r * 1.2);
+      if (base) {
+        stacked.add(base);
+        place(size, [base.x, base.top + size[1] / 2, base.z]);
+        continue;
+      }
+    }
+
+    for (let attempt = 0; attempt < PLACEMENT_TRIES; attempt++) {
+      const angle = random() * Math.PI * 2;
+      const distance = TRUNK_CLEARANCE + r + random() * Math.max(radius - TRUNK_CLEARANCE - r * 2, 0);
+      const x = Math.cos(angle) * distance;
+      const z = Math.sin(angle) * distance;
+      if (fits(x, z, r)) {
+        floor.push({ x, z, radius: r, top: FLOOR_Y + size[1] });
+        place(size, [x, FLOOR_Y + size[1] / 2, z]);
+        break;
+      }
+    }
+    // No room left: the pile simply ends up with fewer gifts
+  }
+  return gifts;
+};
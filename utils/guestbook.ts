@@ -0,0 +1,124 @@
+import { GuestbookEntry, Vec3 } from '../types';
+import { RandomGenerator } from './random';
+import { CLASSIC_PROFILE, profileSurfacePoint } from './treeProfile';
+
+const STORAGE_KEY = 'arix-tree-guestbook';
+const FORMAT_VERSION = 1;
+
+// Ornament group id the guestbook baubles report in selection events
+export const GUESTBOOK_GROUP_ID = 'guestbook';
+
+export const MAX_NAME_LENGTH = 40;
+export const MAX_MESSAGE_LENGTH = 280;
+
+// Spots are stored against the classic cone's ornament surface, so they stay valid
+// whatever the silhouette; the scene fits them onto the active profile (fitToProfile)
+const CANDIDATES = 24;
+
+// Best-candidate sampling: try a few random spots on the cone surface and keep the
+// one farthest from every existing entry, so the tree fills up evenly.
+export const findFreeSpot = (entries: GuestbookEntry[], random: RandomGenerator): Vec3 => {
+  let best: Vec3 = [0, 0, 0];
+  let bestDistance = -1;
+  for (let i = 0; i < CANDIDATES; i++) {
+    // Keep away from the very bottom and the narrow tip where the star sits
+    const heightRatio = 0.05 + random() * 0.8;
+    const candidate = profileSurfacePoint(CLASSIC_PROFILE, heightRatio, random() * Math.PI * 2);
+    const nearest = entries.reduce((min, entry) => {
+      const [x, y, z] = entry.position;
+      return Math.min(min, Math.hypot(x - candidate[0], y - candidate[1], z - candidate[2]));
+    }, Infinity);
+    if (nearest > bestDistance) {
+      best = candidate;
+      bestDistance = nearest;
+    }
+  }
+  return best;
+};
+
+export const createGuestbookEntry = (
+  name: string,
+  message: string,
+  entries: GuestbookEntry[],
+  random: RandomGenerator = Math.random
+): GuestbookEntry => ({
+  id: `${Date.now().toString(36)}-${Math.floor(random() * 1e9).toString(36)}`,
+  name: name.trim().slice(0, MAX_NAME_LENGTH),
+  message: message.trim().slice(0, MAX_MESSAGE_LENGTH),
+  createdAt: new Date().toISOString(),
+  position: findFreeSpot(entries, random)
+});
+
+// --- (De)serialisation ---
+
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+const readEntry = (raw: unknown, index: number): GuestbookEntry => {
+  const entry = raw as Partial<GuestbookEntry> | null;
+  const fail = (field: string) => {
+    throw new Error(`Guestbook entry ${index} has an invalid "${field}"`);
+  };
+  if (typeof entry !== 'object' || entry === null) throw new Error(`Guestbook entry ${index} is not an object`);
+  if (typeof entry.id !== 'string' || !entry.id) fail('id');
+  if (typeof entry.name !== 'string') fail('name');
+  if (typeof entry.message !== 'string') fail('message');
+  if (typeof entry.createdAt !== 'string') fail('createdAt');
+  if (!isVec3(entry.position)) fail('position');
+  return {
+    id: entry.id!,
+    name: entry.name!.slice(0, MAX_NAME_LENGTH),
+    message: entry.message!.slice(0, MAX_MESSAGE_LENGTH),
+    createdAt: entry.createdAt!,
+    position: entry.position!
+  };
+};
+
+// Accepts the exported document (or a bare entry array) and validates every entry
+export const parseGuestbook = (json: string): GuestbookEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Guestbook file is not valid JSON');
+  }
+  const doc = data as { version?: unknown; entries?: unknown };
+  const entries = Array.isArray(data) ? data : doc?.entries;
+  if (!Array.isArray(entries)) throw new Error('Guestbook file has no "entries" list');
+  if (!Array.isArray(data) && doc.version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported guestbook version ${String(doc.version)} (expected ${FORMAT_VERSION})`);
+  }
+  return entries.map(readEntry);
+};
+
+export const serializeGuestbook = (entries: GuestbookEntry[]): string =>
+  JSON.stringify({ version: FORMAT_VERSION, entries }, null, 2);
+
+// Imported entries replace local ones with the same id; new ones are appended
+export const mergeGuestbook = (current: GuestbookEntry[], incoming: GuestbookEntry[]): GuestbookEntry[] => {
+  const byId = new Map(current.map((entry) => [entry.id, entry]));
+  incoming.forEach((entry) => byId.set(entry.id, entry));
+  return Array.from(byId.values());
+};
+
+// --- localStorage persistence ---
+
+export const loadGuestbook = (): GuestbookEntry[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseGuestbook(stored) : [];
+  } catch (err) {
+    // A corrupt or foreign value shouldn't take the tree down with it
+    console.warn('Ignoring stored guestbook:', err);
+    return [];
+  }
+};
+
+export const saveGuestbook = (entries: GuestbookEntry[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, serializeGuestbook(entries));
+  } catch (err) {
+    // Private mode / quota: the tree still works, it just won't remember
+    console.warn('Could not save guestbook:', err);
+  }
+};
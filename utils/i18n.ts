@@ -0,0 +1,337 @@
+import { FormationId, LocaleId, LocalizedText, OrnamentType, QualityTier, TransitionStyle } from '../types';
+
+const STORAGE_KEY = 'arix-tree-locale';
+
+export const DEFAULT_LOCALE: LocaleId = 'en-US';
+
+// Every piece of overlay and panel text; a new language adds a bundle with all of them.
+// `{name}` placeholders are filled in by translate().
+export interface Messages {
+  title: string;
+  subtitle: string;
+  assemble: string;
+  scatter: string;
+  chaosMode: string;
+  orderMode: string;
+  language: string;
+  // Share panel
+  share: string;
+  addGreeting: string;
+  copyLink: string;
+  linkCopied: string;
+  copyLinkPrompt: string;
+  reshuffle: string;
+  seed: string;
+  // Show (timeline) panel
+  show: string;
+  play: string;
+  pause: string;
+  loop: string;
+  eject: string;
+  showHint: string;
+  loadJson: string;
+  // Transition panel
+  transition: string;
+  duration: string;
+  transitionHint: string;
+  // Camera panel
+  camera: string;
+  freeOrbit: string;
+  director: string;
+  directorHint: string;
+  orbitHint: string;
+  // Decoration panel
+  decorate: string;
+  doneDecorating: string;
+  custom: string;
+  colour: string;
+  size: string;
+  undo: string;
+  redo: string;
+  delete: string;
+  clear: string;
+  export: string;
+  import: string;
+  decorateHint: string;
+  // Quality selector
+  qualityAuto: string;
+  // Guestbook
+  guestbook: string;
+  yourName: string;
+  yourWish: string;
+  hangOrnament: string;
+  clickToClose: string;
+  // Music panel
+  music: string;
+  dropAudioFile: string;
+  dropMusic: string;
+  chooseFile: string;
+  scatterOnBeats: string;
+  notAudioFile: string;
+  couldNotPlay: string;
+  couldNotResume: string;
+  // Capture panel
+  capture: string;
+  video: string;
+  fixedTimestep: string;
+  recordWebm: string;
+  stopRecording: string;
+  recordingUnsupported: string;
+  still: string;
+  rendering: string;
+  savePng: string;
+  // Built-in formation names by id; configured shapes keep their own label
+  formations: Partial<Record<FormationId, string>>;
+  // Camera shot names by id, falling back to the shot's own label
+  shots: Partial<Record<string, string>>;
+  transitionStyles: Record<TransitionStyle, string>;
+  ornamentTypes: Record<OrnamentType, string>;
+  qualityTiers: Record<QualityTier, string>;
+}
+
+export type MessageKey = Exclude<keyof Messages, 'formations' | 'shots' | 'transitionStyles' | 'ornamentTypes' | 'qualityTiers'>;
+
+const EN_US: Messages = {
+  title: 'Arix Signature',
+  subtitle: 'INTERACTIVE HOLIDAY EXPERIENCE',
+  assemble: 'ASSEMBLE TREE',
+  scatter: 'SCATTER MAGIC',
+  chaosMode: 'CHAOS MODE',
+  orderMode: 'ORDER MODE',
+  language: 'Language',
+  share: 'Share',
+  addGreeting: 'Add a greeting',
+  copyLink: 'Copy Link',
+  linkCopied: 'Link Copied',
+  copyLinkPrompt: 'Copy this link',
+  reshuffle: 'Reshuffle',
+  seed: 'seed {seed}',
+  show: 'Show',
+  play: 'Play',
+  pause: 'Pause',
+  loop: 'Loop',
+  eject: 'Eject',
+  showHint: 'Load a show to script formations, camera, lights and bloom.',
+  loadJson: 'Load JSON',
+  transition: 'Transition',
+  duration: 'Duration',
+  transitionHint: 'Applies from the next formation change.',
+  camera: 'Camera',
+  freeOrbit: 'Free Orbit',
+  director: 'Director',
+  directorHint: 'The camera flies the selected shot.',
+  orbitHint: 'Drag to orbit within the selected shot’s framing.',
+  decorate: 'Decorate ({count})',
+  doneDecorating: 'Done Decorating',
+  custom: 'Custom',
+  colour: 'Colour',
+  size: 'Size',
+  undo: 'Undo',
+  redo: 'Redo',
+  delete: 'Delete',
+  clear: 'Clear',
+  export: 'Export',
+  import: 'Import',
+  decorateHint:
+    'Click the tree to hang the ornament. Drag an ornament to move it. Select one, then press Delete to remove it. ' +
+    'An empty layout brings back the standard decorations once you finish.',
+  qualityAuto: 'Auto ({tier})',
+  guestbook: 'Guestbook ({count})',
+  yourName: 'Your name',
+  yourWish: 'Your holiday wish',
+  hangOrnament: 'Hang Ornament',
+  clickToClose: 'Click anywhere to close',
+  music: 'Music',
+  dropAudioFile: 'Drop an audio file',
+  dropMusic: 'Drop music to make the tree dance',
+  chooseFile: 'Choose File',
+  scatterOnBeats: 'Scatter on beats',
+  notAudioFile: '{name} is not an audio file',
+  couldNotPlay: 'Could not play {name}: {error}',
+  couldNotResume: 'Could not resume {name}: {error}',
+  capture: 'Capture',
+  video: 'Video',
+  fixedTimestep: 'Fixed timestep',
+  recordWebm: 'Record WebM',
+  stopRecording: 'Stop · {seconds}s',
+  recordingUnsupported: 'Recording unsupported',
+  still: 'Still',
+  rendering: 'Rendering…',
+  savePng: 'Save PNG',
+  formations: {
+    SCATTERED: 'Scatter',
+    TREE_SHAPE: 'Tree',
+    SPHERE: 'Sphere',
+    HEART: 'Heart',
+    GALAXY: 'Galaxy',
+    RING: 'Ring',
+    YEAR_2026: '2026'
+  },
+  shots: {
+    hero: 'Hero Wide',
+    star: 'Star Close-up',
+    gifts: 'Low Angle',
+    spiral: 'Spiral Fly-down'
+  },
+  transitionStyles: {
+    smooth: 'Smooth',
+    'bottom-up': 'Bottom up',
+    'spiral-in': 'Spiral',
+    explosive: 'Explosive',
+    spring: 'Spring'
+  },
+  ornamentTypes: { SPHERE: 'Sphere', BOX: 'Box', DIAMOND: 'Diamond' },
+  qualityTiers: { low: 'Low', medium: 'Medium', high: 'High', ultra: 'Ultra' }
+};
+
+const ZH_CN: Messages = {
+  title: 'Arix Signature',
+  subtitle: '沉浸式节日互动体验',
+  assemble: '聚合成树',
+  scatter: '魔法散开',
+  chaosMode: '混沌模式',
+  orderMode: '秩序模式',
+  language: '语言',
+  share: '分享',
+  addGreeting: '添加祝福语',
+  copyLink: '复制链接',
+  linkCopied: '链接已复制',
+  copyLinkPrompt: '复制此链接',
+  reshuffle: '重新排列',
+  seed: '种子 {seed}',
+  show: '演出',
+  play: '播放',
+  pause: '暂停',
+  loop: '循环',
+  eject: '退出',
+  showHint: '载入演出脚本，编排造型、镜头、灯光与辉光。',
+  loadJson: '载入 JSON',
+  transition: '过渡',
+  duration: '时长',
+  transitionHint: '从下一次造型切换开始生效。',
+  camera: '镜头',
+  freeOrbit: '自由环绕',
+  director: '导演模式',
+  directorHint: '镜头沿所选机位飞行。',
+  orbitHint: '拖动即可在所选机位的取景范围内环绕。',
+  decorate: '装饰 ({count})',
+  doneDecorating: '完成装饰',
+  custom: '自定义',
+  colour: '颜色',
+  size: '大小',
+  undo: '撤销',
+  redo: '重做',
+  delete: '删除',
+  clear: '清空',
+  export: '导出',
+  import: '导入',
+  decorateHint: '点击圣诞树挂上装饰，拖动装饰可移动位置。选中后按 Delete 键即可删除。若装饰全部清空，完成后将恢复默认装饰。',
+  qualityAuto: '自动 ({tier})',
+  guestbook: '留言簿 ({count})',
+  yourName: '你的名字',
+  yourWish: '你的节日心愿',
+  hangOrnament: '挂上装饰',
+  clickToClose: '点击任意处关闭',
+  music: '音乐',
+  dropAudioFile: '拖入音频文件',
+  dropMusic: '拖入音乐，让圣诞树随之起舞',
+  chooseFile: '选择文件',
+  scatterOnBeats: '随节拍散开',
+  notAudioFile: '{name} 不是音频文件',
+  couldNotPlay: '无法播放 {name}：{error}',
+  couldNotResume: '无法继续播放 {name}：{error}',
+  capture: '捕捉',
+  video: '视频',
+  fixedTimestep: '固定时间步长',
+  recordWebm: '录制 WebM',
+  stopRecording: '停止 · {seconds} 秒',
+  recordingUnsupported: '不支持录制',
+  still: '静帧',
+  rendering: '渲染中…',
+  savePng: '保存 PNG',
+  formations: {
+    SCATTERED: '散开',
+    TREE_SHAPE: '圣诞树',
+    SPHERE: '球体',
+    HEART: '爱心',
+    GALAXY: '星系',
+    RING: '光环',
+    YEAR_2026: '2026'
+  },
+  shots: {
+    hero: '全景',
+    star: '星顶特写',
+    gifts: '低角度',
+    spiral: '螺旋俯冲'
+  },
+  transitionStyles: {
+    smooth: '平滑',
+    'bottom-up': '自下而上',
+    'spiral-in': '螺旋',
+    explosive: '爆发',
+    spring: '弹跳'
+  },
+  ornamentTypes: { SPHERE: '球形', BOX: '礼盒', DIAMOND: '钻石' },
+  qualityTiers: { low: '低', medium: '中', high: '高', ultra: '极高' }
+};
+
+const BUNDLES: Record<LocaleId, Messages> = { 'en-US': EN_US, 'zh-CN': ZH_CN };
+
+// Each language names itself in the picker
+export const LOCALES: { id: LocaleId; label: string }[] = [
+  { id: 'en-US', label: 'English' },
+  { id: 'zh-CN', label: '简体中文' }
+];
+
+export const LOCALE_IDS = LOCALES.map((locale) => locale.id);
+
+export const isLocale = (value: unknown): value is LocaleId => LOCALE_IDS.includes(value as LocaleId);
+
+export const translate = (locale: LocaleId, key: MessageKey, values: Record<string, string | number> = {}): string =>
+  BUNDLES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder));
+
+export const formationLabel = (locale: LocaleId, id: FormationId, fallback: string): string =>
+  BUNDLES[locale].formations[id] ?? fallback;
+
+export const shotLabel = (locale: LocaleId, id: string, fallback: string): string => BUNDLES[locale].shots[id] ?? fallback;
+
+export const transitionStyleLabel = (locale: LocaleId, style: TransitionStyle): string => BUNDLES[locale].transitionStyles[style];
+
+export const ornamentTypeLabel = (locale: LocaleId, type: OrnamentType): string => BUNDLES[locale].ornamentTypes[type];
+
+export const qualityTierLabel = (locale: LocaleId, tier: QualityTier): string => BUNDLES[locale].qualityTiers[tier];
+
+// Brand text: the visitor's language, else the single string, else the bundle's own text
+export const resolveText = (text: LocalizedText | undefined, locale: LocaleId, fallback: string): string => {
+  if (typeof text === 'string') return text;
+  return text?.[locale] ?? fallback;
+};
+
+// First browser language we have a bundle for; any Chinese variant gets zh-CN, any English en-US
+export const detectLocale = (languages: readonly string[] = navigator.languages ?? [navigator.language]): LocaleId => {
+  for (const language of languages) {
+    if (isLocale(language)) return language;
+    const base = language.toLowerCase().split('-')[0];
+    const match = LOCALE_IDS.find((id) => id.toLowerCase().startsWith(`${base}-`));
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// The visitor's own pick, if they ever made one
+export const loadLocale = (): LocaleId | null => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLocale = (locale: LocaleId) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Not remembering the choice is fine
+  }
+};
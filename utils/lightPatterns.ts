@@ -0,0 +1,97 @@
+import { LightPatternId } from '../types';
+
+// What a pattern knows about one bulb
+export interface Bulb {
+  index: number; // Position along its string
+  count: number; // Bulbs on the string
+  height: number; // 0 at the foot of the tree, 1 at the tip
+  random: number; // Stable per-bulb value in [0, 1)
+}
+
+// A light pattern is a pair of small functions of (bulb, time in seconds). Brightness
+// is 0 (off) to 1 (fully lit), and may overshoot for a flash; colour picks one of the
+// string's colours, wrapping around.
+export interface LightPattern {
+  id: LightPatternId;
+  label: string;
+  brightness: (bulb: Bulb, time: number) => number;
+  color: (bulb: Bulb, time: number) => number;
+}
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+// Cheap stable hash of two integers into [0, 1)
+const hash = (a: number, b: number) => {
+  const h = Math.sin(a * 127.1 + b * 311.7) * 43758.5453;
+  return h - Math.floor(h);
+};
+
+const byIndex = (bulb: Bulb) => bulb.index;
+
+const PATTERNS: LightPattern[] = [
+  {
+    id: 'twinkle',
+    label: 'Twinkle',
+    // Every bulb breathes at its own rate and phase
+    brightness: ({ random }, time) => 0.35 + 0.65 * Math.pow(0.5 + 0.5 * Math.sin(time * (1.2 + random * 2.4) + random * 40), 2),
+    color: byIndex
+  },
+  {
+    id: 'chase',
+    label: 'Chase',
+    // Runs of lit bulbs marching up the string, one step every 1/8 s
+    brightness: ({ index }, time) => {
+      const phase = (((index - time * 8) % 4) + 4) % 4;
+      return phase < 1 ? 1 : 0.12 + 0.25 * Math.max(0, 1 - (phase - 1));
+    },
+    color: byIndex
+  },
+  {
+    id: 'wave',
+    label: 'Wave',
+    brightness: ({ index }, time) => 0.2 + 0.8 * Math.pow(0.5 + 0.5 * Math.sin(index * 0.35 - time * 3), 3),
+    color: byIndex
+  },
+  {
+    id: 'fade-by-height',
+    label: 'Rising',
+    // Lights come on from the foot of the tree to the tip, hold, then all fade out
+    brightness: ({ height }, time) => {
+      const cycle = time % 7;
+      const level = cycle / 4; // Reaches the tip after 4 s
+      const out = 1 - smoothstep(5.5, 7, cycle);
+      return (0.08 + 0.92 * smoothstep(height - 0.06, height + 0.06, level * 1.1)) * out + 0.08 * (1 - out);
+    },
+    color: byIndex
+  },
+  {
+    id: 'alternating',
+    label: 'Alternating',
+    // Neighbours swap colours every 1.5 s with a short dip in between
+    brightness: (_bulb, time) => 0.4 + 0.6 * smoothstep(0, 0.25, Math.abs(((time / 1.5) % 1) - 0.5) * 2),
+    color: ({ index }, time) => index + Math.floor(time / 1.5)
+  },
+  {
+    id: 'sparkle',
+    label: 'Sparkle',
+    // Mostly low glow; random bulbs flash brightly and decay within a sixth of a second
+    brightness: ({ index }, time) => {
+      const step = Math.floor(time * 6);
+      const flash = hash(index, step) > 0.92 ? 1.6 * (1 - (time * 6 - step)) : 0;
+      return 0.22 + flash;
+    },
+    color: ({ index }, time) => index + Math.floor(hash(index, Math.floor(time * 6)) * 8)
+  }
+];
+
+export const DEFAULT_LIGHT_PATTERN: LightPatternId = 'twinkle';
+
+export const LIGHT_PATTERN_IDS = PATTERNS.map((pattern) => pattern.id);
+
+export const listLightPatterns = (): LightPattern[] => PATTERNS;
+
+// Unknown ids fall back to twinkle
+export const getLightPattern = (id: string): LightPattern => PATTERNS.find((pattern) => pattern.id === id) ?? PATTERNS[0];
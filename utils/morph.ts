@@ -0,0 +1,75 @@
+import { FormationId, TransitionSettings } from '../types';
+import { DEFAULT_TRANSITION, sampleTransition } from './transitions';
+
+// Easing curves shared by the morphing components
+export const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+export const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+// Per-element xyz positions travelling between two layouts. `from` is whatever the
+// elements showed when the current target was picked, so switching formation
+// mid-flight continues smoothly from the in-between shape instead of jumping.
+// A layout may hold several blocks of `points` vectors (e.g. a ribbon's centres, then
+// its tangents); block 0 are the positions that time each point's move.
+export interface MorphBuffers {
+  target: FormationId;
+  from: Float32Array;
+  to: Float32Array;
+  seeds: Float32Array; // 0..1 per point; staggers and varies the transition
+  points: number;
+  transition: TransitionSettings; // How the current move plays out
+  progress: number; // Linear progress the elements were last drawn with
+}
+
+export const createMorphBuffers = (target: FormationId, positions: Float32Array, seeds: Float32Array): MorphBuffers => ({
+  target,
+  from: positions.slice(),
+  to: positions.slice(),
+  seeds,
+  points: seeds.length,
+  transition: DEFAULT_TRANSITION,
+  progress: 1
+});
+
+// Where point `point` of `block` is drawn right now (see sampleTransition)
+export const sampleMorph = (buffers: MorphBuffers, point: number, out: Float32Array | number[], offset = 0, block = 0) => {
+  const { from, to, seeds, points, transition, progress } = buffers;
+  const i = (block * points + point) * 3;
+  sampleTransition(transition, progress, from, i, to, i, to, point * 3, seeds[point], out, offset, block > 0);
+};
+
+// Freeze the current in-between shape into `from` and head for a new layout
+export const retargetMorph = (
+  buffers: MorphBuffers,
+  target: FormationId,
+  positions: Float32Array,
+  transition: TransitionSettings
+) => {
+  const { from, to, points } = buffers;
+  const current = new Float32Array(from.length);
+  const blocks = from.length / (points * 3);
+  for (let block = 0; block < blocks; block++) {
+    for (let point = 0; point < points; point++) {
+      sampleMorph(buffers, point, current, (block * points + point) * 3, block);
+    }
+  }
+  from.set(current);
+  to.set(positions);
+  buffers.target = target;
+  buffers.transition = transition;
+  buffers.progress = 0;
+};
+
+// Lazily sample and memoise one layout per formation
+export const createLayoutCache = (sample: (id: FormationId) => Float32Array) => {
+  const cache = new Map<FormationId, Float32Array>();
+  return (id: FormationId): Float32Array => {
+    let positions = cache.get(id);
+    if (!positions) {
+      positions = sample(id);
+      cache.set(id, positions);
+    }
+    return positions;
+  };
+};
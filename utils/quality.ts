@@ -0,0 +1,104 @@
+import { QualitySettings, QualityTier } from '../types';
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+// 'high' is the original hand-tuned scene
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: { particleScale: 0.35, dpr: [1, 1], ribbonSegmentScale: 0.35, stars: 1000, snowScale: 0.25, shadowMapSize: 0, reflections: false, bloom: false, mipmapBlur: false, vignette: true },
+  medium: { particleScale: 0.6, dpr: [1, 1.5], ribbonSegmentScale: 0.6, stars: 2500, snowScale: 0.5, shadowMapSize: 1024, reflections: false, bloom: true, mipmapBlur: false, vignette: true },
+  high: { particleScale: 1, dpr: [1, 2], ribbonSegmentScale: 1, stars: 5000, snowScale: 1, shadowMapSize: 2048, reflections: true, bloom: true, mipmapBlur: true, vignette: true },
+  ultra: { particleScale: 1.6, dpr: [1, 3], ribbonSegmentScale: 1.5, stars: 8000, snowScale: 1.5, shadowMapSize: 4096, reflections: true, bloom: true, mipmapBlur: true, vignette: true }
+};
+
+const STORAGE_KEY = 'arix-tree-quality';
+
+// 'auto' follows the FPS monitor; a tier pins it
+export type QualityMode = 'auto' | QualityTier;
+
+// Phones and small machines start a step lower; the monitor corrects either way
+export const detectInitialTier = (): QualityTier => {
+  const coarse = typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+  const cores = navigator.hardwareConcurrency ?? 4;
+  return coarse || cores <= 4 ? 'medium' : 'high';
+};
+
+export const stepTier = (tier: QualityTier, direction: -1 | 1): QualityTier => {
+  const index = QUALITY_TIERS.indexOf(tier) + direction;
+  return QUALITY_TIERS[Math.min(Math.max(index, 0), QUALITY_TIERS.length - 1)];
+};
+
+export const loadQualityMode = (): QualityMode => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored === 'auto' || QUALITY_TIERS.includes(stored as QualityTier) ? (stored as QualityMode) : 'auto';
+  } catch {
+    return 'auto';
+  }
+};
+
+export const saveQualityMode = (mode: QualityMode) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Not remembering the choice is fine
+  }
+};
+
+// --- FPS monitor ---
+
+export interface FpsMonitorOptions {
+  downBelow: number; // Step down when the average stays under this fps...
+  downAfter: number; // ...for this many seconds
+  upAbove: number; // Step up when it stays over this fps...
+  upAfter: number; // ...for this (longer) time, so tiers don't flap
+  settle: number; // Seconds to ignore after a change while buffers rebuild and shaders compile
+}
+
+export const DEFAULT_FPS_MONITOR: FpsMonitorOptions = { downBelow: 30, downAfter: 2, upAbove: 55, upAfter: 8, settle: 3 };
+
+export interface FpsMonitor {
+  // Feed one frame's wall-clock duration in seconds. Returns a step to take, if any.
+  sample: (frameTime: number) => -1 | 1 | 0;
+  // Restart the timers, e.g. after the tier changed for another reason
+  reset: () => void;
+  fps: () => number;
+}
+
+// Smoothed fps with hysteresis: the thresholds are far apart and both must hold for a while
+export const createFpsMonitor = (options: FpsMonitorOptions = DEFAULT_FPS_MONITOR): FpsMonitor => {
+  let average = 60;
+  let below = 0;
+  let above = 0;
+  let settling = options.settle;
+
+  const reset = () => {
+    below = 0;
+    above = 0;
+    settling = options.settle;
+  };
+
+  return {
+    sample(frameTime) {
+      // Ignore hitches like tab switches; they say nothing about steady-state load
+      if (frameTime <= 0 || frameTime > 1) return 0;
+      average += (1 / frameTime - average) * Math.min(1, frameTime * 2);
+      if (settling > 0) {
+        settling -= frameTime;
+        return 0;
+      }
+      below = average < options.downBelow ? below + frameTime : 0;
+      above = average > options.upAbove ? above + frameTime : 0;
+      if (below > options.downAfter) {
+        reset();
+        return -1;
+      }
+      if (above > options.upAfter) {
+        reset();
+        return 1;
+      }
+      return 0;
+    },
+    reset,
+    fps: () => average
+  };
+};
@@ -0,0 +1,34 @@
+// A random source shaped like Math.random: returns a float in [0, 1)
+export type RandomGenerator = () => number;
+
+// Seed used when nothing else is specified, so a plain reload is reproducible too
+export const DEFAULT_SEED = 20251225;
+
+// Mulberry32: tiny 32-bit PRNG, plenty for layout jitter.
+// The same seed always yields the same sequence.
+export const createRandom = (seed: number): RandomGenerator => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Derive an independent sub-seed for a named generator (FNV-1a over the key).
+// Each component draws from its own stream, so mounting order or adding a new
+// ornament group never shifts the layout of the others.
+export const deriveSeed = (seed: number, key: string): number => {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// Convenience: a generator for a named stream of the scene seed
+export const createNamedRandom = (seed: number, key: string): RandomGenerator =>
+  createRandom(deriveSeed(seed, key));
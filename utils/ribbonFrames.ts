@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+
+// Orientation of a ribbon along its centre line, one entry per path point:
+// `tangents` are derivatives per path index (not unit length, so the shader can add the
+// float noise's own derivative), `normals` are unit vectors the ribbon's face looks along.
+export interface RibbonFrames {
+  tangents: Float32Array;
+  normals: Float32Array;
+}
+
+const EPSILON = 1e-8;
+
+const a = new THREE.Vector3();
+const b = new THREE.Vector3();
+const tangent = new THREE.Vector3();
+const nextTangent = new THREE.Vector3();
+const normal = new THREE.Vector3();
+const hint = new THREE.Vector3();
+const step = new THREE.Vector3();
+const reflectedNormal = new THREE.Vector3();
+const reflectedTangent = new THREE.Vector3();
+
+// Central differences, one-sided at the ends, so the last segment keeps its real direction
+const derivativeAt = (path: Float32Array, i: number, last: number, out: THREE.Vector3) => {
+  a.fromArray(path, Math.min(i + 1, last) * 3);
+  b.fromArray(path, Math.max(i - 1, 0) * 3);
+  const span = Math.min(i + 1, last) - Math.max(i - 1, 0);
+  return out.subVectors(a, b).divideScalar(span || 1);
+};
+
+// `v` with its component along unit `axis` removed, normalised; false if nothing is left
+const perpendicularTo = (v: THREE.Vector3, axis: THREE.Vector3) => {
+  v.addScaledVector(axis, -v.dot(axis));
+  if (v.lengthSq() < EPSILON) return false;
+  v.normalize();
+  return true;
+};
+
+// Any unit vector perpendicular to unit `axis`
+const anyPerpendicular = (axis: THREE.Vector3, out: THREE.Vector3) => {
+  out.set(Math.abs(axis.y) < 0.9 ? 0 : 1, Math.abs(axis.y) < 0.9 ? 1 : 0, 0);
+  perpendicularTo(out, axis);
+  return out;
+};
+
+// Rotation-minimising frames by parallel transport (the double reflection method of
+// Wang et al. 2008), so the ribbon never flips where the path straightens or bends back.
+// When the formation knows the surface the path wraps, each transported normal is rolled
+// about the tangent onto that surface's normal, keeping the ribbon flat against it. The
+// hint's sign follows the transported frame, so hints can't flip the ribbon either.
+export const computeRibbonFrames = (path: Float32Array, surfaceNormals: Float32Array | null): RibbonFrames => {
+  const points = path.length / 3;
+  const last = points - 1;
+  const tangents = new Float32Array(path.length);
+  const normals = new Float32Array(path.length);
+
+  for (let i = 0; i < points; i++) {
+    derivativeAt(path, i, last, tangent).toArray(tangents, i * 3);
+  }
+
+  // Unit tangent of point i (a degenerate one keeps the previous direction)
+  const unitTangent = (i: number, out: THREE.Vector3) => {
+    out.fromArray(tangents, i * 3);
+    if (out.lengthSq() < EPSILON) return i > 0 ? unitTangent(i - 1, out) : out.set(0, 1, 0);
+    return out.normalize();
+  };
+
+  unitTangent(0, tangent);
+  if (!(surfaceNormals && perpendicularTo(hint.fromArray(surfaceNormals, 0), tangent))) {
+    anyPerpendicular(tangent, hint);
+  }
+  normal.copy(hint).toArray(normals, 0);
+
+  for (let i = 0; i < last; i++) {
+    unitTangent(i, tangent);
+    unitTangent(i + 1, nextTangent);
+
+    // Reflect the frame across the bisector plane of the step, then across the plane
+    // that maps the reflected tangent onto the next one
+    step.fromArray(path, (i + 1) * 3).sub(a.fromArray(path, i * 3));
+    const c1 = step.lengthSq();
+    if (c1 > EPSILON) {
+      reflectedNormal.copy(normal).addScaledVector(step, (-2 / c1) * step.dot(normal));
+      reflectedTangent.copy(tangent).addScaledVector(step, (-2 / c1) * step.dot(tangent));
+    } else {
+      reflectedNormal.copy(normal);
+      reflectedTangent.copy(tangent);
+    }
+    const v2 = reflectedTangent.negate().add(nextTangent);
+    const c2 = v2.lengthSq();
+    if (c2 > EPSILON) reflectedNormal.addScaledVector(v2, (-2 / c2) * v2.dot(reflectedNormal));
+    if (!perpendicularTo(reflectedNormal, nextTangent)) anyPerpendicular(nextTangent, reflectedNormal);
+
+    if (surfaceNormals && perpendicularTo(hint.fromArray(surfaceNormals, (i + 1) * 3), nextTangent)) {
+      if (hint.dot(reflectedNormal) < 0) hint.negate();
+      normal.copy(hint);
+    } else {
+      normal.copy(reflectedNormal);
+    }
+    normal.toArray(normals, (i + 1) * 3);
+  }
+
+  return { tangents, normals };
+};
@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { RibbonTexture } from '../types';
+
+// Procedural cloth maps for ribbons, drawn once per kind and shared by every ribbon.
+// Greyscale, so the material colour tints them. u runs across the ribbon, v along it.
+
+const SIZE = 128;
+
+// Satin: a soft sheen band across the width, fine lengthwise threads and a woven edge
+const drawSatin = (ctx: CanvasRenderingContext2D) => {
+  const sheen = ctx.createLinearGradient(0, 0, SIZE, 0);
+  sheen.addColorStop(0, '#9a9a9a');
+  sheen.addColorStop(0.3, '#ffffff');
+  sheen.addColorStop(0.45, '#e4e4e4');
+  sheen.addColorStop(0.8, '#b8b8b8');
+  sheen.addColorStop(1, '#9a9a9a');
+  ctx.fillStyle = sheen;
+  ctx.fillRect(0, 0, SIZE, SIZE);
+
+  // Threads run along the ribbon (vertical in texture space)
+  for (let x = 0; x < SIZE; x += 2) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${0.03 + ((x * 37) % 11) / 200})`;
+    ctx.fillRect(x, 0, 1, SIZE);
+  }
+  // Selvedge: a darker woven stripe along both edges
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+  ctx.fillRect(0, 0, 6, SIZE);
+  ctx.fillRect(SIZE - 6, 0, 6, SIZE);
+};
+
+// Fabric: grosgrain, i.e. fine ribs across the ribbon with a little irregularity
+const drawFabric = (ctx: CanvasRenderingContext2D) => {
+  ctx.fillStyle = '#c8c8c8';
+  ctx.fillRect(0, 0, SIZE, SIZE);
+  for (let y = 0; y < SIZE; y += 4) {
+    ctx.fillStyle = '#e8e8e8';
+    ctx.fillRect(0, y, SIZE, 2);
+    ctx.fillStyle = '#8c8c8c';
+    ctx.fillRect(0, y + 3, SIZE, 1);
+  }
+  // Crossing warp threads break up the ribs
+  for (let x = 0; x < SIZE; x += 3) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${0.05 + ((x * 53) % 7) / 70})`;
+    ctx.fillRect(x, 0, 1, SIZE);
+  }
+};
+
+const DRAW: Record<RibbonTexture, (ctx: CanvasRenderingContext2D) => void> = {
+  satin: drawSatin,
+  fabric: drawFabric
+};
+
+const cache = new Map<RibbonTexture, THREE.CanvasTexture>();
+
+// Tiles along the ribbon (v); the uv coordinates carry the repeat count
+export const getRibbonTexture = (kind: RibbonTexture): THREE.CanvasTexture => {
+  let texture = cache.get(kind);
+  if (!texture) {
+    const canvas = document.createElement('canvas');
+    canvas.width = SIZE;
+    canvas.height = SIZE;
+    DRAW[kind](canvas.getContext('2d')!);
+    texture = new THREE.CanvasTexture(canvas);
+    texture.wrapS = THREE.ClampToEdgeWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.anisotropy = 4;
+    cache.set(kind, texture);
+  }
+  return texture;
+};
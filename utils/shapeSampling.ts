@@ -0,0 +1,135 @@
+import { ShapeFormationConfig, SvgShapeConfig, TextShapeConfig, Vec3 } from '../types';
+import { BUILT_IN_FORMATION_IDS, Formation, registerFormation } from './formations';
+
+// A 2D shape rasterised once into pixel lists we can draw any number of points from
+interface RasterShape {
+  fill: Uint16Array; // x, y pairs of every covered pixel
+  edge: Uint16Array; // x, y pairs of covered pixels next to an empty one
+  width: number; // Raster size in pixels
+  height: number;
+}
+
+export type TextFormationOptions = Omit<TextShapeConfig, 'kind'>;
+export type SvgFormationOptions = Omit<SvgShapeConfig, 'kind'>;
+type ShapeFormationOptions = Omit<ShapeFormationConfig, 'kind'>;
+
+const FONT_SIZE = 200; // Raster font size; the shape is rescaled to `width` afterwards
+const DEFAULT_FONT = `bold ${FONT_SIZE}px Georgia, serif`;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D canvas is not available for shape sampling');
+  return { canvas, ctx };
+};
+
+// Collect covered and outline pixels from whatever has been drawn into ctx
+const collectPixels = (ctx: CanvasRenderingContext2D, width: number, height: number): RasterShape => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const covered = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && data[(y * width + x) * 4 + 3] > 127;
+
+  const fill: number[] = [];
+  const edge: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!covered(x, y)) continue;
+      fill.push(x, y);
+      if (!covered(x - 1, y) || !covered(x + 1, y) || !covered(x, y - 1) || !covered(x, y + 1)) {
+        edge.push(x, y);
+      }
+    }
+  }
+  if (fill.length === 0) throw new Error('Shape is empty: nothing was drawn to sample from');
+  return { fill: Uint16Array.from(fill), edge: Uint16Array.from(edge), width, height };
+};
+
+const rasterizeText = (text: string, font: string, resolution: number): RasterShape => {
+  // Measure first so the canvas hugs the text
+  const probe = createCanvas(1, 1).ctx;
+  probe.font = font;
+  const lines = text.split('\n');
+  const metrics = lines.map((line) => probe.measureText(line));
+  const lineHeight = Math.max(...metrics.map((m) => m.actualBoundingBoxAscent + m.actualBoundingBoxDescent), 1) * 1.2;
+  const textWidth = Math.max(...metrics.map((m) => m.width), 1);
+
+  // Render at a scale that puts the longest side at `resolution` pixels
+  const scale = resolution / Math.max(textWidth, lineHeight * lines.length);
+  const width = Math.ceil(textWidth * scale) + 4;
+  const height = Math.ceil(lineHeight * lines.length * scale) + 4;
+  const { ctx } = createCanvas(width, height);
+  ctx.scale(scale, scale);
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, textWidth / 2 + 2 / scale, lineHeight * (i + 0.5) + 2 / scale));
+  return collectPixels(ctx, width, height);
+};
+
+const rasterizeSvg = (paths: string[], viewBox: [number, number, number, number], resolution: number): RasterShape => {
+  const [minX, minY, vbWidth, vbHeight] = viewBox;
+  const scale = resolution / Math.max(vbWidth, vbHeight);
+  const width = Math.ceil(vbWidth * scale);
+  const height = Math.ceil(vbHeight * scale);
+  const { ctx } = createCanvas(width, height);
+  ctx.setTransform(scale, 0, 0, scale, -minX * scale, -minY * scale);
+  paths.forEach((d) => ctx.fill(new Path2D(d)));
+  return collectPixels(ctx, width, height);
+};
+
+// Turn a raster into a formation. Points are stratified over the pixel list, so every
+// part of the shape gets its share whatever the particle count (6000+ is fine), and
+// jittered inside their pixel so large counts don't stack up on a grid.
+const formationFromRaster = (raster: RasterShape, options: ShapeFormationOptions): Formation => {
+  const worldWidth = options.width ?? 14;
+  const depth = options.depth ?? 1.5;
+  const scale = worldWidth / raster.width;
+  const halfW = raster.width / 2;
+  const halfH = raster.height / 2;
+
+  const toWorld = (px: number, py: number, z: number): Vec3 => [(px - halfW) * scale, (halfH - py) * scale, z];
+
+  return {
+    id: options.id,
+    label: options.label,
+    order: 1,
+    point: (index, total, { layer, random }) => {
+      // Ornaments trace the outline (when there is one) so the lettering stays legible
+      const pixels = layer === 'ornaments' && raster.edge.length > 0 ? raster.edge : raster.fill;
+      const pixelCount = pixels.length / 2;
+      const k = Math.min(pixelCount - 1, Math.floor(((index + random()) / total) * pixelCount));
+      const z = (random() - 0.5) * (layer === 'ornaments' ? depth * 1.2 : depth);
+      return toWorld(pixels[k * 2] + random(), pixels[k * 2 + 1] + random(), z);
+    },
+    topper: () => [0, halfH * scale + 1.2, 0]
+  };
+};
+
+// Particles spelling `text`. Async because web fonts must finish loading before they rasterise.
+export const createTextFormation = async (options: TextFormationOptions): Promise<Formation> => {
+  const font = options.font ?? DEFAULT_FONT;
+  if (document.fonts) {
+    await document.fonts.load(font, options.text);
+  }
+  return formationFromRaster(rasterizeText(options.text, font, options.resolution ?? 512), options);
+};
+
+// Particles filling one or more SVG paths, e.g. a client logo
+export const createSvgFormation = (options: SvgFormationOptions): Formation =>
+  formationFromRaster(rasterizeSvg(options.paths, options.viewBox, options.resolution ?? 512), options);
+
+// Build and register every shape formation declared in the scene config
+export const registerShapeFormations = async (shapes: ShapeFormationConfig[]) => {
+  for (const shape of shapes) {
+    // Configs from parseTreeConfig are already checked; ones built in code may not be
+    if (BUILT_IN_FORMATION_IDS.includes(shape.id)) {
+      throw new Error(`Shape "${shape.id}" would replace a built-in formation`);
+    }
+    const formation = shape.kind === 'text'
+      ? await createTextFormation(shape)
+      : createSvgFormation(shape);
+    registerFormation(formation);
+  }
+};
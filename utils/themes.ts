@@ -0,0 +1,294 @@
+import * as THREE from 'three';
+import { TreeConfig } from '../types';
+import { GUESTBOOK_GROUP_ID } from './guestbook';
+import { easeInOutCubic } from './morph';
+
+// Accent colours of the UI, standing in for Tailwind's amber and emerald shades
+// (index.html maps those classes onto the matching CSS variables)
+export interface ThemeUi {
+  text: string; // amber-100
+  title: string; // amber-200
+  accent: string; // amber-400
+  border: string; // amber-500
+  glow: string; // Gold glows and shadows
+  deep: string; // emerald-900
+  muted: string; // emerald-500
+}
+
+// Every colour a theme sets. Lists are cycled over what the config has, in config order:
+// the first ornament colour goes to the first ornament group, and so on.
+export interface ThemePalette {
+  foliage: { low: string; high: string; sparkle: string };
+  ornaments: string[];
+  guestbook: string;
+  ribbons: string[];
+  bulbs: string[][]; // One list per light string; each list is cycled over that string's colours
+  topper: string;
+  topperLight: string;
+  topperRays: string;
+  lights: { ambient: string; spot: string; points: string[] };
+  gifts: string[];
+  giftRibbons: string[];
+  skirt: string;
+  skirtTrim: string;
+  ui: ThemeUi;
+}
+
+export interface Theme {
+  id: string;
+  label: string;
+  // Classic has none: it is whatever the config sets
+  palette?: ThemePalette;
+}
+
+// Colours the config has no say in, as the classic scene always had them
+const CLASSIC_FOLIAGE = { low: '#013220', high: '#2e8b57', sparkle: '#FFD700' };
+const CLASSIC_RAYS = '#FFFDD0';
+const CLASSIC_UI: ThemeUi = {
+  text: '#FEF3C7',
+  title: '#FDE68A',
+  accent: '#FBBF24',
+  border: '#F59E0B',
+  glow: '#FFD700',
+  deep: '#064E3B',
+  muted: '#10B981'
+};
+
+export const DEFAULT_THEME = 'classic-emerald';
+
+const THEMES: Theme[] = [
+  { id: DEFAULT_THEME, label: 'Classic Emerald & Gold' },
+  {
+    id: 'silver-frost',
+    label: 'Silver Frost',
+    palette: {
+      foliage: { low: '#0f2a3a', high: '#6f9fb8', sparkle: '#E8F4FF' },
+      ornaments: ['#A9C7E8', '#E6E8EC', '#5B7FA6'],
+      guestbook: '#F4F8FC',
+      ribbons: ['#E6E8EC', '#C9D1DA', '#B0BCC8', '#7FA8CF', '#4F7396'],
+      bulbs: [['#DDEBFF', '#FFFFFF'], ['#9CC8FF', '#FFFFFF', '#C7E3FF', '#6FA8FF']],
+      topper: '#E6E8EC',
+      topperLight: '#dce9ff',
+      topperRays: '#F4F8FC',
+      lights: { ambient: '#000a14', spot: '#eef4ff', points: ['#7FA8CF', '#E6E8EC'] },
+      gifts: ['#A9C7E8', '#E6E8EC', '#5B7FA6', '#F4F8FC', '#2C4A6B'],
+      giftRibbons: ['#E6E8EC', '#7FA8CF', '#FFFFFF'],
+      skirt: '#1E3550',
+      skirtTrim: '#F4F8FC',
+      ui: { text: '#F1F5F9', title: '#E2E8F0', accent: '#CBD5E1', border: '#94A3B8', glow: '#E6F0FF', deep: '#1E3A5F', muted: '#7FA8CF' }
+    }
+  },
+  {
+    id: 'rose-gold',
+    label: 'Rose Gold',
+    palette: {
+      foliage: { low: '#2a0f18', high: '#8a4a5c', sparkle: '#F7C6A3' },
+      ornaments: ['#B76E79', '#E8B4A0', '#F3D1C8'],
+      guestbook: '#FFF0EB',
+      ribbons: ['#E8B4A0', '#D99A86', '#C98B73', '#B76E79', '#8E4A57'],
+      bulbs: [['#FFD9C2', '#FFF1E8'], ['#FF9FB2', '#FFD1A8', '#F6B8C8', '#FFE3D1']],
+      topper: '#E8B4A0',
+      topperLight: '#ffd9c8',
+      topperRays: '#FFF0EB',
+      lights: { ambient: '#110005', spot: '#fff1ea', points: ['#B76E79', '#E8B4A0'] },
+      gifts: ['#B76E79', '#E8B4A0', '#F3D1C8', '#FFF0EB', '#6E2F3F'],
+      giftRibbons: ['#E8B4A0', '#FFF0EB', '#B76E79'],
+      skirt: '#5A1E2C',
+      skirtTrim: '#FFF0EB',
+      ui: { text: '#FFE4E6', title: '#FECDD3', accent: '#F2B8A2', border: '#D99A86', glow: '#F7C6A3', deep: '#4C1D2B', muted: '#C98B96' }
+    }
+  },
+  {
+    id: 'midnight-blue',
+    label: 'Midnight Blue',
+    palette: {
+      foliage: { low: '#020b24', high: '#1f3f8a', sparkle: '#C9D6FF' },
+      ornaments: ['#27408B', '#D4AF37', '#0B1F4D'],
+      guestbook: '#E8ECF8',
+      ribbons: ['#D4AF37', '#C0C8D8', '#B8962E', '#3A5BA0', '#1E3A8A'],
+      bulbs: [['#CFE0FF', '#FFF4D6'], ['#5B8CFF', '#D4AF37', '#9FB8FF', '#3B5BDB']],
+      topper: '#E6C65C',
+      topperLight: '#dfe6ff',
+      topperRays: '#E8ECF8',
+      lights: { ambient: '#000314', spot: '#e6ecff', points: ['#3A5BA0', '#D4AF37'] },
+      gifts: ['#1E3A8A', '#D4AF37', '#E8ECF8', '#0B1F4D', '#3A5BA0'],
+      giftRibbons: ['#D4AF37', '#C0C8D8', '#E8ECF8'],
+      skirt: '#0B1F4D',
+      skirtTrim: '#E8ECF8',
+      ui: { text: '#E0E7FF', title: '#C7D2FE', accent: '#A5B4FC', border: '#818CF8', glow: '#9FB8FF', deep: '#1E1B4B', muted: '#6F86D6' }
+    }
+  },
+  {
+    id: 'candy-cane',
+    label: 'Candy Cane',
+    palette: {
+      foliage: { low: '#0b3a1f', high: '#4caf6e', sparkle: '#FFFFFF' },
+      ornaments: ['#E3262F', '#FFFFFF', '#2E9E4F'],
+      guestbook: '#FFFFFF',
+      ribbons: ['#FFFFFF', '#E3262F', '#F5F5F5', '#E3262F', '#B01722'],
+      bulbs: [['#FFFFFF', '#FFE3E3'], ['#FF2B2B', '#FFFFFF', '#FF2B2B', '#5BFF8A']],
+      topper: '#FFF5F5',
+      topperLight: '#ffe0e0',
+      topperRays: '#FF4D4D',
+      lights: { ambient: '#110000', spot: '#fff5f5', points: ['#E3262F', '#FFFFFF'] },
+      gifts: ['#E3262F', '#FFFFFF', '#2E9E4F', '#F5F5F5', '#B01722'],
+      giftRibbons: ['#FFFFFF', '#E3262F', '#2E9E4F'],
+      skirt: '#B01722',
+      skirtTrim: '#FFFFFF',
+      ui: { text: '#FFF1F2', title: '#FECDD3', accent: '#FB7185', border: '#F43F5E', glow: '#FF6B81', deep: '#7F1D1D', muted: '#F87171' }
+    }
+  }
+];
+
+export const THEME_IDS = THEMES.map((theme) => theme.id);
+
+export const listThemes = (): Theme[] => THEMES;
+
+// Unknown ids (old links, typos in a timeline) fall back to the classic theme
+export const getTheme = (id: string): Theme => THEMES.find((theme) => theme.id === id) ?? THEMES[0];
+
+// The classic theme, read off the config
+const configPalette = (config: TreeConfig): ThemePalette => ({
+  foliage: CLASSIC_FOLIAGE,
+  ornaments: config.ornaments.map((group) => group.color),
+  guestbook: config.guestbook.color,
+  ribbons: config.ribbons.map((ribbon) => ribbon.color),
+  bulbs: config.lightStrings.strings.map((string) => string.colors),
+  topper: config.topper.color,
+  topperLight: config.topper.lightColor,
+  topperRays: CLASSIC_RAYS,
+  lights: {
+    ambient: config.lights.ambient.color,
+    spot: config.lights.spot.color,
+    points: config.lights.points.map((light) => light.color)
+  },
+  gifts: config.ground.gifts.colors,
+  giftRibbons: config.ground.gifts.ribbonColors,
+  skirt: config.ground.skirt.color,
+  skirtTrim: config.ground.skirt.trimColor,
+  ui: CLASSIC_UI
+});
+
+// Names of the colour slots a scene reads from the theme mixer
+export const themeSlot = {
+  foliageLow: 'foliage.low',
+  foliageHigh: 'foliage.high',
+  foliageSparkle: 'foliage.sparkle',
+  topper: 'topper',
+  topperLight: 'topper.light',
+  topperRays: 'topper.rays',
+  ambient: 'light.ambient',
+  spot: 'light.spot',
+  skirt: 'skirt',
+  skirtTrim: 'skirt.trim',
+  ornament: (groupId: string) => `ornament:${groupId}`,
+  ribbon: (id: string) => `ribbon:${id}`,
+  bulb: (stringId: string, index: number) => `bulb:${stringId}:${index}`,
+  point: (index: number) => `light.point:${index}`,
+  gift: (index: number) => `gift:${index}`,
+  giftRibbon: (index: number) => `gift.ribbon:${index}`,
+  ui: (key: keyof ThemeUi) => `ui.${key}`
+};
+
+export const UI_KEYS: (keyof ThemeUi)[] = ['text', 'title', 'accent', 'border', 'glow', 'deep', 'muted'];
+
+// Slot name -> hex colour
+export type ThemeColors = Record<string, string>;
+
+const cycle = <T>(list: T[], i: number): T => list[i % list.length];
+
+// Every slot the scene has under this config, coloured by the theme
+export const resolveThemeColors = (config: TreeConfig, theme: Theme): ThemeColors => {
+  const palette = theme.palette ?? configPalette(config);
+  const colors: ThemeColors = {
+    [themeSlot.foliageLow]: palette.foliage.low,
+    [themeSlot.foliageHigh]: palette.foliage.high,
+    [themeSlot.foliageSparkle]: palette.foliage.sparkle,
+    [themeSlot.topper]: palette.topper,
+    [themeSlot.topperLight]: palette.topperLight,
+    [themeSlot.topperRays]: palette.topperRays,
+    [themeSlot.ambient]: palette.lights.ambient,
+    [themeSlot.spot]: palette.lights.spot,
+    [themeSlot.skirt]: palette.skirt,
+    [themeSlot.skirtTrim]: palette.skirtTrim,
+    [themeSlot.ornament(GUESTBOOK_GROUP_ID)]: palette.guestbook
+  };
+  config.ornaments.forEach((group, i) => { colors[themeSlot.ornament(group.id)] = cycle(palette.ornaments, i); });
+  config.ribbons.forEach((ribbon, i) => { colors[themeSlot.ribbon(ribbon.id)] = cycle(palette.ribbons, i); });
+  config.lightStrings.strings.forEach((string, i) => {
+    const bulbs = cycle(palette.bulbs, i);
+    string.colors.forEach((_, j) => { colors[themeSlot.bulb(string.id, j)] = cycle(bulbs, j); });
+  });
+  config.lights.points.forEach((_, i) => { colors[themeSlot.point(i)] = cycle(palette.lights.points, i); });
+  config.ground.gifts.colors.forEach((_, i) => { colors[themeSlot.gift(i)] = cycle(palette.gifts, i); });
+  config.ground.gifts.ribbonColors.forEach((_, i) => { colors[themeSlot.giftRibbon(i)] = cycle(palette.giftRibbons, i); });
+  UI_KEYS.forEach((key) => { colors[themeSlot.ui(key)] = palette.ui[key]; });
+  return colors;
+};
+
+interface SlotFade {
+  from: THREE.Color;
+  to: THREE.Color;
+  current: THREE.Color;
+}
+
+export interface ThemeMixer {
+  // Fade every slot from its current colour to `colors`; slots seen for the first time start there
+  fadeTo: (colors: ThemeColors, duration: number) => void;
+  // Advance the fade; true when any colour changed this frame
+  step: (delta: number) => boolean;
+  // Current colour of a slot (linear), or undefined for a slot the theme doesn't know
+  get: (slot: string) => THREE.Color | undefined;
+  // Copy a slot's current colour into `target`; leaves it alone for an unknown slot
+  copy: (slot: string, target: THREE.Color) => void;
+}
+
+// Blends the scene between themes. Materials copy their slot colours every frame, so a
+// theme switch crossfades everything at once without touching React state.
+export const createThemeMixer = (): ThemeMixer => {
+  const slots = new Map<string, SlotFade>();
+  let progress = 1;
+  let duration = 1;
+
+  return {
+    fadeTo: (colors, seconds) => {
+      Object.entries(colors).forEach(([slot, hex]) => {
+        const fade = slots.get(slot);
+        if (fade) {
+          fade.from.copy(fade.current);
+          fade.to.set(hex);
+        } else {
+          const color = new THREE.Color(hex);
+          slots.set(slot, { from: color.clone(), to: color.clone(), current: color });
+        }
+      });
+      progress = 0;
+      duration = Math.max(seconds, 0.001);
+    },
+    step: (delta) => {
+      if (progress >= 1) return false;
+      progress = Math.min(1, progress + delta / duration);
+      const t = easeInOutCubic(progress);
+      slots.forEach((fade) => fade.current.lerpColors(fade.from, fade.to, t));
+      return true;
+    },
+    get: (slot) => slots.get(slot)?.current,
+    copy: (slot, target) => {
+      const fade = slots.get(slot);
+      if (fade) target.copy(fade.current);
+    }
+  };
+};
+
+const channels = new THREE.Color();
+
+// Write the UI colours as "r g b" CSS variables (--ui-text, --ui-accent, ...)
+export const writeThemeCss = (mixer: ThemeMixer, root: HTMLElement) => {
+  UI_KEYS.forEach((key) => {
+    const color = mixer.get(themeSlot.ui(key));
+    if (!color) return;
+    color.getRGB(channels, THREE.SRGBColorSpace);
+    const rgb = [channels.r, channels.g, channels.b].map((c) => Math.round(THREE.MathUtils.clamp(c, 0, 1) * 255));
+    root.style.setProperty(`--ui-${key}`, rgb.join(' '));
+  });
+};
@@ -0,0 +1,256 @@
+import { CameraView, EasingName, Keyframe, Timeline, TimelineFrame, TimelineTracks, Vec3 } from '../types';
+import { hasFormation, listFormations } from './formations';
+import { easeInOutCubic, smoothstep } from './morph';
+import { THEME_IDS } from './themes';
+
+export const TIMELINE_VERSION = 1;
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t,
+  easeOut: (t) => t * (2 - t),
+  easeInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  smoothstep,
+  easeInOutCubic
+};
+
+// Thrown for a malformed timeline document; `path` points at the offending field
+export class TimelineError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'TimelineError';
+  }
+}
+
+// --- Parsing ---
+
+type RawObject = Record<string, unknown>;
+
+const NUMBER_TRACKS = ['ambient', 'spot', 'points', 'bloom', 'rotationSpeed'] as const;
+const TRACK_NAMES = ['formation', 'palette', 'shot', 'camera', ...NUMBER_TRACKS];
+
+const asObject = (raw: unknown, path: string, allowedKeys: string[]): RawObject => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new TimelineError(path, 'expected an object');
+  Object.keys(raw).forEach((key) => {
+    if (!allowedKeys.includes(key)) {
+      throw new TimelineError(`${path}.${key}`, `unknown field (expected one of: ${allowedKeys.join(', ')})`);
+    }
+  });
+  return raw as RawObject;
+};
+
+const asNumber = (value: unknown, path: string, min = -Infinity): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new TimelineError(path, 'expected a number');
+  if (value < min) throw new TimelineError(path, `must be >= ${min}, got ${value}`);
+  return value;
+};
+
+const asString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string' || value.length === 0) throw new TimelineError(path, 'expected a non-empty string');
+  return value;
+};
+
+// Formations as registered right now, so a config's text/logo shapes count once they are loaded
+const asFormation = (value: unknown, path: string): string => {
+  const id = asString(value, path);
+  if (!hasFormation(id)) {
+    throw new TimelineError(path, `expected one of ${listFormations().map((f) => f.id).join(', ')}, got "${id}"`);
+  }
+  return id;
+};
+
+const asTheme = (value: unknown, path: string): string => {
+  const id = asString(value, path);
+  if (!THEME_IDS.includes(id)) throw new TimelineError(path, `expected one of ${THEME_IDS.join(', ')}, got "${id}"`);
+  return id;
+};
+
+const asVec3 = (value: unknown, path: string): Vec3 => {
+  if (!Array.isArray(value) || value.length !== 3 || value.some((v) => typeof v !== 'number' || !Number.isFinite(v))) {
+    throw new TimelineError(path, 'expected an [x, y, z] array of numbers');
+  }
+  return [value[0], value[1], value[2]];
+};
+
+const asCamera = (value: unknown, path: string): CameraView => {
+  const obj = asObject(value, path, ['position', 'target']);
+  return { position: asVec3(obj.position, `${path}.position`), target: asVec3(obj.target ?? [0, 0, 0], `${path}.target`) };
+};
+
+// Keyframes of one track, sorted by time. Switch tracks (formation, palette, shot) can't tween.
+const readTrack = <T>(raw: unknown, path: string, readValue: (value: unknown, path: string) => T, tweens = true): Keyframe<T>[] => {
+  if (!Array.isArray(raw)) throw new TimelineError(path, 'expected an array of keyframes');
+  const keyframes = raw.map((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    const obj = asObject(item, itemPath, tweens ? ['at', 'value', 'duration', 'easing'] : ['at', 'value']);
+    const easing = obj.easing === undefined ? 'easeInOut' : asString(obj.easing, `${itemPath}.easing`);
+    if (!(easing in EASINGS)) {
+      throw new TimelineError(`${itemPath}.easing`, `expected one of ${Object.keys(EASINGS).join(', ')}, got "${easing}"`);
+    }
+    return {
+      at: asNumber(obj.at, `${itemPath}.at`, 0),
+      value: readValue(obj.value, `${itemPath}.value`),
+      duration: obj.duration === undefined ? 0 : asNumber(obj.duration, `${itemPath}.duration`, 0),
+      easing: easing as EasingName
+    };
+  });
+  if (keyframes.length === 0) throw new TimelineError(path, 'needs at least one keyframe');
+  // Stable sort keeps authoring order for keyframes at the same time
+  return keyframes.sort((a, b) => a.at - b.at);
+};
+
+// Validate an untrusted timeline document (usually parsed JSON)
+export const parseTimeline = (raw: unknown): Timeline => {
+  const root = asObject(raw, 'timeline', ['$schema', 'version', 'name', 'duration', 'loop', 'tracks']);
+  if (root.version !== TIMELINE_VERSION) {
+    throw new TimelineError('timeline.version', `unsupported version ${String(root.version)} (expected ${TIMELINE_VERSION})`);
+  }
+  const rawTracks = asObject(root.tracks, 'timeline.tracks', TRACK_NAMES);
+  const tracks: TimelineTracks = {};
+  if (rawTracks.formation !== undefined) tracks.formation = readTrack(rawTracks.formation, 'timeline.tracks.formation', asFormation, false);
+  if (rawTracks.palette !== undefined) tracks.palette = readTrack(rawTracks.palette, 'timeline.tracks.palette', asTheme, false);
+  if (rawTracks.shot !== undefined) tracks.shot = readTrack(rawTracks.shot, 'timeline.tracks.shot', asString, false);
+  if (rawTracks.camera !== undefined) tracks.camera = readTrack(rawTracks.camera, 'timeline.tracks.camera', asCamera);
+  NUMBER_TRACKS.forEach((name) => {
+    if (rawTracks[name] !== undefined) {
+      tracks[name] = readTrack(rawTracks[name], `timeline.tracks.${name}`, (value, path) => asNumber(value, path));
+    }
+  });
+
+  // Default length: until the last tween has settled
+  const settled = Object.values(tracks).reduce(
+    (end: number, track: Keyframe<unknown>[]) => Math.max(end, ...track.map((k) => k.at + k.duration)),
+    0
+  );
+  const duration = root.duration === undefined ? settled : asNumber(root.duration, 'timeline.duration', 0.001);
+  if (duration === 0) throw new TimelineError('timeline.duration', 'is required when nothing happens after 0s');
+  if (root.loop !== undefined && typeof root.loop !== 'boolean') throw new TimelineError('timeline.loop', 'expected a boolean');
+  return {
+    name: root.name === undefined ? 'Untitled show' : asString(root.name, 'timeline.name'),
+    duration,
+    loop: root.loop === true,
+    tracks
+  };
+};
+
+export const loadTimeline = async (url: string): Promise<Timeline> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load timeline from ${url} (HTTP ${response.status})`);
+  return parseTimeline(await response.json());
+};
+
+// --- Sampling ---
+
+const lerpNumber = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpCamera = (a: CameraView, b: CameraView, t: number): CameraView => ({
+  position: a.position.map((v, i) => lerpNumber(v, b.position[i], t)) as Vec3,
+  target: a.target.map((v, i) => lerpNumber(v, b.target[i], t)) as Vec3
+});
+
+// Value of a tweened track at `time`. Each tween starts from wherever the previous
+// keyframes had got to at its start time, so overlapping tweens never jump.
+const sampleTween = <T>(track: Keyframe<T>[], time: number, lerp: (a: T, b: T, t: number) => T): T => {
+  let start = track[0].value; // Where the active tween started
+  let active = track[0];
+  for (const keyframe of track) {
+    if (keyframe.at > time) break;
+    // Freeze the tween in progress at this keyframe's start
+    start = tweenAt(active, start, keyframe.at, lerp);
+    active = keyframe;
+  }
+  return tweenAt(active, start, time, lerp);
+};
+
+const tweenAt = <T>(keyframe: Keyframe<T>, start: T, time: number, lerp: (a: T, b: T, t: number) => T): T => {
+  if (keyframe.duration === 0 || time >= keyframe.at + keyframe.duration) return keyframe.value;
+  const t = Math.max(0, (time - keyframe.at) / keyframe.duration);
+  return lerp(start, keyframe.value, EASINGS[keyframe.easing](t));
+};
+
+// Switch tracks hold the last value reached (the first one before it starts)
+const sampleSwitch = <T>(track: Keyframe<T>[], time: number): T =>
+  track.reduce((value, keyframe) => (keyframe.at <= time ? keyframe.value : value), track[0].value);
+
+export const sampleTimeline = (timeline: Timeline, time: number): TimelineFrame => {
+  const { tracks } = timeline;
+  const frame: TimelineFrame = {};
+  if (tracks.formation) frame.formation = sampleSwitch(tracks.formation, time);
+  if (tracks.palette) frame.palette = sampleSwitch(tracks.palette, time);
+  if (tracks.shot) frame.shot = sampleSwitch(tracks.shot, time);
+  if (tracks.camera) frame.camera = sampleTween(tracks.camera, time, lerpCamera);
+  NUMBER_TRACKS.forEach((name) => {
+    const track = tracks[name];
+    if (track) frame[name] = sampleTween(track, time, lerpNumber);
+  });
+  return frame;
+};
+
+// --- Playback ---
+
+export interface TimelinePlayer {
+  timeline: Timeline;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setLoop: (loop: boolean) => void;
+  isPlaying: () => boolean;
+  isLooping: () => boolean;
+  getTime: () => number;
+  // Advance by `delta` seconds while playing (call once per rendered frame, so fixed-timestep
+  // capture stays exact). Returns true when the time moved, by playing or by a seek.
+  update: (delta: number) => boolean;
+  sample: () => TimelineFrame;
+}
+
+export const createTimelinePlayer = (timeline: Timeline): TimelinePlayer => {
+  let time = 0;
+  let playing = false;
+  let loop = timeline.loop;
+  let seeked = true; // Apply the first frame even before playback starts
+
+  return {
+    timeline,
+    play() {
+      // Replaying a finished show starts it over
+      if (!loop && time >= timeline.duration) time = 0;
+      playing = true;
+    },
+    pause: () => {
+      playing = false;
+    },
+    seek(next) {
+      time = Math.min(Math.max(next, 0), timeline.duration);
+      seeked = true;
+    },
+    setLoop: (next) => {
+      loop = next;
+    },
+    isPlaying: () => playing,
+    isLooping: () => loop,
+    getTime: () => time,
+    update(delta) {
+      const moved = seeked || playing;
+      seeked = false;
+      if (!playing) return moved;
+      time += delta;
+      if (time >= timeline.duration) {
+        if (loop) {
+          time %= timeline.duration;
+        } else {
+          time = timeline.duration;
+          playing = false;
+        }
+      }
+      return moved;
+    },
+    sample: () => sampleTimeline(timeline, time)
+  };
+};
+
+// What the scene reads each frame: the current values, and whether the playhead moved
+// (camera tracks only take over while it does, so a paused show can be orbited freely)
+export interface TimelineOutput {
+  frame: TimelineFrame | null;
+  moved: boolean;
+}
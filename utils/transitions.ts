@@ -0,0 +1,222 @@
+import { TransitionSettings, TransitionStyle } from '../types';
+
+// How each style plays out. `stagger` is the share of the transition spent waiting for
+// each element's turn: an element with delay d (0..1) starts at progress d * stagger and
+// arrives 1 - stagger later, so the last one lands exactly at the end.
+const STYLES: Record<TransitionStyle, { index: number; stagger: number; label: string }> = {
+  smooth: { index: 0, stagger: 0, label: 'Smooth' },
+  'bottom-up': { index: 1, stagger: 0.6, label: 'Bottom up' },
+  'spiral-in': { index: 2, stagger: 0.5, label: 'Spiral' },
+  explosive: { index: 3, stagger: 0.15, label: 'Explosive' },
+  spring: { index: 4, stagger: 0.35, label: 'Spring' }
+};
+
+export const TRANSITION_STYLES = Object.keys(STYLES) as TransitionStyle[];
+
+export const listTransitionStyles = () =>
+  TRANSITION_STYLES.map((id) => ({ id, label: STYLES[id].label }));
+
+export const DEFAULT_TRANSITION: TransitionSettings = { style: 'smooth', duration: 2.5 };
+
+export const MIN_TRANSITION_DURATION = 0.5;
+export const MAX_TRANSITION_DURATION = 8;
+
+const TAU = Math.PI * 2;
+const BUILD_BOTTOM = -7; // Heights mapped onto 0..1 for the bottom-up and spiral delays
+const BUILD_HEIGHT = 16;
+const SPIRAL_TURN = TAU * 1.25; // How far round the trunk a spiralling element travels
+const SPIRAL_PULL = 0.6; // How close to the trunk it passes halfway through
+const EXPLOSION_SPEED = 12; // Launch speed, units/s, for an element with seed 0.5
+const EXPLOSION_ORIGIN_Y = -2; // Elements are thrown away from this point on the axis
+const DRAG = 1.8; // Linear air drag, 1/s
+const GRAVITY = 8;
+
+const clamp01 = (x: number) => Math.min(Math.max(x, 0), 1);
+
+// When an element's move starts, 0..1 of the stagger window, from where it ends up
+const delay = (style: TransitionStyle, tx: number, ty: number, tz: number, seed: number) => {
+  const height = clamp01((ty - BUILD_BOTTOM) / BUILD_HEIGHT);
+  switch (style) {
+    case 'bottom-up':
+      return height;
+    case 'spiral-in': {
+      const angle = Math.atan2(tz, tx) / TAU + 0.5;
+      return height * 0.7 + (angle - Math.floor(angle)) * 0.3;
+    }
+    case 'explosive':
+    case 'spring':
+      return seed;
+    default:
+      return 0;
+  }
+};
+
+// The element's own 0..1 clock at overall progress `progress`
+const localProgress = (settings: TransitionSettings, progress: number, tx: number, ty: number, tz: number, seed: number) => {
+  const { stagger } = STYLES[settings.style];
+  return clamp01((progress - delay(settings.style, tx, ty, tz, seed) * stagger) / (1 - stagger));
+};
+
+// Share of the way from `from` to `to`; the spring overshoots by about 15% before settling
+const weight = (style: TransitionStyle, local: number) => {
+  const eased = local * local * (3 - 2 * local);
+  if (style === 'spring') return 1 - Math.exp(-6 * local) * Math.cos(3 * Math.PI * local) * (1 - local * local);
+  if (style === 'explosive') return eased * eased;
+  return eased;
+};
+
+// Rotation about the trunk, same convention as the shaders' transitionSpin
+const spin = (out: number[], x: number, z: number, angle: number) => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  out[0] = x * c - z * s;
+  out[2] = x * s + z * c;
+};
+
+const spun = [0, 0, 0];
+
+/**
+ * CPU mirror of the shaders' transitionMove / transitionTurn. Writes into `out` at
+ * `offset` where an element travelling from `from` to `to` (read at `fromOffset` and
+ * `toOffset`) is drawn at `progress`. `anchor` is the element's destination position
+ * (which sets its delay); for a position it is `to` itself. Directions (`direction`)
+ * only follow the spiral, they are never launched or pulled in.
+ */
+export const sampleTransition = (
+  settings: TransitionSettings,
+  progress: number,
+  from: ArrayLike<number>,
+  fromOffset: number,
+  to: ArrayLike<number>,
+  toOffset: number,
+  anchor: ArrayLike<number>,
+  anchorOffset: number,
+  seed: number,
+  out: Float32Array | number[],
+  offset: number,
+  direction = false
+) => {
+  const { style, duration } = settings;
+  const local = localProgress(settings, progress, anchor[anchorOffset], anchor[anchorOffset + 1], anchor[anchorOffset + 2], seed);
+  const w = weight(style, local);
+  let fx = from[fromOffset];
+  let fy = from[fromOffset + 1];
+  let fz = from[fromOffset + 2];
+  const tx = to[toOffset];
+  const ty = to[toOffset + 1];
+  const tz = to[toOffset + 2];
+
+  if (style === 'explosive' && !direction) {
+    // Ballistic flight with linear drag: closed form of v' = -DRAG v + g
+    let dx = fx;
+    let dy = fy - EXPLOSION_ORIGIN_Y;
+    let dz = fz;
+    const len = Math.hypot(dx, dy, dz) || 1;
+    const speed = EXPLOSION_SPEED * (0.5 + seed);
+    const tau = local * duration;
+    const decay = (1 - Math.exp(-DRAG * tau)) / DRAG;
+    dx = (dx / len) * speed * decay;
+    dy = (dy / len) * speed * decay - (GRAVITY * (tau - decay)) / DRAG;
+    dz = (dz / len) * speed * decay;
+    fx += dx;
+    fy += dy;
+    fz += dz;
+  }
+
+  if (style === 'spiral-in') {
+    // Blend towards the destination wound back a turn, then unwind by the same amount:
+    // starts exactly at `from`, ends exactly at `to`, circling the trunk in between
+    spin(spun, tx, tz, -SPIRAL_TURN);
+    spin(spun, fx + (spun[0] - fx) * w, fz + (spun[2] - fz) * w, SPIRAL_TURN * w);
+    const pull = direction ? 1 : 1 - SPIRAL_PULL * Math.sin(Math.PI * w);
+    out[offset] = spun[0] * pull;
+    out[offset + 1] = fy + (ty - fy) * w;
+    out[offset + 2] = spun[2] * pull;
+    return;
+  }
+
+  out[offset] = fx + (tx - fx) * w;
+  out[offset + 1] = fy + (ty - fy) * w;
+  out[offset + 2] = fz + (tz - fz) * w;
+};
+
+// Uniforms read by TRANSITION_VERTEX; spread into a material's uniforms
+export interface TransitionUniforms {
+  uTransitionStyle: { value: number };
+  uTransitionStagger: { value: number };
+  uTransitionDuration: { value: number };
+}
+
+export const createTransitionUniforms = (): TransitionUniforms => ({
+  uTransitionStyle: { value: 0 },
+  uTransitionStagger: { value: 0 },
+  uTransitionDuration: { value: DEFAULT_TRANSITION.duration }
+});
+
+export const setTransitionUniforms = (uniforms: TransitionUniforms, settings: TransitionSettings) => {
+  uniforms.uTransitionStyle.value = STYLES[settings.style].index;
+  uniforms.uTransitionStagger.value = STYLES[settings.style].stagger;
+  uniforms.uTransitionDuration.value = settings.duration;
+};
+
+const glsl = (value: number) => value.toFixed(6);
+
+// GPU side of sampleTransition, for vertex shaders. Style indices follow STYLES.
+export const TRANSITION_VERTEX = /* glsl */ `
+  uniform float uTransitionStyle;
+  uniform float uTransitionStagger;
+  uniform float uTransitionDuration;
+
+  float transitionDelay(vec3 to, float seed) {
+    float height = clamp((to.y - (${glsl(BUILD_BOTTOM)})) / ${glsl(BUILD_HEIGHT)}, 0.0, 1.0);
+    if (uTransitionStyle > 2.5) return seed;
+    if (uTransitionStyle > 1.5) return height * 0.7 + fract(atan(to.z, to.x) / ${glsl(TAU)} + 0.5) * 0.3;
+    if (uTransitionStyle > 0.5) return height;
+    return 0.0;
+  }
+
+  float transitionWeight(vec3 anchor, float seed, float progress) {
+    float local = clamp((progress - transitionDelay(anchor, seed) * uTransitionStagger) / (1.0 - uTransitionStagger), 0.0, 1.0);
+    float eased = local * local * (3.0 - 2.0 * local);
+    if (uTransitionStyle > 3.5) return 1.0 - exp(-6.0 * local) * cos(${glsl(3 * Math.PI)} * local) * (1.0 - local * local);
+    if (uTransitionStyle > 2.5) return eased * eased;
+    return eased;
+  }
+
+  vec3 transitionSpin(vec3 p, float angle) {
+    float c = cos(angle);
+    float s = sin(angle);
+    return vec3(p.x * c - p.z * s, p.y, p.x * s + p.z * c);
+  }
+
+  vec3 transitionLaunch(vec3 from, vec3 anchor, float seed, float progress) {
+    float local = clamp((progress - transitionDelay(anchor, seed) * uTransitionStagger) / (1.0 - uTransitionStagger), 0.0, 1.0);
+    vec3 away = from - vec3(0.0, ${glsl(EXPLOSION_ORIGIN_Y)}, 0.0);
+    float len = length(away);
+    away = len > 0.0 ? away / len : vec3(0.0);
+    float tau = local * uTransitionDuration;
+    float decay = (1.0 - exp(${glsl(-DRAG)} * tau)) / ${glsl(DRAG)};
+    return away * ${glsl(EXPLOSION_SPEED)} * (0.5 + seed) * decay - vec3(0.0, ${glsl(GRAVITY / DRAG)} * (tau - decay), 0.0);
+  }
+
+  // Where an element moving from \`from\` to \`to\` is drawn at \`progress\` (linear 0..1)
+  vec3 transitionMove(vec3 from, vec3 to, float seed, float progress) {
+    float w = transitionWeight(to, seed, progress);
+    if (uTransitionStyle > 2.5 && uTransitionStyle < 3.5) from += transitionLaunch(from, to, seed, progress);
+    if (uTransitionStyle > 1.5 && uTransitionStyle < 2.5) {
+      vec3 p = transitionSpin(mix(from, transitionSpin(to, ${glsl(-SPIRAL_TURN)}), w), ${glsl(SPIRAL_TURN)} * w);
+      p.xz *= 1.0 - ${glsl(SPIRAL_PULL)} * sin(${glsl(Math.PI)} * w);
+      return p;
+    }
+    return mix(from, to, w);
+  }
+
+  // A direction (e.g. a ribbon's tangent) riding along with the element ending at \`anchor\`
+  vec3 transitionTurn(vec3 from, vec3 to, vec3 anchor, float seed, float progress) {
+    float w = transitionWeight(anchor, seed, progress);
+    if (uTransitionStyle > 1.5 && uTransitionStyle < 2.5) {
+      return transitionSpin(mix(from, transitionSpin(to, ${glsl(-SPIRAL_TURN)}), w), ${glsl(SPIRAL_TURN)} * w);
+    }
+    return mix(from, to, w);
+  }
+`;
@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { TreeProfileConfig, TreeProfileId, Vec3 } from '../types';
+import { RandomGenerator } from './random';
+
+// Where the trunk meets the ground; every silhouette grows up from here
+export const TREE_BASE_Y = -6;
+
+// The original cone. Coordinates authored before profiles existed (ribbon y ranges,
+// stored guestbook spots) are read against it and stretched onto the active profile.
+export const CLASSIC_HEIGHT = 12;
+export const CLASSIC_RADIUS = 5;
+
+// Ornaments hang slightly inside the foliage: a shorter, narrower copy of the silhouette
+const ORNAMENT_HEIGHT = 11 / 12;
+const ORNAMENT_INSET = 0.9;
+// The star floats just above the tip
+const TOPPER_GAP = 0.8;
+// Angular width of a spiral tree's band of needles
+const SPIRAL_BAND = 1.1;
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export const MIN_PROFILE_HEIGHT = 6;
+export const MAX_PROFILE_HEIGHT = 18;
+export const MAX_PROFILE_RADIUS = 8;
+
+// A tree silhouette: foliage radius as a function of height
+export interface TreeProfile {
+  config: TreeProfileConfig;
+  height: number;
+  // Radius at heightRatio 0 (base) .. 1 (tip); the tip itself and anything above is 0
+  radiusAt: (heightRatio: number) => number;
+  // Spiral trees gather their needles along a helix with this many turns (0 = all round)
+  spiralTurns: number;
+}
+
+interface ProfilePreset {
+  id: TreeProfileId;
+  label: string;
+  height: number; // Default height when the preset is picked
+  radiusAt: (heightRatio: number) => number;
+  spiralTurns?: number;
+}
+
+export const DEFAULT_PROFILE_CURVE = [5, 4.3, 3.5, 2.6, 1.7, 0.8, 0];
+
+// Smooth curve through evenly spaced radii (uniform Catmull-Rom), never below zero
+const curveRadius = (curve: number[]) => (heightRatio: number) => {
+  const last = curve.length - 1;
+  const x = THREE.MathUtils.clamp(heightRatio, 0, 1) * last;
+  const i = Math.min(Math.floor(x), last - 1);
+  const t = x - i;
+  const p0 = curve[Math.max(i - 1, 0)];
+  const p1 = curve[i];
+  const p2 = curve[i + 1];
+  const p3 = curve[Math.min(i + 2, last)];
+  const value =
+    0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+  return Math.max(0, value);
+};
+
+const PRESETS: ProfilePreset[] = [
+  { id: 'classic', label: 'Classic Cone', height: CLASSIC_HEIGHT, radiusAt: (h) => CLASSIC_RADIUS * (1 - h) },
+  {
+    id: 'tiered-fir',
+    label: 'Tiered Fir',
+    height: CLASSIC_HEIGHT,
+    // Four layers of boughs: each narrows as it rises, then the next one flares out again
+    radiusAt: (h) => 5.6 * (1 - h) * (1 - 0.4 * ((h * 4) % 1))
+  },
+  { id: 'slim-spruce', label: 'Slim Spruce', height: 14, radiusAt: (h) => 3.2 * Math.pow(1 - h, 1.2) },
+  { id: 'spiral', label: 'Spiral', height: CLASSIC_HEIGHT, radiusAt: (h) => CLASSIC_RADIUS * (1 - h), spiralTurns: 5 },
+  { id: 'custom', label: 'Custom', height: CLASSIC_HEIGHT, radiusAt: curveRadius(DEFAULT_PROFILE_CURVE) }
+];
+
+export const PROFILE_PRESETS: { id: TreeProfileId; label: string; height: number }[] = PRESETS.map(
+  ({ id, label, height }) => ({ id, label, height })
+);
+
+export const DEFAULT_PROFILE_CONFIG: TreeProfileConfig = {
+  preset: 'classic',
+  height: CLASSIC_HEIGHT,
+  curve: DEFAULT_PROFILE_CURVE
+};
+
+export const createTreeProfile = (config: TreeProfileConfig): TreeProfile => {
+  const preset = PRESETS.find((p) => p.id === config.preset) ?? PRESETS[0];
+  const shape = config.preset === 'custom' ? curveRadius(config.curve) : preset.radiusAt;
+  return {
+    config,
+    height: config.height,
+    radiusAt: (h) => (h >= 1 ? 0 : shape(Math.max(h, 0))),
+    spiralTurns: preset.spiralTurns ?? 0
+  };
+};
+
+export const CLASSIC_PROFILE = createTreeProfile(DEFAULT_PROFILE_CONFIG);
+
+// A custom curve that starts out looking like `profile`, for the curve editor
+export const sampleProfileCurve = (profile: TreeProfile, points = DEFAULT_PROFILE_CURVE.length): number[] =>
+  Array.from({ length: points }, (_, i) => Math.round(profile.radiusAt(i / (points - 1)) * 100) / 100);
+
+// --- Sampling ---
+
+// Point `index` of `total` filling the silhouette: golden-angle spiral, linear in height,
+// with some depth so it isn't a hollow shell. Ornaments use the inset copy.
+export const profileVolumePoint = (
+  profile: TreeProfile,
+  layer: 'foliage' | 'ornaments',
+  index: number,
+  total: number,
+  random: RandomGenerator
+): Vec3 => {
+  const ornaments = layer === 'ornaments';
+  const h = index / total;
+  const y = TREE_BASE_Y + h * profile.height * (ornaments ? ORNAMENT_HEIGHT : 1);
+  const radius = profile.radiusAt(h) * (ornaments ? ORNAMENT_INSET : 1);
+  if (profile.spiralTurns > 0) {
+    // Keep to a band around the helix, close to the surface so the spiral reads
+    const theta = h * profile.spiralTurns * Math.PI * 2 + (random() - 0.5) * SPIRAL_BAND;
+    const r = radius * (0.7 + 0.3 * Math.sqrt(random()));
+    return [r * Math.cos(theta), y, r * Math.sin(theta)];
+  }
+  const r = radius * Math.sqrt(random());
+  const theta = index * GOLDEN_ANGLE;
+  return [r * Math.cos(theta), y, r * Math.sin(theta)];
+};
+
+// Point on the ornament surface; heightRatio runs 0 (base) to 1 (tip), angle is around the trunk
+export const profileSurfacePoint = (profile: TreeProfile, heightRatio: number, angle: number): Vec3 => {
+  const radius = profile.radiusAt(heightRatio) * ORNAMENT_INSET;
+  const y = TREE_BASE_Y + heightRatio * profile.height * ORNAMENT_HEIGHT;
+  return [radius * Math.cos(angle), y, radius * Math.sin(angle)];
+};
+
+// Move a point given against the classic cone to the same spot on `profile`: same height
+// ratio, same angle, same depth relative to the surface
+export const fitToProfile = (position: Vec3, profile: TreeProfile): Vec3 => {
+  if (profile === CLASSIC_PROFILE) return position;
+  const [x, y, z] = position;
+  const h = THREE.MathUtils.clamp((y - TREE_BASE_Y) / (CLASSIC_HEIGHT * ORNAMENT_HEIGHT), 0, 1);
+  const classicRadius = CLASSIC_PROFILE.radiusAt(h) * ORNAMENT_INSET;
+  const depth = classicRadius > 1e-3 ? Math.hypot(x, z) / classicRadius : 1;
+  const [sx, sy, sz] = profileSurfacePoint(profile, h, Math.atan2(z, x));
+  return [sx * depth, sy, sz * depth];
+};
+
+// Where a ray (in tree group space) first meets the ornament surface, as the height ratio
+// and angle profileSurfacePoint takes; null if it misses the tree
+export const profileSurfaceHit = (
+  profile: TreeProfile,
+  origin: THREE.Vector3,
+  direction: THREE.Vector3
+): { heightRatio: number; angle: number } | null => {
+  const point = new THREE.Vector3();
+  const surfaceHeight = profile.height * ORNAMENT_HEIGHT;
+  // Signed horizontal distance to the surface; negative inside the tree
+  const outside = (t: number) => {
+    point.copy(origin).addScaledVector(direction, t);
+    const h = (point.y - TREE_BASE_Y) / surfaceHeight;
+    if (h < 0 || h > 1) return 1;
+    return Math.hypot(point.x, point.z) - profile.radiusAt(h) * ORNAMENT_INSET;
+  };
+  // March until inside, then bisect back to the crossing
+  const STEP = 0.05;
+  const far = origin.length() + MAX_PROFILE_HEIGHT + MAX_PROFILE_RADIUS;
+  let before = 0;
+  for (let t = STEP; t < far; t += STEP) {
+    if (outside(t) >= 0) {
+      before = t;
+      continue;
+    }
+    let lo = before;
+    let hi = t;
+    for (let i = 0; i < 20; i++) {
+      const mid = (lo + hi) / 2;
+      if (outside(mid) >= 0) lo = mid;
+      else hi = mid;
+    }
+    outside(hi);
+    return {
+      heightRatio: THREE.MathUtils.clamp((point.y - TREE_BASE_Y) / surfaceHeight, 0, 1),
+      angle: Math.atan2(point.z, point.x)
+    };
+  }
+  return null;
+};
+
+export const profileTopper = (profile: TreeProfile): Vec3 => [0, TREE_BASE_Y + profile.height + TOPPER_GAP, 0];
+
+// Height ratio of a y given against the classic cone; the same ratio places it on any profile
+export const classicHeightRatio = (y: number) => (y - TREE_BASE_Y) / CLASSIC_HEIGHT;
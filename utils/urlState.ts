@@ -0,0 +1,94 @@
+import { CameraView, TreeState, Vec3, ViewState } from '../types';
+import { hasFormation } from './formations';
+import { DEFAULT_SEED } from './random';
+import { DEFAULT_THEME } from './themes';
+
+// Bump when the hash layout changes; decodeViewState keeps reading older versions
+export const VIEW_STATE_VERSION = 1;
+
+export const DEFAULT_PALETTE = DEFAULT_THEME;
+export const MAX_GREETING_LENGTH = 120;
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  formation: TreeState.SCATTERED,
+  seed: DEFAULT_SEED,
+  palette: DEFAULT_PALETTE,
+  camera: null,
+  greeting: ''
+};
+
+// Short keys keep links compact: #v=1&f=TREE_SHAPE&s=42&p=rose-gold&c=0,2,25,0,0,0&g=Hello
+const KEYS = {
+  version: 'v',
+  formation: 'f',
+  seed: 's',
+  palette: 'p',
+  camera: 'c',
+  greeting: 'g'
+} as const;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const encodeViewState = (state: ViewState): string => {
+  const params = new URLSearchParams();
+  params.set(KEYS.version, String(VIEW_STATE_VERSION));
+  params.set(KEYS.formation, state.formation);
+  params.set(KEYS.seed, String(state.seed));
+  params.set(KEYS.palette, state.palette);
+  if (state.camera) {
+    params.set(KEYS.camera, [...state.camera.position, ...state.camera.target].map(round).join(','));
+  }
+  if (state.greeting) params.set(KEYS.greeting, state.greeting);
+  return params.toString();
+};
+
+const parseCamera = (raw: string | null): CameraView | null => {
+  if (!raw) return null;
+  const values = raw.split(',').map(Number);
+  if (values.length !== 6 || values.some((v) => !Number.isFinite(v))) return null;
+  return { position: values.slice(0, 3) as Vec3, target: values.slice(3, 6) as Vec3 };
+};
+
+const parseSeed = (raw: string | null): number | null => {
+  if (raw === null || !/^\d+$/.test(raw)) return null;
+  const seed = Number(raw);
+  return seed <= 0xffffffff ? seed : null;
+};
+
+// Decode a location hash. Never throws: every field that is missing, malformed or
+// unknown (e.g. a formation that no longer exists) falls back to its default, so old
+// or hand-edited links still open a sensible scene.
+export const decodeViewState = (hash: string, fallback: ViewState = DEFAULT_VIEW_STATE): ViewState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const version = Number(params.get(KEYS.version));
+  if (!Number.isInteger(version) || version < 1) {
+    // Not one of our links (or from before links carried state)
+    return fallback;
+  }
+  if (version > VIEW_STATE_VERSION) {
+    console.warn(`Link uses view state v${version}; this build understands v${VIEW_STATE_VERSION}. Reading what it can.`);
+  }
+
+  const formation = params.get(KEYS.formation);
+  const palette = params.get(KEYS.palette);
+  return {
+    formation: formation && hasFormation(formation) ? formation : fallback.formation,
+    seed: parseSeed(params.get(KEYS.seed)) ?? fallback.seed,
+    palette: palette && /^[a-z0-9-]{1,40}$/.test(palette) ? palette : fallback.palette,
+    camera: parseCamera(params.get(KEYS.camera)) ?? fallback.camera,
+    greeting: (params.get(KEYS.greeting) ?? fallback.greeting).slice(0, MAX_GREETING_LENGTH)
+  };
+};
+
+export const readViewStateFromLocation = (): ViewState => decodeViewState(window.location.hash);
+
+// Update the address bar without adding a history entry per camera nudge
+export const writeViewStateToLocation = (state: ViewState) => {
+  const hash = `#${encodeViewState(state)}`;
+  if (window.location.hash !== hash) {
+    window.history.replaceState(null, '', hash);
+  }
+};
+
+export const getShareUrl = (state: ViewState): string =>
+  `${window.location.origin}${window.location.pathname}${window.location.search}#${encodeViewState(state)}`;
@@ -18,6 +18,22 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `vite build --mode lib`: the <ChristmasTree> component for other React apps (lib.ts).
+      // React and the three.js stack stay external so the host's single copies are used.
+      ...(mode === 'lib' && {
+        build: {
+          outDir: 'dist-lib',
+          copyPublicDir: false,
+          lib: {
+            entry: path.resolve(__dirname, 'lib.ts'),
+            formats: ['es'],
+            fileName: 'christmas-tree'
+          },
+          rollupOptions: {
+            external: [/^react($|\/)/, /^react-dom($|\/)/, /^three($|\/)/, /^@react-three\//]
+          }
+        }
+      })
     };
 });